@@ -1,8 +1,15 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['@modelcontextprotocol/sdk']
+    serverComponentsExternalPackages: ['@modelcontextprotocol/sdk', 'planner-core']
+  },
+  webpack: (config, { isServer }) => {
+    if (isServer) {
+      // planner-core loads native storage drivers (better-sqlite3) from its own node_modules
+      config.externals.push('planner-core');
+    }
+    return config;
   }
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
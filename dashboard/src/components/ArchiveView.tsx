@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import useSWR from 'swr';
+import { Archive, ArchiveRestore, ChevronLeft, ChevronRight, Minimize2 } from 'lucide-react';
+import type { ArchivePage, ArchiveRetention } from 'planner-core';
+import { formatTaskRef } from 'planner-core/browser';
+
+interface ArchiveViewProps {
+  // Show just this day, e.g. for a search result
+  date?: string | null;
+  onUnarchive: (taskId: string) => Promise<void>;
+  loading?: boolean;
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+const describeRetention = (retention: ArchiveRetention): string => {
+  const parts = [
+    retention.compactAfterDays && `compacted after ${retention.compactAfterDays} days`,
+    retention.purgeAfterDays && `purged after ${retention.purgeAfterDays} days`
+  ].filter(Boolean);
+  return parts.length > 0 ? `Archived tasks are ${parts.join(' and ')}` : 'Archived tasks are kept';
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Archived tasks by date range, 50 per page, each with a button to bring it
+ * back to its day
+ */
+export const ArchiveView = ({ date, onUnarchive, loading }: ArchiveViewProps) => {
+  const [from, setFrom] = useState(date || '');
+  const [to, setTo] = useState(date || '');
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    if (date) {
+      setFrom(date);
+      setTo(date);
+      setPage(1);
+    }
+  }, [date]);
+
+  // "-" leaves that end of the range open
+  const { data, error, mutate } = useSWR<{ contents: [{ text: string }] }>(
+    `/api/mcp/resources/archive:/${from || '-'}/${to || '-'}/${page}`,
+    fetcher,
+    { refreshInterval: 2000 }
+  );
+  const archive: (ArchivePage & { retention: ArchiveRetention }) | null = data?.contents?.[0]?.text
+    ? JSON.parse(data.contents[0].text)
+    : null;
+
+  const handleUnarchive = async (taskId: string) => {
+    await onUnarchive(taskId);
+    // The last task of a later page takes the page with it
+    if (archive && archive.tasks.length === 1 && page > 1) {
+      setPage(page - 1);
+    } else {
+      await mutate();
+    }
+  };
+
+  const changeRange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setter(e.target.value);
+    setPage(1);
+  };
+
+  const inputStyle = { padding: '6px 8px', border: '1px solid #dee2e6', borderRadius: '6px', fontSize: '13px' };
+  const pageButtonStyle = (disabled: boolean) => ({
+    display: 'flex',
+    alignItems: 'center',
+    padding: '4px 8px',
+    border: '1px solid #dee2e6',
+    borderRadius: '6px',
+    backgroundColor: 'white',
+    color: disabled ? '#ced4da' : '#495057',
+    cursor: disabled ? 'default' : 'pointer'
+  });
+
+  return (
+    <div style={{ height: '100%', overflowY: 'auto', padding: '4px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap', marginBottom: '12px' }}>
+        <h3 style={{ margin: 0, display: 'flex', alignItems: 'center', gap: '8px', fontSize: '18px' }}>
+          <Archive size={18} />
+          Archive
+          {archive && <span style={{ fontSize: '13px', fontWeight: 'normal', color: '#6c757d' }}>({archive.total})</span>}
+        </h3>
+        <label style={{ fontSize: '13px', color: '#495057', display: 'flex', alignItems: 'center', gap: '6px' }}>
+          From
+          <input type="date" value={from} max={to || undefined} onChange={changeRange(setFrom)} style={inputStyle} />
+        </label>
+        <label style={{ fontSize: '13px', color: '#495057', display: 'flex', alignItems: 'center', gap: '6px' }}>
+          To
+          <input type="date" value={to} min={from || undefined} onChange={changeRange(setTo)} style={inputStyle} />
+        </label>
+        {(from || to) && (
+          <button
+            onClick={() => { setFrom(''); setTo(''); setPage(1); }}
+            style={{ background: 'none', border: 'none', color: '#1976d2', cursor: 'pointer', fontSize: '13px' }}
+          >
+            All dates
+          </button>
+        )}
+      </div>
+
+      {archive && (
+        <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '12px' }}>{describeRetention(archive.retention)}</div>
+      )}
+      {error || (data && !archive) ? (
+        <div style={{ color: '#c62828', fontSize: '14px' }}>Could not load the archive</div>
+      ) : !archive ? (
+        <div style={{ color: '#666', fontSize: '14px' }}>Loading archive...</div>
+      ) : archive.tasks.length === 0 ? (
+        <div style={{ color: '#666', fontSize: '14px', fontStyle: 'italic' }}>
+          {from || to ? 'No archived tasks in this range' : 'No archived tasks yet'}
+        </div>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+          {archive.tasks.map((task, index) => (
+            <li key={task.id}>
+              {(index === 0 || archive.tasks[index - 1].date !== task.date) && (
+                <div style={{ fontSize: '12px', fontWeight: 600, color: '#495057', margin: '12px 0 6px' }}>{formatDate(task.date)}</div>
+              )}
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '8px 12px',
+                marginBottom: '4px',
+                backgroundColor: '#f8f9fa',
+                border: '1px solid #e9ecef',
+                borderRadius: '8px',
+                fontSize: '14px'
+              }}>
+                {task.ref !== undefined && <span style={{ fontSize: '11px', color: '#adb5bd', fontFamily: 'monospace' }}>{formatTaskRef(task)}</span>}
+                <span style={{ flex: 1, color: '#495057' }}>{task.text}</span>
+                {task.timeSlot && <span style={{ fontSize: '12px', color: '#6c757d' }}>{task.timeSlot}</span>}
+                {task.compacted && (
+                  <span title="Subtasks, time entries and pomodoros were dropped by the retention policy" style={{ display: 'flex', alignItems: 'center', gap: '2px', fontSize: '11px', color: '#adb5bd' }}>
+                    <Minimize2 size={11} />
+                    compacted
+                  </span>
+                )}
+                <button
+                  onClick={() => handleUnarchive(task.id)}
+                  disabled={loading}
+                  title="Move back to its day"
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '4px',
+                    padding: '4px 8px',
+                    border: '1px solid #dee2e6',
+                    borderRadius: '6px',
+                    backgroundColor: 'white',
+                    color: '#495057',
+                    cursor: loading ? 'default' : 'pointer',
+                    fontSize: '12px'
+                  }}
+                >
+                  <ArchiveRestore size={12} />
+                  Unarchive
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {archive && archive.pages > 1 && (
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '12px', marginTop: '16px', fontSize: '13px', color: '#495057' }}>
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} style={pageButtonStyle(page <= 1)}>
+            <ChevronLeft size={14} />
+          </button>
+          Page {archive.page} of {archive.pages}
+          <button onClick={() => setPage(page + 1)} disabled={page >= archive.pages} style={pageButtonStyle(page >= archive.pages)}>
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
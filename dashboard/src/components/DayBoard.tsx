@@ -1,43 +1,125 @@
 import { useState } from 'react';
-import { Target } from 'lucide-react';
+import { Target, ListChecks, Archive, CheckCheck, MoveRight, List, CalendarClock, Eye, X, Undo2, Redo2, NotebookPen } from 'lucide-react';
 import { TaskList } from './TaskList';
-
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  timeSlot?: 'morning' | 'afternoon' | 'evening';
-  date?: string;
-}
-
-interface Schedule {
-  morning: Task[];
-  afternoon: Task[];
-  evening: Task[];
-  unscheduled: Task[];
-}
+import { DayTimeline } from './DayTimeline';
+import { TaskFilterBar } from './TaskFilterBar';
+import type { ActiveTimer, DayPlan, EventSummary, HistoryStatus, Priority, RecurrenceFrequency, Schedule, Task, TaskFilter, TaskLabels, TaskPatch, TimeSlot } from 'planner-core';
 
 interface DayBoardProps {
   date: Date;
   schedule: Schedule;
-  onAddTask: (text: string, timeSlot?: string) => Promise<void>;
-  onCompleteTask: (taskId: string) => void;
+  /** Overdue tasks shown above the slots (today's board only) */
+  overdue?: Task[];
+  onAddTask: (text: string, timeSlot?: string, recurrence?: RecurrenceFrequency, priority?: Priority) => Promise<void>;
+  onCompleteTask: (taskId: string, cascade?: boolean) => void;
   onArchiveTask: (taskId: string) => void;
-  onPlanDay: () => Promise<void>;
+  onUpdateTask: (taskId: string, patch: TaskPatch) => Promise<void>;
+  onDeleteTask: (taskId: string, series?: boolean) => void;
+  onAddSubtask: (taskId: string, text: string, parentSubtaskId?: string) => Promise<void>;
+  onCompleteSubtask: (taskId: string, subtaskId: string) => Promise<void>;
+  onBulkComplete: (taskIds: string[]) => Promise<void>;
+  onMoveTasks: (taskIds: string[], date: string, timeSlot: TimeSlot | null) => Promise<void>;
+  onArchiveCompleted: () => Promise<void>;
+  /** Plans the day; a dry run only returns the plan for a preview */
+  onPlanDay: (dryRun?: boolean) => Promise<DayPlan | null>;
+  /** Opens the end-of-day review of this day */
+  onReviewDay: () => void;
+  /** Tasks on every day, to show blockers and offer them in the task editor */
+  scheduledTasks: Task[];
+  activeTimer: ActiveTimer | null;
+  onStartTimer: (taskId: string) => Promise<void>;
+  onStopTimer: () => Promise<void>;
+  /** The task of the running Pomodoro session, if any */
+  focusTaskId: string | null;
+  onStartFocus: (taskId: string) => Promise<void>;
+  /** The change log's next undo and redo, from any client */
+  history: HistoryStatus | null;
+  onUndo: () => Promise<void>;
+  onRedo: () => Promise<void>;
+  /** Projects and tags to filter by, and the active filter (applied by the caller) */
+  labels: TaskLabels;
+  filter: TaskFilter;
+  onFilterChange: (filter: TaskFilter) => void;
   loading: boolean;
 }
 
+// "complete_task by dashboard-chat: Call mom"
+const describeEvent = (event: EventSummary): string =>
+  `${event.action}${event.source ? ` by ${event.source}` : ''}: ${event.changes.map(change => change.text).join(', ')}`;
+
 export const DayBoard = ({ 
   date, 
   schedule, 
+  overdue = [], 
   onAddTask, 
   onCompleteTask, 
   onArchiveTask, 
+  onUpdateTask, 
+  onDeleteTask, 
+  onAddSubtask, 
+  onCompleteSubtask, 
+  onBulkComplete, 
+  onMoveTasks, 
+  onArchiveCompleted, 
   onPlanDay, 
+  onReviewDay, 
+  scheduledTasks, 
+  activeTimer, 
+  onStartTimer, 
+  onStopTimer, 
+  focusTaskId, 
+  onStartFocus, 
+  history, 
+  onUndo, 
+  onRedo, 
+  labels, 
+  filter, 
+  onFilterChange, 
   loading 
 }: DayBoardProps) => {
   const [newTaskText, setNewTaskText] = useState('');
   const [selectedTimeSlot, setSelectedTimeSlot] = useState<string>('');
+  const [selectedRecurrence, setSelectedRecurrence] = useState<string>('');
+  const [selectedPriority, setSelectedPriority] = useState<string>('');
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [moveDate, setMoveDate] = useState('');
+  const [moveTimeSlot, setMoveTimeSlot] = useState<string>('');
+  const [view, setView] = useState<'list' | 'timeline'>('list');
+  const [planPreview, setPlanPreview] = useState<DayPlan | null>(null);
+
+  const dateStr = date.toISOString().split('T')[0];
+  const allTasks = [...schedule.morning, ...schedule.afternoon, ...schedule.evening, ...schedule.unscheduled];
+  const completedCount = allTasks.filter(t => t.completed).length;
+  // Drop selections for tasks that have since left this board
+  const selectedTaskIds = allTasks.filter(t => selectedIds.has(t.id)).map(t => t.id);
+
+  const toggleSelect = (taskId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkComplete = async () => {
+    await onBulkComplete(selectedTaskIds);
+    setSelectedIds(new Set());
+  };
+
+  const handleMoveSelected = async () => {
+    await onMoveTasks(selectedTaskIds, moveDate || dateStr, moveTimeSlot ? moveTimeSlot as TimeSlot : null);
+    setSelectedIds(new Set());
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -45,9 +127,16 @@ export const DayBoard = ({
 
     // Always use smart categorization (AI) unless a specific time slot is selected
     // Let the AI handle natural language processing including dates and times
-    await onAddTask(newTaskText, selectedTimeSlot || undefined);
+    await onAddTask(
+      newTaskText,
+      selectedTimeSlot || undefined,
+      selectedRecurrence ? selectedRecurrence as RecurrenceFrequency : undefined,
+      selectedPriority ? Number(selectedPriority) as Priority : undefined
+    );
     setNewTaskText('');
     setSelectedTimeSlot('');
+    setSelectedRecurrence('');
+    setSelectedPriority('');
   };
 
   const formatDate = (date: Date) => {
@@ -65,6 +154,31 @@ export const DayBoard = ({
     });
   };
 
+  const previewPlan = async () => {
+    setPlanPreview(await onPlanDay(true));
+  };
+
+  const applyPlan = async () => {
+    setPlanPreview(null);
+    await onPlanDay();
+  };
+
+  // A preview belongs to the day it was made for
+  const preview = planPreview?.date === dateStr ? planPreview : null;
+
+  const toolbarButtonStyle: React.CSSProperties = {
+    padding: '6px 12px',
+    backgroundColor: 'white',
+    color: '#333',
+    border: '1px solid #ccc',
+    borderRadius: '6px',
+    cursor: loading ? 'not-allowed' : 'pointer',
+    fontSize: '13px',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px'
+  };
+
   return (
     <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
 
@@ -80,7 +194,7 @@ export const DayBoard = ({
               type="text"
               value={newTaskText}
               onChange={(e) => setNewTaskText(e.target.value)}
-              placeholder="Describe your task naturally (AI will handle scheduling)..."
+              placeholder='Describe your task naturally, e.g. "call bank at 3pm #finance @phone"...'
               disabled={loading}
               style={{ 
                 width: '100%', 
@@ -110,6 +224,42 @@ export const DayBoard = ({
               <option value="afternoon">Afternoon</option>
               <option value="evening">Evening</option>
             </select>
+
+            <select
+              value={selectedRecurrence}
+              onChange={(e) => setSelectedRecurrence(e.target.value)}
+              disabled={loading}
+              style={{ 
+                padding: '8px 12px', 
+                borderRadius: '6px', 
+                border: '1px solid #ddd',
+                fontSize: '14px'
+              }}
+            >
+              <option value="">Doesn't repeat</option>
+              <option value="daily">Every day</option>
+              <option value="weekdays">Every weekday</option>
+              <option value="weekly">Every week</option>
+              <option value="monthly">Every month</option>
+            </select>
+
+            <select
+              value={selectedPriority}
+              onChange={(e) => setSelectedPriority(e.target.value)}
+              disabled={loading}
+              style={{ 
+                padding: '8px 12px', 
+                borderRadius: '6px', 
+                border: '1px solid #ddd',
+                fontSize: '14px'
+              }}
+            >
+              <option value="">No priority</option>
+              <option value="1">P1 · Urgent & important</option>
+              <option value="2">P2 · Important</option>
+              <option value="3">P3 · Urgent</option>
+              <option value="4">P4 · Neither</option>
+            </select>
             
             <button 
               type="submit" 
@@ -130,11 +280,11 @@ export const DayBoard = ({
           </div>
         </form>
 
-        {/* Plan Day Button */}
+        {/* Plan Day Buttons */}
         {schedule.unscheduled.length > 0 && (
-          <div style={{ marginTop: '16px' }}>
+          <div style={{ marginTop: '16px', display: 'flex', gap: '10px', alignItems: 'center' }}>
             <button
-              onClick={onPlanDay}
+              onClick={applyPlan}
               disabled={loading}
               style={{
                 padding: '10px 20px',
@@ -154,8 +304,182 @@ export const DayBoard = ({
                 </div>
               )}
             </button>
+            <button
+              onClick={previewPlan}
+              disabled={loading}
+              style={toolbarButtonStyle}
+              title="See where each task would go, and why, without saving"
+            >
+              <Eye size={14} />
+              Preview plan
+            </button>
+          </div>
+        )}
+
+        {/* Plan Preview */}
+        {preview && (
+          <div style={{
+            marginTop: '12px',
+            padding: '12px',
+            backgroundColor: '#f1f8f3',
+            border: '1px solid #c3e6cb',
+            borderRadius: '6px',
+            fontSize: '13px'
+          }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+              <strong>
+                {preview.assignments.length > 0
+                  ? `Plan for ${preview.assignments.length} task${preview.assignments.length !== 1 ? 's' : ''}`
+                  : 'Nothing to plan'}
+              </strong>
+              <button
+                onClick={() => setPlanPreview(null)}
+                style={{ background: 'none', border: 'none', color: '#666', cursor: 'pointer', padding: '2px' }}
+                title="Dismiss preview"
+              >
+                <X size={14} />
+              </button>
+            </div>
+            {preview.assignments.map(assignment => (
+              <div key={assignment.taskId} style={{ marginBottom: '6px' }}>
+                <div>
+                  {assignment.text} → <strong>{assignment.timeSlot}</strong>
+                </div>
+                <div style={{ color: '#666', fontSize: '12px' }}>{assignment.reasons.join('; ')}</div>
+              </div>
+            ))}
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '8px', flexWrap: 'wrap' }}>
+              <span style={{ color: '#666', fontSize: '12px' }}>
+                {Object.entries(preview.load)
+                  .map(([slot, load]) => `${slot} ${load.scheduledMinutes}/${load.capacityMinutes} min`)
+                  .join(' · ')}
+              </span>
+              {preview.assignments.length > 0 && (
+                <button onClick={applyPlan} disabled={loading} style={{ ...toolbarButtonStyle, marginLeft: 'auto' }}>
+                  <Target size={14} />
+                  Apply plan
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* View Toggle, Bulk Actions and Undo/Redo */}
+        {(allTasks.length > 0 || history?.undo || history?.redo) && (
+          <div style={{ marginTop: '16px', display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap' }}>
+            {allTasks.length > 0 && (
+              <>
+                <button
+                  onClick={() => setView('list')}
+                  style={{ ...toolbarButtonStyle, cursor: 'pointer', backgroundColor: view === 'list' ? '#e3f2fd' : 'white' }}
+                  title="Tasks grouped by time slot"
+                >
+                  <List size={14} />
+                  Slots
+                </button>
+                <button
+                  onClick={() => setView('timeline')}
+                  style={{ ...toolbarButtonStyle, cursor: 'pointer', backgroundColor: view === 'timeline' ? '#e3f2fd' : 'white' }}
+                  title="Hour-by-hour timeline"
+                >
+                  <CalendarClock size={14} />
+                  Timeline
+                </button>
+                <button
+                  onClick={() => selectMode ? exitSelectMode() : setSelectMode(true)}
+                  disabled={loading}
+                  style={{ ...toolbarButtonStyle, backgroundColor: selectMode ? '#e3f2fd' : 'white' }}
+                >
+                  <ListChecks size={14} />
+                  {selectMode ? 'Done selecting' : 'Select tasks'}
+                </button>
+                {completedCount > 0 && (
+                  <button onClick={onArchiveCompleted} disabled={loading} style={toolbarButtonStyle}>
+                    <Archive size={14} />
+                    Archive completed ({completedCount})
+                  </button>
+                )}
+                <button onClick={onReviewDay} style={{ ...toolbarButtonStyle, cursor: 'pointer' }} title="Close out the day: what got done, what slipped and why, and a journal entry">
+                  <NotebookPen size={14} />
+                  Review day
+                </button>
+              </>
+            )}
+            <button
+              onClick={onUndo}
+              disabled={loading || !history?.undo}
+              style={{ ...toolbarButtonStyle, marginLeft: 'auto', opacity: history?.undo ? 1 : 0.5 }}
+              title={history?.undo ? `Undo ${describeEvent(history.undo)}` : 'Nothing to undo'}
+            >
+              <Undo2 size={14} />
+              Undo
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={loading || !history?.redo}
+              style={{ ...toolbarButtonStyle, opacity: history?.redo ? 1 : 0.5 }}
+              title={history?.redo ? `Redo ${describeEvent(history.redo)}` : 'Nothing to redo'}
+            >
+              <Redo2 size={14} />
+              Redo
+            </button>
           </div>
         )}
+
+        {selectMode && (
+          <div style={{
+            marginTop: '10px',
+            padding: '10px',
+            backgroundColor: '#e3f2fd',
+            borderRadius: '6px',
+            display: 'flex',
+            gap: '10px',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            fontSize: '13px'
+          }}>
+            <span>{selectedTaskIds.length} selected</span>
+            <button
+              onClick={handleBulkComplete}
+              disabled={loading || selectedTaskIds.length === 0}
+              style={toolbarButtonStyle}
+            >
+              <CheckCheck size={14} />
+              Complete
+            </button>
+            <span style={{ color: '#666' }}>Move to</span>
+            <input
+              type="date"
+              value={moveDate || dateStr}
+              onChange={(e) => setMoveDate(e.target.value)}
+              disabled={loading}
+              style={{ padding: '4px', border: '1px solid #ccc', borderRadius: '4px' }}
+            />
+            <select
+              value={moveTimeSlot}
+              onChange={(e) => setMoveTimeSlot(e.target.value)}
+              disabled={loading}
+              style={{ padding: '5px', border: '1px solid #ccc', borderRadius: '4px' }}
+            >
+              <option value="">Unscheduled</option>
+              <option value="morning">Morning</option>
+              <option value="afternoon">Afternoon</option>
+              <option value="evening">Evening</option>
+            </select>
+            <button
+              onClick={handleMoveSelected}
+              disabled={loading || selectedTaskIds.length === 0}
+              style={toolbarButtonStyle}
+            >
+              <MoveRight size={14} />
+              Move
+            </button>
+          </div>
+        )}
+
+        <div style={{ marginTop: '16px' }}>
+          <TaskFilterBar labels={labels} filter={filter} onFilterChange={onFilterChange} />
+        </div>
       </div>
 
       {/* Task Lists */}
@@ -166,35 +490,108 @@ export const DayBoard = ({
         display: 'grid', 
         gap: '16px' 
       }}>
-        <TaskList 
-          tasks={schedule.morning} 
-          title="Morning" 
-          onCompleteTask={onCompleteTask} 
-          onArchiveTask={onArchiveTask} 
-          loading={loading} 
-        />
-        <TaskList 
-          tasks={schedule.afternoon} 
-          title="Afternoon" 
-          onCompleteTask={onCompleteTask} 
-          onArchiveTask={onArchiveTask} 
-          loading={loading} 
-        />
-        <TaskList 
-          tasks={schedule.evening} 
-          title="Evening" 
-          onCompleteTask={onCompleteTask} 
-          onArchiveTask={onArchiveTask} 
-          loading={loading} 
-        />
-        {schedule.unscheduled.length > 0 && (
-          <TaskList 
-            tasks={schedule.unscheduled} 
-            title="Unscheduled" 
-            onCompleteTask={onCompleteTask} 
-            onArchiveTask={onArchiveTask} 
-            loading={loading} 
-          />
+        {view === 'timeline' ? (
+          <DayTimeline date={date} tasks={allTasks} onCompleteTask={onCompleteTask} loading={loading} />
+        ) : (
+          <>
+            {overdue.length > 0 && (
+              <TaskList 
+                tasks={overdue} 
+                title="Overdue" 
+                onCompleteTask={onCompleteTask} 
+                onArchiveTask={onArchiveTask} 
+                onUpdateTask={onUpdateTask} 
+                onDeleteTask={onDeleteTask} 
+                onAddSubtask={onAddSubtask} 
+                onCompleteSubtask={onCompleteSubtask} 
+                scheduledTasks={scheduledTasks} 
+                activeTimer={activeTimer} 
+                onStartTimer={onStartTimer} 
+                onStopTimer={onStopTimer} 
+                focusTaskId={focusTaskId} 
+                onStartFocus={onStartFocus} 
+                loading={loading} 
+              />
+            )}
+            <TaskList 
+              tasks={schedule.morning} 
+              title="Morning" 
+              onCompleteTask={onCompleteTask} 
+              onArchiveTask={onArchiveTask} 
+              onUpdateTask={onUpdateTask} 
+              onDeleteTask={onDeleteTask} 
+              onAddSubtask={onAddSubtask} 
+              onCompleteSubtask={onCompleteSubtask} 
+              scheduledTasks={scheduledTasks} 
+              activeTimer={activeTimer} 
+              onStartTimer={onStartTimer} 
+              onStopTimer={onStopTimer} 
+              focusTaskId={focusTaskId} 
+              onStartFocus={onStartFocus} 
+              selectedIds={selectedIds} 
+              onToggleSelect={selectMode ? toggleSelect : undefined} 
+              loading={loading} 
+            />
+            <TaskList 
+              tasks={schedule.afternoon} 
+              title="Afternoon" 
+              onCompleteTask={onCompleteTask} 
+              onArchiveTask={onArchiveTask} 
+              onUpdateTask={onUpdateTask} 
+              onDeleteTask={onDeleteTask} 
+              onAddSubtask={onAddSubtask} 
+              onCompleteSubtask={onCompleteSubtask} 
+              scheduledTasks={scheduledTasks} 
+              activeTimer={activeTimer} 
+              onStartTimer={onStartTimer} 
+              onStopTimer={onStopTimer} 
+              focusTaskId={focusTaskId} 
+              onStartFocus={onStartFocus} 
+              selectedIds={selectedIds} 
+              onToggleSelect={selectMode ? toggleSelect : undefined} 
+              loading={loading} 
+            />
+            <TaskList 
+              tasks={schedule.evening} 
+              title="Evening" 
+              onCompleteTask={onCompleteTask} 
+              onArchiveTask={onArchiveTask} 
+              onUpdateTask={onUpdateTask} 
+              onDeleteTask={onDeleteTask} 
+              onAddSubtask={onAddSubtask} 
+              onCompleteSubtask={onCompleteSubtask} 
+              scheduledTasks={scheduledTasks} 
+              activeTimer={activeTimer} 
+              onStartTimer={onStartTimer} 
+              onStopTimer={onStopTimer} 
+              focusTaskId={focusTaskId} 
+              onStartFocus={onStartFocus} 
+              selectedIds={selectedIds} 
+              onToggleSelect={selectMode ? toggleSelect : undefined} 
+              loading={loading} 
+            />
+            {schedule.unscheduled.length > 0 && (
+              <TaskList 
+                tasks={schedule.unscheduled} 
+                title="Unscheduled" 
+                onCompleteTask={onCompleteTask} 
+                onArchiveTask={onArchiveTask} 
+                onUpdateTask={onUpdateTask} 
+                onDeleteTask={onDeleteTask} 
+                onAddSubtask={onAddSubtask} 
+                onCompleteSubtask={onCompleteSubtask} 
+                scheduledTasks={scheduledTasks} 
+                activeTimer={activeTimer} 
+                onStartTimer={onStartTimer} 
+                onStopTimer={onStopTimer} 
+                focusTaskId={focusTaskId} 
+                onStartFocus={onStartFocus} 
+                selectedIds={selectedIds} 
+                onToggleSelect={selectMode ? toggleSelect : undefined} 
+                loading={loading} 
+              />
+            )}
+          </>
         )}
       </div>
     </div>
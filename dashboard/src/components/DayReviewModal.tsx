@@ -0,0 +1,285 @@
+import { useEffect, useState } from 'react';
+import useSWR from 'swr';
+import { CheckCircle2, CircleDashed, MoveRight, NotebookPen, X } from 'lucide-react';
+import type { DayReview, Rating } from 'planner-core';
+import { ENERGY_LABELS, MAX_JOURNAL_NOTE_LENGTH, MOOD_LABELS, RATINGS, formatTaskRef } from 'planner-core/browser';
+
+/**
+ * What the review saves: the save_journal fields, and the tasks to roll to
+ * the next day
+ */
+export interface DayReviewChanges {
+  note: string | null;
+  mood: Rating | null;
+  energy: Rating | null;
+  slipReasons: Record<string, string | null>;
+  rollForwardIds: string[];
+}
+
+interface DayReviewModalProps {
+  // The day under review, or null when closed
+  date: string | null;
+  onSave: (date: string, changes: DayReviewChanges) => Promise<void>;
+  onClose: () => void;
+  loading?: boolean;
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+
+const sectionTitleStyle = { fontSize: '13px', fontWeight: 600, color: '#495057', margin: '16px 0 6px' };
+
+const RatingPicker = ({ label, labels, value, onChange }: {
+  label: string;
+  labels: Record<Rating, string>;
+  value: Rating | null;
+  onChange: (value: Rating | null) => void;
+}) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#495057' }}>
+    <span style={{ width: '56px' }}>{label}</span>
+    {RATINGS.map(rating => (
+      <button
+        key={rating}
+        type="button"
+        // Clicking the chosen rating again clears it
+        onClick={() => onChange(value === rating ? null : rating)}
+        title={`${rating} of 5`}
+        style={{
+          width: '34px',
+          height: '34px',
+          fontSize: '18px',
+          border: value === rating ? '2px solid #1976d2' : '1px solid #dee2e6',
+          borderRadius: '8px',
+          backgroundColor: value === rating ? '#e3f2fd' : 'white',
+          cursor: 'pointer',
+          opacity: value === null || value === rating ? 1 : 0.5
+        }}
+      >
+        {labels[rating]}
+      </button>
+    ))}
+  </div>
+);
+
+/**
+ * The end-of-day review: what got done, what slipped and why, a journal note
+ * and mood/energy ratings, with an offer to roll open tasks to the next day
+ */
+export const DayReviewModal = ({ date, onSave, onClose, loading }: DayReviewModalProps) => {
+  const { data, error } = useSWR<{ contents: [{ text: string }] }>(
+    date ? `/api/mcp/resources/journal:/${date}` : null,
+    fetcher
+  );
+  const review: DayReview | null = data?.contents?.[0]?.text ? JSON.parse(data.contents[0].text) : null;
+
+  const [note, setNote] = useState('');
+  const [mood, setMood] = useState<Rating | null>(null);
+  const [energy, setEnergy] = useState<Rating | null>(null);
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [rollForward, setRollForward] = useState<Set<string>>(new Set());
+  const [loadedDate, setLoadedDate] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Start from the saved entry once per opened day, so polling can't
+  // overwrite what is being typed
+  useEffect(() => {
+    if (!review || review.date === loadedDate) return;
+    setNote(review.entry?.note ?? '');
+    setMood(review.entry?.mood ?? null);
+    setEnergy(review.entry?.energy ?? null);
+    setReasons(Object.fromEntries(review.slipped.map(({ task, reason }) => [task.id, reason ?? ''])));
+    // Recurring tasks come back on their own, so only one-off tasks roll forward
+    setRollForward(new Set(review.slipped.filter(({ task }) => !task.recurrenceId).map(({ task }) => task.id)));
+    setLoadedDate(review.date);
+  }, [review, loadedDate]);
+
+  useEffect(() => {
+    if (!date) {
+      setLoadedDate(null);
+      setSaveError(null);
+      return;
+    }
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [date, onClose]);
+
+  if (!date) return null;
+
+  const toggleRollForward = (taskId: string) => {
+    setRollForward(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
+
+  // On failure the review stays open with everything typed, so saving again retries
+  const handleSave = async () => {
+    if (!review) return;
+    setSaveError(null);
+    try {
+      await onSave(date, {
+        note: note.trim() || null,
+        mood,
+        energy,
+        slipReasons: Object.fromEntries(review.slipped.map(({ task }) => [task.id, reasons[task.id]?.trim() || null])),
+        rollForwardIds: review.slipped.filter(({ task }) => rollForward.has(task.id)).map(({ task }) => task.id)
+      });
+      onClose();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Could not save the review');
+    }
+  };
+
+  const ready = review?.date === date && loadedDate === date;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: '20px'
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'white',
+          borderRadius: '8px',
+          width: '560px',
+          maxWidth: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          padding: '20px 24px',
+          boxShadow: '0 10px 25px rgba(0, 0, 0, 0.3)',
+          position: 'relative'
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          title="Close without saving"
+          style={{ position: 'absolute', top: '14px', right: '14px', background: 'none', border: 'none', color: '#666', cursor: 'pointer' }}
+        >
+          <X size={18} />
+        </button>
+        <h3 style={{ margin: '0 0 4px', display: 'flex', alignItems: 'center', gap: '8px', fontSize: '18px' }}>
+          <NotebookPen size={18} />
+          Review the day
+        </h3>
+        <div style={{ fontSize: '13px', color: '#6c757d' }}>{formatDate(date)}</div>
+
+        {error || (data && !review) ? (
+          <div style={{ color: '#c62828', fontSize: '14px', marginTop: '16px' }}>Could not load the review</div>
+        ) : !ready || !review ? (
+          <div style={{ color: '#666', fontSize: '14px', marginTop: '16px' }}>Loading review...</div>
+        ) : (
+          <>
+            <div style={sectionTitleStyle}>Done ({review.done.length})</div>
+            {review.done.length === 0 ? (
+              <div style={{ fontSize: '13px', color: '#868e96', fontStyle: 'italic' }}>Nothing completed</div>
+            ) : (
+              review.done.map(task => (
+                <div key={task.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#495057', marginBottom: '4px' }}>
+                  <CheckCircle2 size={14} color="#4caf50" />
+                  {task.text}
+                </div>
+              ))
+            )}
+
+            <div style={sectionTitleStyle}>Slipped ({review.slipped.length + review.carriedOver.length})</div>
+            {review.slipped.length === 0 && review.carriedOver.length === 0 && (
+              <div style={{ fontSize: '13px', color: '#868e96', fontStyle: 'italic' }}>Nothing left open</div>
+            )}
+            {review.slipped.map(({ task }) => (
+              <div key={task.id} style={{ padding: '8px', marginBottom: '6px', backgroundColor: '#f8f9fa', border: '1px solid #e9ecef', borderRadius: '6px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#495057' }}>
+                  <CircleDashed size={14} color="#ff9800" />
+                  {task.ref !== undefined && <span style={{ fontSize: '11px', color: '#adb5bd', fontFamily: 'monospace' }}>{formatTaskRef(task)}</span>}
+                  <span style={{ flex: 1 }}>{task.text}</span>
+                  {task.recurrenceId ? (
+                    <span style={{ fontSize: '11px', color: '#adb5bd' }}>repeats</span>
+                  ) : (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', color: '#6c757d' }}>
+                      <input type="checkbox" checked={rollForward.has(task.id)} onChange={() => toggleRollForward(task.id)} />
+                      Roll forward
+                    </label>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={reasons[task.id] ?? ''}
+                  onChange={(e) => setReasons(prev => ({ ...prev, [task.id]: e.target.value }))}
+                  placeholder="Why did it slip? (optional)"
+                  maxLength={200}
+                  style={{ width: '100%', boxSizing: 'border-box', marginTop: '6px', padding: '4px 8px', border: '1px solid #dee2e6', borderRadius: '4px', fontSize: '12px' }}
+                />
+              </div>
+            ))}
+            {review.carriedOver.map(moved => (
+              <div key={moved.taskId} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#868e96', marginBottom: '4px' }}>
+                <MoveRight size={14} />
+                {moved.text}
+                <span style={{ fontSize: '11px' }}>→ {moved.to}{moved.reason ? ` · ${moved.reason}` : ''}</span>
+              </div>
+            ))}
+
+            <div style={sectionTitleStyle}>How did it go?</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              <RatingPicker label="Mood" labels={MOOD_LABELS} value={mood} onChange={setMood} />
+              <RatingPicker label="Energy" labels={ENERGY_LABELS} value={energy} onChange={setEnergy} />
+            </div>
+
+            <div style={sectionTitleStyle}>Journal</div>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What went well, what got in the way, what to try tomorrow..."
+              maxLength={MAX_JOURNAL_NOTE_LENGTH}
+              rows={4}
+              style={{ width: '100%', boxSizing: 'border-box', padding: '8px', border: '1px solid #dee2e6', borderRadius: '6px', fontSize: '13px', fontFamily: 'inherit', resize: 'vertical' }}
+            />
+
+            {saveError && (
+              <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: '#ffebee', border: '1px solid #ffcdd2', borderRadius: '6px', color: '#c62828', fontSize: '13px' }}>
+                {saveError}
+              </div>
+            )}
+            <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '16px' }}>
+              <button
+                onClick={onClose}
+                style={{ padding: '8px 16px', backgroundColor: 'white', color: '#333', border: '1px solid #ccc', borderRadius: '6px', cursor: 'pointer', fontSize: '14px' }}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={loading}
+                style={{ padding: '8px 16px', backgroundColor: '#007bff', color: 'white', border: 'none', borderRadius: '6px', cursor: loading ? 'not-allowed' : 'pointer', fontSize: '14px', fontWeight: '500' }}
+              >
+                {rollForward.size > 0 ? `Save and roll ${rollForward.size} forward` : 'Save review'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
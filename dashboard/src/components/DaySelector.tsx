@@ -116,6 +116,69 @@ export const DaySelector = ({ selectedDate, onDateChange, activeTab, onTabChange
           </button>
         );
       })}
+
+      {/* Insights Tab */}
+      <button
+        onClick={() => handleTabClick('insights')}
+        style={{
+          padding: '8px 16px',
+          border: 'none',
+          borderRadius: '8px',
+          backgroundColor: activeTab === 'insights' ? '#1a1a1a' : 'transparent',
+          color: activeTab === 'insights' ? 'white' : '#6c757d',
+          cursor: 'pointer',
+          fontSize: '14px',
+          fontWeight: activeTab === 'insights' ? '600' : '500',
+          minWidth: '80px',
+          marginLeft: 'auto',
+          transition: 'all 0.2s ease'
+        }}
+        onMouseEnter={(e) => {
+          if (activeTab !== 'insights') {
+            e.currentTarget.style.backgroundColor = '#e9ecef';
+            e.currentTarget.style.color = '#495057';
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (activeTab !== 'insights') {
+            e.currentTarget.style.backgroundColor = 'transparent';
+            e.currentTarget.style.color = '#6c757d';
+          }
+        }}
+      >
+        📊 Insights
+      </button>
+
+      {/* Archive Tab */}
+      <button
+        onClick={() => handleTabClick('archive')}
+        style={{
+          padding: '8px 16px',
+          border: 'none',
+          borderRadius: '8px',
+          backgroundColor: activeTab === 'archive' ? '#1a1a1a' : 'transparent',
+          color: activeTab === 'archive' ? 'white' : '#6c757d',
+          cursor: 'pointer',
+          fontSize: '14px',
+          fontWeight: activeTab === 'archive' ? '600' : '500',
+          minWidth: '80px',
+          transition: 'all 0.2s ease'
+        }}
+        onMouseEnter={(e) => {
+          if (activeTab !== 'archive') {
+            e.currentTarget.style.backgroundColor = '#e9ecef';
+            e.currentTarget.style.color = '#495057';
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (activeTab !== 'archive') {
+            e.currentTarget.style.backgroundColor = 'transparent';
+            e.currentTarget.style.color = '#6c757d';
+          }
+        }}
+      >
+        🗄️ Archive
+      </button>
     </div>
   );
 };
\ No newline at end of file
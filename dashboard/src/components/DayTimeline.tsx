@@ -0,0 +1,179 @@
+import { Clock, ClipboardList } from 'lucide-react';
+import type { Task } from 'planner-core';
+import { formatTaskTime } from './TaskList';
+
+interface DayTimelineProps {
+  date: Date;
+  tasks: Task[];
+  onCompleteTask: (taskId: string) => void;
+  loading: boolean;
+}
+
+const HOUR_HEIGHT = 48;
+// Shown even when no task falls outside them
+const DEFAULT_FIRST_HOUR = 6;
+const DEFAULT_LAST_HOUR = 22;
+// Height of a task that has a start time but no end or duration
+const DEFAULT_BLOCK_MINUTES = 30;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+interface TimelineBlock {
+  task: Task;
+  start: number;
+  end: number;
+  lane: number;
+}
+
+/**
+ * Give overlapping tasks side-by-side lanes, reusing a lane once its last
+ * task has ended
+ */
+const layoutBlocks = (tasks: Task[]): { blocks: TimelineBlock[]; laneCount: number } => {
+  const laneEnds: number[] = [];
+  const blocks = tasks
+    .map(task => {
+      const start = toMinutes(task.startTime!);
+      const end = task.endTime ? toMinutes(task.endTime) : start + (task.durationMinutes || DEFAULT_BLOCK_MINUTES);
+      return { task, start, end, lane: 0 };
+    })
+    .sort((a, b) => a.start - b.start)
+    .map(block => {
+      const lane = laneEnds.findIndex(laneEnd => laneEnd <= block.start);
+      block.lane = lane === -1 ? laneEnds.length : lane;
+      laneEnds[block.lane] = block.end;
+      return block;
+    });
+  return { blocks, laneCount: Math.max(laneEnds.length, 1) };
+};
+
+export const DayTimeline = ({ date, tasks, onCompleteTask, loading }: DayTimelineProps) => {
+  const timedTasks = tasks.filter(task => task.startTime);
+  const untimedTasks = tasks.filter(task => !task.startTime);
+  const { blocks, laneCount } = layoutBlocks(timedTasks);
+
+  const firstHour = Math.min(DEFAULT_FIRST_HOUR, ...blocks.map(b => Math.floor(b.start / 60)));
+  const lastHour = Math.max(DEFAULT_LAST_HOUR, ...blocks.map(b => Math.min(Math.ceil(b.end / 60), 24)));
+  const hours = Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+  const top = (minutes: number) => ((minutes - firstHour * 60) / 60) * HOUR_HEIGHT;
+
+  const now = new Date();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+  const showNow = date.toDateString() === now.toDateString()
+    && nowMinutes >= firstHour * 60 && nowMinutes < lastHour * 60;
+
+  return (
+    <div style={{ display: 'grid', gap: '16px' }}>
+      <div style={{ padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+        <h3 style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: 0 }}>
+          <Clock size={16} />
+          Timeline ({timedTasks.length})
+        </h3>
+        <div style={{ position: 'relative', height: hours.length * HOUR_HEIGHT, marginLeft: '50px' }}>
+          {hours.map(hour => (
+            <div
+              key={hour}
+              style={{
+                position: 'absolute',
+                top: top(hour * 60),
+                left: 0,
+                right: 0,
+                height: HOUR_HEIGHT,
+                borderTop: '1px solid #eee'
+              }}
+            >
+              <span style={{
+                position: 'absolute',
+                left: '-50px',
+                top: '-8px',
+                width: '42px',
+                textAlign: 'right',
+                fontSize: '11px',
+                color: '#999'
+              }}>
+                {String(hour).padStart(2, '0')}:00
+              </span>
+            </div>
+          ))}
+
+          {blocks.map(({ task, start, end, lane }) => (
+            <div
+              key={task.id}
+              onClick={() => !loading && onCompleteTask(task.id)}
+              title={`${formatTaskTime(task)} ${task.text} (click to ${task.completed ? 'reopen' : 'complete'})`}
+              style={{
+                position: 'absolute',
+                top: top(start) + 1,
+                height: Math.max(top(end) - top(start) - 2, 18),
+                left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                width: `calc(${100 / laneCount}% - 4px)`,
+                padding: '2px 6px',
+                boxSizing: 'border-box',
+                overflow: 'hidden',
+                borderRadius: '4px',
+                borderLeft: `3px solid ${task.completed ? '#28a745' : '#007bff'}`,
+                backgroundColor: task.completed ? '#e8f5e8' : '#e3f2fd',
+                cursor: loading ? 'not-allowed' : 'pointer',
+                fontSize: '12px',
+                lineHeight: '14px',
+                opacity: task.completed ? 0.7 : 1
+              }}
+            >
+              <span style={{ color: '#555', marginRight: '6px', fontVariantNumeric: 'tabular-nums' }}>
+                {formatTaskTime(task)}
+              </span>
+              <span style={{ textDecoration: task.completed ? 'line-through' : 'none' }}>{task.text}</span>
+            </div>
+          ))}
+
+          {showNow && (
+            <div style={{
+              position: 'absolute',
+              top: top(nowMinutes),
+              left: 0,
+              right: 0,
+              borderTop: '2px solid #dc3545',
+              pointerEvents: 'none'
+            }} />
+          )}
+        </div>
+      </div>
+
+      {untimedTasks.length > 0 && (
+        <div style={{ padding: '15px', border: '1px solid #ccc', borderRadius: '5px' }}>
+          <h3 style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: 0 }}>
+            <ClipboardList size={16} />
+            No set time ({untimedTasks.length})
+          </h3>
+          <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+            {untimedTasks.map(task => (
+              <li
+                key={task.id}
+                onClick={() => !loading && onCompleteTask(task.id)}
+                style={{
+                  padding: '4px',
+                  cursor: loading ? 'not-allowed' : 'pointer',
+                  opacity: task.completed ? 0.6 : 1,
+                  fontSize: '14px'
+                }}
+              >
+                <span style={{ textDecoration: task.completed ? 'line-through' : 'none' }}>{task.text}</span>
+                <span style={{ marginLeft: '8px', fontSize: '12px', color: '#999', textTransform: 'capitalize' }}>
+                  {task.timeSlot || 'unscheduled'}
+                </span>
+                {task.durationMinutes && (
+                  <span style={{ marginLeft: '6px', fontSize: '12px', color: '#999' }}>
+                    · {task.durationMinutes} min
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
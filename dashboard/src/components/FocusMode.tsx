@@ -0,0 +1,143 @@
+import { useEffect, useRef, useState } from 'react';
+import { Brain, Coffee, SkipForward, X } from 'lucide-react';
+import type { FocusStatus } from 'planner-core';
+import { formatElapsed } from 'planner-core/browser';
+
+export interface FocusSettings {
+  workMinutes: number;
+  breakMinutes: number;
+}
+
+interface FocusModeProps {
+  focus: FocusStatus;
+  settings: FocusSettings;
+  onSettingsChange: (settings: FocusSettings) => void;
+  /** Begins the next work cycle on the task in focus */
+  onNextCycle: () => Promise<void>;
+  onLogPomodoro: (phaseStartedAt: string) => Promise<void>;
+  onStopFocus: () => Promise<void>;
+  loading: boolean;
+}
+
+const numberInputStyle: React.CSSProperties = {
+  width: '48px',
+  padding: '2px 4px',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  fontSize: '12px'
+};
+
+/**
+ * Counts down the current Pomodoro phase. When a work phase runs out the
+ * pomodoro is logged and the break starts; when the break runs out the next
+ * work cycle starts. New lengths apply from the next cycle on.
+ */
+export const FocusMode = ({
+  focus,
+  settings,
+  onSettingsChange,
+  onNextCycle,
+  onLogPomodoro,
+  onStopFocus,
+  loading
+}: FocusModeProps) => {
+  const [now, setNow] = useState(Date.now());
+  // The phase we already moved on from, so a slow round trip doesn't log twice
+  const handledPhase = useRef<string | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = Date.parse(focus.phaseEndsAt) - now;
+  const phaseKey = `${focus.phase}:${focus.phaseStartedAt}`;
+
+  useEffect(() => {
+    if (remaining > 0 || handledPhase.current === phaseKey) {
+      return;
+    }
+    handledPhase.current = phaseKey;
+    if (focus.phase === 'work') {
+      onLogPomodoro(focus.phaseStartedAt);
+    } else {
+      onNextCycle();
+    }
+  }, [remaining, phaseKey, focus.phase, focus.phaseStartedAt, onLogPomodoro, onNextCycle]);
+
+  const working = focus.phase === 'work';
+  const updateSetting = (key: keyof FocusSettings, value: string) => {
+    const minutes = parseInt(value, 10);
+    if (minutes > 0) {
+      onSettingsChange({ ...settings, [key]: minutes });
+    }
+  };
+
+  return (
+    <div style={{
+      margin: '0 20px 12px',
+      padding: '12px 16px',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '16px',
+      flexWrap: 'wrap',
+      borderRadius: '8px',
+      border: `1px solid ${working ? '#f5c6cb' : '#c3e6cb'}`,
+      backgroundColor: working ? '#fdf2f2' : '#f1f8f3'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', color: working ? '#c62828' : '#2e7d32' }}>
+        {working ? <Brain size={20} /> : <Coffee size={20} />}
+        <span style={{ fontSize: '24px', fontWeight: 600, fontVariantNumeric: 'tabular-nums' }}>
+          {formatElapsed(remaining)}
+        </span>
+      </div>
+      <div style={{ flex: 1, minWidth: '160px' }}>
+        <div style={{ fontWeight: 500 }}>{working ? 'Focusing on' : 'Break from'} {focus.text}</div>
+        <div style={{ fontSize: '12px', color: '#666' }}>
+          {focus.pomodoros} pomodoro{focus.pomodoros !== 1 ? 's' : ''} this session · {focus.taskPomodoros} on this task
+        </div>
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '12px', color: '#666' }}>
+        Work
+        <input
+          type="number"
+          min={1}
+          max={120}
+          value={settings.workMinutes}
+          onChange={(e) => updateSetting('workMinutes', e.target.value)}
+          style={numberInputStyle}
+        />
+        Break
+        <input
+          type="number"
+          min={1}
+          max={60}
+          value={settings.breakMinutes}
+          onChange={(e) => updateSetting('breakMinutes', e.target.value)}
+          style={numberInputStyle}
+        />
+        min
+      </label>
+      {!working && (
+        <button
+          onClick={onNextCycle}
+          disabled={loading}
+          title="Skip the rest of the break"
+          style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 10px', border: '1px solid #ccc', borderRadius: '4px', backgroundColor: 'white', cursor: loading ? 'not-allowed' : 'pointer', fontSize: '12px' }}
+        >
+          <SkipForward size={12} />
+          Next cycle
+        </button>
+      )}
+      <button
+        onClick={onStopFocus}
+        disabled={loading}
+        title="End the focus session"
+        style={{ display: 'flex', alignItems: 'center', gap: '4px', padding: '4px 10px', border: '1px solid #ccc', borderRadius: '4px', backgroundColor: 'white', cursor: loading ? 'not-allowed' : 'pointer', fontSize: '12px' }}
+      >
+        <X size={12} />
+        Stop
+      </button>
+    </div>
+  );
+};
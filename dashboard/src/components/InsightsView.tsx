@@ -0,0 +1,197 @@
+import useSWR from 'swr';
+import { BarChart3, CalendarCheck, Flame, Repeat, Trophy } from 'lucide-react';
+import type { Analytics, DayStats } from 'planner-core';
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+// Days shown in the daily chart; the heatmap shows the whole year
+const RECENT_DAYS = 14;
+const RECENT_WEEKS = 12;
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+const SLOT_LABELS: Record<string, string> = {
+  morning: '🌅 Morning',
+  afternoon: '☀️ Afternoon',
+  evening: '🌙 Evening',
+  unscheduled: '📋 Unscheduled'
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// GitHub-style shades by tasks completed that day
+const heatColor = (day: DayStats) => {
+  if (day.completed === 0) return day.planned > 0 ? '#fde2e1' : '#ebedf0';
+  if (day.completed === 1) return '#c6e48b';
+  if (day.completed <= 3) return '#7bc96f';
+  if (day.completed <= 5) return '#239a3b';
+  return '#196127';
+};
+
+const cardStyle = {
+  flex: '1 1 120px',
+  padding: '12px',
+  backgroundColor: '#f8f9fa',
+  border: '1px solid #e9ecef',
+  borderRadius: '8px'
+};
+
+const sectionTitleStyle = { fontSize: '14px', fontWeight: 600, color: '#495057', margin: '20px 0 8px' };
+
+const StatCard = ({ icon, label, value, detail }: { icon: React.ReactNode; label: string; value: string; detail?: string }) => (
+  <div style={cardStyle}>
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#6c757d' }}>
+      {icon}
+      {label}
+    </div>
+    <div style={{ fontSize: '22px', fontWeight: 600, color: '#212529', marginTop: '4px' }}>{value}</div>
+    {detail && <div style={{ fontSize: '11px', color: '#868e96' }}>{detail}</div>}
+  </div>
+);
+
+// A horizontal bar filled to `rate`
+const RateBar = ({ label, rate, detail }: { label: string; rate: number | null; detail: string }) => (
+  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', marginBottom: '6px' }}>
+    <span style={{ width: '110px', color: '#495057' }}>{label}</span>
+    <div style={{ flex: 1, height: '12px', backgroundColor: '#e9ecef', borderRadius: '6px', overflow: 'hidden' }}>
+      <div style={{ width: `${(rate ?? 0) * 100}%`, height: '100%', backgroundColor: '#4caf50' }} />
+    </div>
+    <span style={{ width: '120px', color: '#6c757d' }}>{formatRate(rate)} · {detail}</span>
+  </div>
+);
+
+/**
+ * Completion statistics from the `analytics` resource: rates per day, week
+ * and slot, streaks, carry-over and a year-long heatmap
+ */
+export const InsightsView = () => {
+  const { data, error } = useSWR<{ contents: [{ text: string }] }>(
+    '/api/mcp/resources/analytics',
+    fetcher,
+    { refreshInterval: 2000 }
+  );
+  const analytics: Analytics | null = data?.contents?.[0]?.text ? JSON.parse(data.contents[0].text) : null;
+
+  if (error || (data && !analytics)) {
+    return <div style={{ color: '#c62828', fontSize: '14px', padding: '4px' }}>Could not load insights</div>;
+  }
+  if (!analytics) {
+    return <div style={{ color: '#666', fontSize: '14px', padding: '4px' }}>Loading insights...</div>;
+  }
+
+  const recentDays = analytics.days.slice(-RECENT_DAYS);
+  const recentWeeks = analytics.weeks.slice(-RECENT_WEEKS);
+  const maxPlanned = Math.max(1, ...recentDays.map(day => day.planned));
+  // The heatmap's columns are weeks starting on Monday; pad the first one
+  const firstWeekday = (new Date(`${analytics.from}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const cells: (DayStats | null)[] = [...Array(firstWeekday).fill(null), ...analytics.days];
+  const columns = Math.ceil(cells.length / 7);
+
+  return (
+    <div style={{ height: '100%', overflowY: 'auto', padding: '4px' }}>
+      <h3 style={{ margin: '0 0 12px', display: 'flex', alignItems: 'center', gap: '8px', fontSize: '18px' }}>
+        <BarChart3 size={18} />
+        Insights
+        <span style={{ fontSize: '13px', fontWeight: 'normal', color: '#6c757d' }}>
+          {formatShortDate(analytics.from)} – {formatShortDate(analytics.to)}
+        </span>
+      </h3>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <StatCard
+          icon={<CalendarCheck size={12} />}
+          label="Completion rate"
+          value={formatRate(analytics.totals.rate)}
+          detail={`${analytics.totals.completed} of ${analytics.totals.planned} tasks`}
+        />
+        <StatCard
+          icon={<Flame size={12} />}
+          label="Current streak"
+          value={`${analytics.streaks.current} day${analytics.streaks.current !== 1 ? 's' : ''}`}
+          detail="with a task done"
+        />
+        <StatCard
+          icon={<Trophy size={12} />}
+          label="Longest streak"
+          value={`${analytics.streaks.longest} day${analytics.streaks.longest !== 1 ? 's' : ''}`}
+          detail={analytics.streaks.longestEnd ? `ended ${formatShortDate(analytics.streaks.longestEnd)}` : undefined}
+        />
+        <StatCard
+          icon={<BarChart3 size={12} />}
+          label="Per active day"
+          value={`${analytics.averagePerDay.completed} / ${analytics.averagePerDay.planned}`}
+          detail={`done / planned over ${analytics.averagePerDay.activeDays} days`}
+        />
+        <StatCard
+          icon={<Repeat size={12} />}
+          label="Carried over"
+          value={String(analytics.totals.carriedOver)}
+          detail="tasks rolled to a later day"
+        />
+      </div>
+
+      <div style={sectionTitleStyle}>Last {RECENT_DAYS} days</div>
+      <div style={{ display: 'flex', alignItems: 'flex-end', gap: '4px', height: '120px', borderBottom: '1px solid #dee2e6' }}>
+        {recentDays.map(day => (
+          <div
+            key={day.date}
+            title={`${formatShortDate(day.date)}: ${day.completed} of ${day.planned} done${day.carriedOver ? `, ${day.carriedOver} carried over` : ''}`}
+            style={{ flex: 1, display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', height: '100%' }}
+          >
+            <div style={{ height: `${((day.planned - day.completed) / maxPlanned) * 100}%`, backgroundColor: '#dee2e6', borderRadius: '3px 3px 0 0' }} />
+            <div style={{ height: `${(day.completed / maxPlanned) * 100}%`, backgroundColor: '#4caf50' }} />
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '4px', fontSize: '10px', color: '#868e96', marginTop: '4px' }}>
+        {recentDays.map((day, index) => (
+          <span key={day.date} style={{ flex: 1, textAlign: 'center' }}>
+            {index % 2 === 0 ? formatShortDate(day.date) : ''}
+          </span>
+        ))}
+      </div>
+
+      <div style={sectionTitleStyle}>Weekly completion</div>
+      {recentWeeks.map(week => (
+        <RateBar
+          key={week.weekStart}
+          label={`Week of ${formatShortDate(week.weekStart)}`}
+          rate={week.rate}
+          detail={`${week.completed}/${week.planned}`}
+        />
+      ))}
+
+      <div style={sectionTitleStyle}>By time slot</div>
+      {analytics.slots.map(slot => (
+        <RateBar key={slot.slot} label={SLOT_LABELS[slot.slot]} rate={slot.rate} detail={`${slot.completed}/${slot.planned}`} />
+      ))}
+
+      <div style={sectionTitleStyle}>Year at a glance</div>
+      <div style={{ display: 'flex', gap: '3px', overflowX: 'auto', paddingBottom: '4px' }}>
+        <div style={{ display: 'grid', gridTemplateRows: 'repeat(7, 10px)', gap: '3px', fontSize: '9px', color: '#868e96', marginRight: '4px' }}>
+          {WEEKDAY_LABELS.map((label, index) => <span key={index} style={{ lineHeight: '10px' }}>{label}</span>)}
+        </div>
+        <div style={{ display: 'grid', gridTemplateRows: 'repeat(7, 10px)', gridTemplateColumns: `repeat(${columns}, 10px)`, gridAutoFlow: 'column', gap: '3px' }}>
+          {cells.map((day, index) => day ? (
+            <div
+              key={day.date}
+              title={`${formatShortDate(day.date)}: ${day.completed} of ${day.planned} done`}
+              style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: heatColor(day) }}
+            />
+          ) : (
+            <div key={`pad-${index}`} />
+          ))}
+        </div>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '10px', color: '#868e96', marginTop: '6px' }}>
+        Less
+        {['#ebedf0', '#c6e48b', '#7bc96f', '#239a3b', '#196127'].map(color => (
+          <span key={color} style={{ width: '10px', height: '10px', borderRadius: '2px', backgroundColor: color }} />
+        ))}
+        More
+        <span style={{ marginLeft: '8px', width: '10px', height: '10px', borderRadius: '2px', backgroundColor: '#fde2e1' }} />
+        Planned, none done
+      </div>
+    </div>
+  );
+};
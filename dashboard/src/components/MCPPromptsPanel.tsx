@@ -1,21 +1,8 @@
 import { useState } from 'react';
 import { Brain, Target, Lightbulb, Calendar, Clock, Send } from 'lucide-react';
 import { parseTaskCommand, getTabForDate } from '../utils/commandProcessor';
-
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  archived?: boolean;
-  timeSlot?: 'morning' | 'afternoon' | 'evening';
-}
-
-interface Schedule {
-  morning: Task[];
-  afternoon: Task[];
-  evening: Task[];
-  unscheduled: Task[];
-}
+import type { Schedule, Task } from 'planner-core';
+import { subtaskProgress, formatTaskRef } from 'planner-core/browser';
 
 interface ChatMessage {
   id: string;
@@ -29,6 +16,8 @@ interface MCPPromptsPanelProps {
   currentAction: string;
   setCurrentAction: (action: string) => void;
   schedule: Schedule;
+  /** The day shown on the board (YYYY-MM-DD), for commands that name no date */
+  selectedDate: string;
   onScheduleUpdate?: () => void;
   onNavigateToDay?: (date: Date, tabId: string) => void;
 }
@@ -50,21 +39,39 @@ const callPrompt = async (promptName: string, args: any = {}) => {
   return response.json();
 };
 
+// "complete #42" or "delete #42" names exactly one task, so it skips intent analysis
+const REF_COMMAND_PATTERN = /^(complete|finish|done|delete|remove)\s+(?:task\s+)?(#\d+)[.!]?$/i;
+
+const parseRefCommand = (message: string): { intent: string; params: any } | null => {
+  const match = REF_COMMAND_PATTERN.exec(message.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    intent: /^(delete|remove)$/i.test(match[1]) ? 'delete_task' : 'complete_task',
+    params: { taskId: match[2] }
+  };
+};
+
+// "#42 " before a task's text, when it has a handle yet
+const refPrefix = (task: Task) => (task.ref !== undefined ? `${formatTaskRef(task)} ` : '');
+
 const callTool = async (toolName: string, args: any = {}) => {
   const response = await fetch(`/api/mcp/tools/${toolName}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', 'X-Planner-Source': 'dashboard-chat' },
     body: JSON.stringify(args),
   });
   
   if (!response.ok) {
-    throw new Error(`Tool call failed: ${response.statusText}`);
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.details || `Tool call failed: ${response.statusText}`);
   }
   
   return response.json();
 };
 
-export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onScheduleUpdate, onNavigateToDay }: MCPPromptsPanelProps) => {
+export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, selectedDate, onScheduleUpdate, onNavigateToDay }: MCPPromptsPanelProps) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: '1',
@@ -196,22 +203,33 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
             taskDate = new Date().toISOString().split('T')[0];
           }
           
-          if (command.timeSlot) {
-            // Use add_task with specific time slot
+          if (command.timeSlot || command.startTime || command.durationMinutes) {
+            // Use add_task with the parsed time slot and times (a start time picks the slot)
             setCurrentAction('Calling tool: add_task');
-            await callTool('add_task', {
+            const result = await callTool('add_task', {
               text: command.taskText,
               date: taskDate,
-              timeSlot: command.timeSlot
+              timeSlot: command.timeSlot,
+              startTime: command.startTime,
+              endTime: command.endTime,
+              durationMinutes: command.durationMinutes,
+              priority: command.priority,
+              project: command.project,
+              tags: command.tags,
+              dueDate: command.dueDate
             });
             if (onScheduleUpdate) onScheduleUpdate();
-            return `✅ Added "${command.taskText}" to ${command.timeSlot}${navigationMessage}`;
+            return `✅ ${result.content[0].text}${command.timeSlot && !command.startTime ? ` to ${command.timeSlot}` : ''}${navigationMessage}`;
           } else {
             // Use smart categorization
             setCurrentAction('Calling tool: smart_add_task');
             const result = await callTool('smart_add_task', {
               text: command.taskText,
-              date: taskDate
+              date: taskDate,
+              priority: command.priority,
+              project: command.project,
+              tags: command.tags,
+              dueDate: command.dueDate
             });
             if (onScheduleUpdate) onScheduleUpdate();
             return `✅ ${result.content[0].text}${navigationMessage}`;
@@ -223,7 +241,7 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
     }
 
     // If no day-specific command detected, use LLM to analyze user intent
-    const intentResult = await analyzeUserIntent(userMessage);
+    const intentResult = parseRefCommand(userMessage) || await analyzeUserIntent(userMessage);
     
     if (!intentResult) {
       return null; // Let it fall through to normal conversation
@@ -236,7 +254,7 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
       case 'add_task':
         try {
           setCurrentAction('Calling tool: smart_add_task');
-          const result = await callTool('smart_add_task', { text: params.taskText });
+          const result = await callTool('smart_add_task', { text: params.taskText, priority: params.priority });
           if (onScheduleUpdate) onScheduleUpdate();
           return `✅ ${result.content[0].text}`;
         } catch (error) {
@@ -296,40 +314,78 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
         }
 
       case 'archive_completed':
-        const allTasks = [...schedule.morning, ...schedule.afternoon, ...schedule.evening, ...schedule.unscheduled];
-        const completedTasks = allTasks.filter(t => t.completed && !t.archived);
-        
-        if (completedTasks.length === 0) {
-          return '📋 No completed tasks to archive. All your completed tasks are already archived or you have no completed tasks.';
-        }
-
         try {
-          setCurrentAction('Archiving all completed tasks...');
-          let archivedCount = 0;
-          let errors: string[] = [];
+          // One transactional call instead of an archive_task round trip per task;
+          // like the board's button it sweeps the day on display unless another is named
+          setCurrentAction('Calling tool: archive_completed');
+          const result = await callTool('archive_completed', { date: params.date || selectedDate });
+          if (onScheduleUpdate) onScheduleUpdate();
 
-          for (const task of completedTasks) {
-            try {
-              await callTool('archive_task', { taskId: task.id });
-              archivedCount++;
-            } catch (error) {
-              errors.push(`Failed to archive "${task.text}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
+          const archived = result.structuredContent?.results?.length ?? 0;
+          if (archived === 0) {
+            return `📋 No completed tasks to archive on ${params.date || selectedDate}.`;
           }
+          return `✅ ${result.content[0].text}`;
+        } catch (error) {
+          return `❌ Failed to archive completed tasks: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
 
+      case 'undo':
+      case 'redo':
+        try {
+          setCurrentAction(`Calling tool: ${intent}`);
+          const result = await callTool(intent);
           if (onScheduleUpdate) onScheduleUpdate();
+          return `↩️ ${result.content[0].text}`;
+        } catch (error) {
+          return `❌ Failed to ${intent}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
 
-          let result = `✅ Successfully archived ${archivedCount} completed task${archivedCount !== 1 ? 's' : ''}!`;
-          
-          if (errors.length > 0) {
-            result += `\n\n⚠️ Some tasks could not be archived:\n${errors.join('\n')}`;
+      case 'search_tasks':
+        if (!params.query) {
+          return '❓ What should I look for? Try "find dentist".';
+        }
+        try {
+          setCurrentAction('Calling tool: search_tasks');
+          const result = await callTool('search_tasks', { query: params.query });
+          return `🔎 ${result.content[0].text}`;
+        } catch (error) {
+          return `❌ Failed to search tasks: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        }
+
+      case 'delete_task': {
+        const pendingTasks = [...schedule.morning, ...schedule.afternoon, ...schedule.evening, ...schedule.unscheduled]
+          .filter(t => !t.completed);
+        let taskToDelete: Task | null = null;
+
+        if (params.taskName) {
+          const matchResult = findTaskByName(params.taskName);
+          if (matchResult.confidence === 'ambiguous') {
+            return `🤔 Several tasks match "${params.taskName}":\n${matchResult.matches!.map(t => `• ${t.text}`).join('\n')}\n\nPlease be more specific.`;
+          }
+          // Only delete on a confident match; a wrong guess costs an undo
+          if (matchResult.confidence === 'exact' || matchResult.confidence === 'high') {
+            taskToDelete = matchResult.task;
           }
+        } else if (params.taskNumber) {
+          taskToDelete = pendingTasks[parseInt(params.taskNumber) - 1] || null;
+        }
 
-          return result;
+        // A task ID or #handle needs no lookup
+        const taskId = params.taskId || taskToDelete?.id;
+        if (!taskId) {
+          return `❓ I couldn't find that task. Say "list tasks" to see what you have.`;
+        }
 
+        try {
+          setCurrentAction('Calling tool: delete_task');
+          const result = await callTool('delete_task', { taskId });
+          if (onScheduleUpdate) onScheduleUpdate();
+          return `🗑️ ${result.content[0].text}`;
         } catch (error) {
-          return `❌ Failed to archive completed tasks: ${error instanceof Error ? error.message : 'Unknown error'}`;
+          return `❌ Failed to delete task: ${error instanceof Error ? error.message : 'Unknown error'}`;
         }
+      }
 
       case 'list_tasks':
         const allTasksList = [...schedule.morning, ...schedule.afternoon, ...schedule.evening, ...schedule.unscheduled];
@@ -345,8 +401,13 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
         if (incompleteTasks.length > 0) {
           response += '**🔄 Pending Tasks:**\n';
           incompleteTasks.forEach((task, index) => {
-            const timeSlot = task.timeSlot ? ` (${task.timeSlot})` : ' (unscheduled)';
-            response += `${index + 1}. ${task.text}${timeSlot}\n`;
+            const timeSlot = task.startTime ? ` (${task.startTime})` : task.timeSlot ? ` (${task.timeSlot})` : ' (unscheduled)';
+            const priority = task.priority ? ` [P${task.priority}]` : '';
+            const labels = `${task.project ? ` #${task.project}` : ''}${(task.tags || []).map(tag => ` @${tag}`).join('')}`;
+            const { completed, total } = subtaskProgress(task);
+            const steps = total > 0 ? ` — ${completed}/${total} steps` : '';
+            const due = task.dueDate ? ` (due ${task.dueDate})` : '';
+            response += `${index + 1}. ${refPrefix(task)}${task.text}${priority}${labels}${timeSlot}${due}${steps}\n`;
           });
           response += '\n';
         }
@@ -354,13 +415,13 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
         if (completedTasksList.length > 0) {
           response += '**✅ Completed Tasks:**\n';
           completedTasksList.forEach(task => {
-            const timeSlot = task.timeSlot ? ` (${task.timeSlot})` : ' (unscheduled)';
-            response += `• ${task.text}${timeSlot}\n`;
+            const timeSlot = task.startTime ? ` (${task.startTime})` : task.timeSlot ? ` (${task.timeSlot})` : ' (unscheduled)';
+            response += `• ${refPrefix(task)}${task.text}${timeSlot}\n`;
           });
           response += '\n';
         }
 
-        response += '💡 **Tips:** \n• Say "complete [task name]" to mark a task as done\n• Say "complete task 1" to complete by number\n• Say "help" for more commands';
+        response += '💡 **Tips:** \n• Say "complete [task name]" to mark a task as done\n• Say "complete #42" to complete a task by its handle\n• Say "help" for more commands';
         return response;
 
       case 'help':
@@ -368,13 +429,21 @@ export const MCPPromptsPanel = ({ currentAction, setCurrentAction, schedule, onS
 
 **Task Management:**
 • "Add task: [description]" - Create a new task with smart categorization
+• "Add task for tomorrow: dentist at 3pm for 45 minutes" - Times and durations are kept
+• "Add task: renew passport p1" - Set a priority with p1-p4 or "high priority"
+• "Add task: buy milk #home @errands" - File a task under a #project and @tags
+• "Add task: file taxes due friday" - Set a due date with "due" or "by" plus a day
 • "Complete [task name]" - Mark a task as completed
+• "Complete #42" / "Delete #42" - Act on exactly the task with that handle
 • "Plan my day" - Organize unscheduled tasks into time slots
-• "Archive all completed tasks" - Archive all finished tasks
+• "Archive all completed tasks" - Archive the finished tasks of the day on display (or a day you name)
+• "Delete [task name]" - Remove a task
+• "Undo" / "Redo" - Revert the last change, from any client, or bring it back
 
 **Information:**
 • "List tasks" or "Show my tasks" - See all current tasks
 • "What tasks do I have?" - View pending and completed tasks
+• "Find [words]" - Search every day's tasks, archived ones too
 
 **Examples:**
 • "Add task: morning coffee" or just "Add morning coffee"
@@ -441,7 +510,7 @@ I understand natural language - just speak naturally! I can also provide product
 
         const taskContext = allTasks.length > 0 ? 
           `\n\nCurrent user's tasks:\n${allTasks.map(task => 
-            `- ${task.text} (${task.timeSlot || 'unscheduled'}) ${task.completed ? '[COMPLETED]' : '[PENDING]'}`
+            `- ${refPrefix(task)}${task.text} (${task.timeSlot || 'unscheduled'}) ${task.completed ? '[COMPLETED]' : '[PENDING]'}`
           ).join('\n')}` : 
           '\n\nThe user has no tasks currently planned.';
 
@@ -1,9 +1,11 @@
 import { useState } from 'react';
 import useSWR from 'swr';
 import { Monitor, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import type { MCPClientTransport } from '../pages/api/mcp/[...action]';
 
 interface ServerStatus {
   connected: boolean;
+  transport: MCPClientTransport | null;
   capabilities: {
     tools: any[];
     resources: any[];
@@ -65,6 +67,12 @@ export const MCPServerStatusPanel = ({ simulatedError }: MCPServerStatusPanelPro
               }}
             />
             <span>{connectionText}</span>
+            {statusData?.transport && (
+              <>
+                <span>•</span>
+                <span>{statusData.transport}</span>
+              </>
+            )}
             <span>•</span>
             <span>{statusData?.messageCount || 0} messages</span>
             <span>•</span>
@@ -87,6 +95,9 @@ export const MCPServerStatusPanel = ({ simulatedError }: MCPServerStatusPanelPro
               />
               <strong>Planner Server: {connectionText}</strong>
             </div>
+            <div style={{ fontSize: '14px', color: '#666' }}>
+              Transport: {statusData?.transport || 'unknown'}
+            </div>
             <div style={{ fontSize: '14px', color: '#666' }}>
               Messages exchanged: {statusData?.messageCount || 0}
             </div>
@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import useSWR from 'swr';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import type { ArchivedFilter, SearchHit, SearchStatus, Task } from 'planner-core';
+import { highlightMatches, searchTerms, formatTaskRef } from 'planner-core/browser';
+
+interface SearchBoxProps {
+  onSelectTask: (task: Task) => void;
+}
+
+interface SearchFilters {
+  from: string;
+  to: string;
+  status: SearchStatus;
+  timeSlot: string;
+  archived: ArchivedFilter;
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+const DEFAULT_FILTERS: SearchFilters = { from: '', to: '', status: 'any', timeSlot: '', archived: 'include' };
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+
+// search://{query}?status=open..., encoded once more as a single API path segment
+const searchPath = (query: string, filters: SearchFilters): string => {
+  const params = new URLSearchParams();
+  (Object.keys(filters) as (keyof SearchFilters)[]).forEach(key => {
+    if (filters[key] && filters[key] !== DEFAULT_FILTERS[key]) {
+      params.set(key, filters[key]);
+    }
+  });
+  const uriPart = `${encodeURIComponent(query)}${params.toString() ? `?${params}` : ''}`;
+  return `/api/mcp/resources/search:/${encodeURIComponent(uriPart)}`;
+};
+
+const Highlighted = ({ text, terms }: { text: string; terms: string[] }) => (
+  <>
+    {highlightMatches(text, terms).map((part, index) => part.match
+      ? <mark key={index} style={{ backgroundColor: '#fff3bf', padding: 0 }}>{part.text}</mark>
+      : <span key={index}>{part.text}</span>
+    )}
+  </>
+);
+
+/**
+ * Search every day's tasks, archived ones included; picking a result jumps
+ * to its day
+ */
+export const SearchBox = ({ onSelectTask }: SearchBoxProps) => {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data, error } = useSWR<{ contents: [{ text: string }] }>(
+    query ? searchPath(query, filters) : null,
+    fetcher
+  );
+  const hits: SearchHit[] | null = data?.contents?.[0]?.text ? JSON.parse(data.contents[0].text) : null;
+  const terms = searchTerms(query);
+
+  const setFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  const clear = () => {
+    setInput('');
+    setQuery('');
+  };
+
+  const selectStyle = { padding: '4px 6px', border: '1px solid #dee2e6', borderRadius: '6px', fontSize: '12px', backgroundColor: 'white' };
+
+  return (
+    <div style={{ position: 'relative', marginBottom: '12px' }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '6px 10px',
+        border: '1px solid #dee2e6',
+        borderRadius: '8px',
+        backgroundColor: 'white'
+      }}>
+        <Search size={16} color="#868e96" />
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && clear()}
+          placeholder='Search all tasks, e.g. dentist or "call mom"'
+          style={{ flex: 1, border: 'none', outline: 'none', fontSize: '14px' }}
+        />
+        {input && (
+          <button onClick={clear} title="Clear search" style={{ background: 'none', border: 'none', cursor: 'pointer', color: '#868e96', display: 'flex' }}>
+            <X size={14} />
+          </button>
+        )}
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          title="Search filters"
+          style={{ background: 'none', border: 'none', cursor: 'pointer', color: showFilters ? '#1976d2' : '#868e96', display: 'flex' }}
+        >
+          <SlidersHorizontal size={14} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center', marginTop: '6px', fontSize: '12px', color: '#495057' }}>
+          <input type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} title="From" style={selectStyle} />
+          –
+          <input type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} title="To" style={selectStyle} />
+          <select value={filters.status} onChange={(e) => setFilter('status', e.target.value as SearchStatus)} style={selectStyle}>
+            <option value="any">Open and completed</option>
+            <option value="open">Open</option>
+            <option value="completed">Completed</option>
+          </select>
+          <select value={filters.timeSlot} onChange={(e) => setFilter('timeSlot', e.target.value)} style={selectStyle}>
+            <option value="">Any slot</option>
+            <option value="morning">Morning</option>
+            <option value="afternoon">Afternoon</option>
+            <option value="evening">Evening</option>
+            <option value="unscheduled">Unscheduled</option>
+          </select>
+          <select value={filters.archived} onChange={(e) => setFilter('archived', e.target.value as ArchivedFilter)} style={selectStyle}>
+            <option value="include">With archived</option>
+            <option value="exclude">Without archived</option>
+            <option value="only">Archived only</option>
+          </select>
+        </div>
+      )}
+
+      {query && (
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          left: 0,
+          right: 0,
+          zIndex: 20,
+          marginTop: '4px',
+          maxHeight: '360px',
+          overflowY: 'auto',
+          backgroundColor: 'white',
+          border: '1px solid #dee2e6',
+          borderRadius: '8px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
+        }}>
+          {error || (data && !hits) ? (
+            <div style={{ padding: '10px 12px', fontSize: '13px', color: '#c62828' }}>Could not search tasks</div>
+          ) : !hits ? (
+            <div style={{ padding: '10px 12px', fontSize: '13px', color: '#666' }}>Searching...</div>
+          ) : hits.length === 0 ? (
+            <div style={{ padding: '10px 12px', fontSize: '13px', color: '#666' }}>No tasks match "{query}"</div>
+          ) : hits.map(({ task }) => (
+            <button
+              key={task.id}
+              onClick={() => {
+                onSelectTask(task);
+                clear();
+              }}
+              style={{
+                display: 'block',
+                width: '100%',
+                textAlign: 'left',
+                padding: '8px 12px',
+                border: 'none',
+                borderBottom: '1px solid #f1f3f5',
+                backgroundColor: 'white',
+                cursor: 'pointer'
+              }}
+              onMouseEnter={(e) => { e.currentTarget.style.backgroundColor = '#f8f9fa'; }}
+              onMouseLeave={(e) => { e.currentTarget.style.backgroundColor = 'white'; }}
+            >
+              <div style={{ fontSize: '14px', color: task.completed ? '#868e96' : '#212529', textDecoration: task.completed ? 'line-through' : 'none' }}>
+                {task.ref !== undefined && <span style={{ fontSize: '11px', color: '#adb5bd', fontFamily: 'monospace', marginRight: '6px' }}>{formatTaskRef(task)}</span>}
+                <Highlighted text={task.text} terms={terms} />
+              </div>
+              <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', fontSize: '11px', color: '#868e96', marginTop: '2px' }}>
+                <span>{new Date(`${task.date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                <span>{task.timeSlot || 'unscheduled'}</span>
+                {task.project && <span>#<Highlighted text={task.project} terms={terms} /></span>}
+                {(task.tags || []).map(tag => <span key={tag}>@<Highlighted text={tag} terms={terms} /></span>)}
+                {task.archived && <span style={{ color: '#6c757d', fontWeight: 600 }}>archived</span>}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
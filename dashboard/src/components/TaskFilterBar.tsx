@@ -0,0 +1,100 @@
+import { Filter, FolderOpen, Tag, X } from 'lucide-react';
+import type { TaskFilter, TaskLabels } from 'planner-core';
+
+interface TaskFilterBarProps {
+  labels: TaskLabels;
+  filter: TaskFilter;
+  onFilterChange: (filter: TaskFilter) => void;
+}
+
+export const TaskFilterBar = ({ labels, filter, onFilterChange }: TaskFilterBarProps) => {
+  const activeTags = filter.tags || [];
+  const isActive = !!filter.project || activeTags.length > 0;
+
+  if (labels.projects.length === 0 && labels.tags.length === 0 && !isActive) {
+    return null;
+  }
+
+  const toggleTag = (tag: string) => {
+    const tags = activeTags.includes(tag) ? activeTags.filter(t => t !== tag) : [...activeTags, tag];
+    onFilterChange({ ...filter, tags });
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      flexWrap: 'wrap',
+      padding: '8px 12px',
+      backgroundColor: isActive ? '#fff8e1' : '#f8f9fa',
+      border: '1px solid #e9ecef',
+      borderRadius: '6px',
+      fontSize: '13px'
+    }}>
+      <Filter size={14} style={{ color: '#666' }} />
+
+      {labels.projects.length > 0 && (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#666' }}>
+          <FolderOpen size={13} />
+          <select
+            value={filter.project || ''}
+            onChange={(e) => onFilterChange({ ...filter, project: e.target.value || undefined })}
+            style={{ padding: '3px 6px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '13px' }}
+          >
+            <option value="">All projects</option>
+            {labels.projects.map(project => (
+              <option key={project} value={project}>{project}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {labels.tags.map(tag => {
+        const selected = activeTags.includes(tag);
+        return (
+          <button
+            key={tag}
+            onClick={() => toggleTag(tag)}
+            title={selected ? `Stop filtering by @${tag}` : `Only tasks tagged @${tag}`}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '3px',
+              padding: '2px 8px',
+              borderRadius: '10px',
+              border: `1px solid ${selected ? '#007bff' : '#ccc'}`,
+              backgroundColor: selected ? '#007bff' : 'white',
+              color: selected ? 'white' : '#555',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            <Tag size={10} />
+            {tag}
+          </button>
+        );
+      })}
+
+      {isActive && (
+        <button
+          onClick={() => onFilterChange({})}
+          style={{
+            marginLeft: 'auto',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            background: 'none',
+            border: 'none',
+            color: '#666',
+            cursor: 'pointer',
+            fontSize: '12px'
+          }}
+        >
+          <X size={12} />
+          Clear filter
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import useSWR from 'swr';
+import { ArrowRight, Undo2 } from 'lucide-react';
+import type { TaskHistoryEntry } from 'planner-core';
+
+interface TaskHistoryProps {
+  taskId: string;
+}
+
+const fetcher = (url: string) => fetch(url).then(res => res.json());
+
+const KIND_LABELS: Record<TaskHistoryEntry['kind'], string> = {
+  created: 'Created',
+  changed: 'Changed',
+  deleted: 'Deleted'
+};
+
+// Field values as they read in the log: text as is, anything else as JSON
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+/**
+ * Every change to one task, newest first: when, by which tool and client,
+ * and each changed field's old and new value
+ */
+export const TaskHistory = ({ taskId }: TaskHistoryProps) => {
+  const { data, error } = useSWR<{ contents: [{ text: string }] }>(
+    `/api/mcp/resources/history:/${encodeURIComponent(taskId)}`,
+    fetcher,
+    { refreshInterval: 2000 }
+  );
+  const entries: TaskHistoryEntry[] | null = data?.contents?.[0]?.text
+    ? JSON.parse(data.contents[0].text)
+    : null;
+
+  if (error || (data && !entries)) {
+    return <li style={{ margin: '-4px 0 10px 30px', fontSize: '12px', color: '#c62828' }}>Could not load the history</li>;
+  }
+  if (!entries) {
+    return <li style={{ margin: '-4px 0 10px 30px', fontSize: '12px', color: '#666' }}>Loading history...</li>;
+  }
+
+  return (
+    <li style={{ margin: '-4px 0 10px 30px', fontSize: '12px', color: '#444' }}>
+      {entries.length === 0 && <div style={{ color: '#666' }}>No recorded changes yet</div>}
+      {entries.map(entry => (
+        <div
+          key={entry.id}
+          style={{
+            padding: '4px 0',
+            borderBottom: '1px solid #f1f3f5',
+            opacity: entry.undone ? 0.5 : 1
+          }}
+        >
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', color: '#666' }}>
+            {entry.target !== undefined && <Undo2 size={10} />}
+            <span>{new Date(entry.at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</span>
+            <span style={{ fontFamily: 'monospace' }}>{entry.action}</span>
+            {entry.target !== undefined && <span>of #{entry.target}</span>}
+            {entry.source && <span>by {entry.source}</span>}
+            {entry.automatic && <span title="Made by a daily job; undo skips it">(automatic)</span>}
+            {entry.undone && <span>(undone)</span>}
+          </div>
+          {entry.kind === 'changed' ? entry.fields.map(field => (
+            <div key={field} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginLeft: '16px' }}>
+              <strong>{field}</strong>
+              <span style={{ textDecoration: 'line-through', color: '#999' }}>{formatValue(entry.before?.[field])}</span>
+              <ArrowRight size={10} />
+              <span>{formatValue(entry.after?.[field])}</span>
+            </div>
+          )) : (
+            <div style={{ marginLeft: '16px' }}>{KIND_LABELS[entry.kind]}</div>
+          )}
+        </div>
+      ))}
+    </li>
+  );
+};
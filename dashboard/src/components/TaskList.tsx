@@ -1,28 +1,808 @@
-import { Sunrise, Sun, Moon, ClipboardList, Archive } from 'lucide-react';
-
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  timeSlot?: 'morning' | 'afternoon' | 'evening';
-  date?: string; // Date in YYYY-MM-DD format
-}
+import { Fragment, useEffect, useState } from 'react';
+import { Sunrise, Sun, Moon, ClipboardList, Archive, Pencil, Check, X, Trash2, Repeat, CalendarX, Clock, FolderOpen, Tag, ListChecks, Plus, Lock, Flag, AlertTriangle, History, Play, Square, Timer, Crosshair, ScrollText } from 'lucide-react';
+import type { ActiveTimer, Priority, Subtask, Task, TaskPatch } from 'planner-core';
+import { PRIORITIES, PRIORITY_LABELS, comparePriority, parseTagsArg, subtaskProgress, indexTasks, openBlockers, isOverdue, formatElapsed, formatTrackedMinutes, trackedMinutes, pomodoroCount, formatTaskRef } from 'planner-core/browser';
+import { TaskHistory } from './TaskHistory';
 
 interface TaskListProps {
   tasks: Task[];
   title: string;
-  onCompleteTask: (taskId: string) => void;
+  onCompleteTask: (taskId: string, cascade?: boolean) => void;
   onArchiveTask?: (taskId: string) => void;
+  onUpdateTask?: (taskId: string, patch: TaskPatch) => Promise<void>;
+  onDeleteTask?: (taskId: string, series?: boolean) => void;
+  onAddSubtask?: (taskId: string, text: string, parentSubtaskId?: string) => Promise<void>;
+  onCompleteSubtask?: (taskId: string, subtaskId: string) => Promise<void>;
+  /** Tasks on every day, for looking up blockers (defaults to `tasks`) */
+  scheduledTasks?: Task[];
+  /** The running timer, shown live on its task's row */
+  activeTimer?: ActiveTimer | null;
+  onStartTimer?: (taskId: string) => Promise<void>;
+  onStopTimer?: () => Promise<void>;
+  /** The task of the running Pomodoro session, if any */
+  focusTaskId?: string | null;
+  onStartFocus?: (taskId: string) => Promise<void>;
+  /** Present while the board is in selection mode for bulk actions */
+  selectedIds?: Set<string>;
+  onToggleSelect?: (taskId: string) => void;
   loading: boolean;
 }
 
-export const TaskList = ({ tasks, title, onCompleteTask, onArchiveTask, loading }: TaskListProps) => {
+type TaskSort = 'default' | 'priority' | 'time' | 'name';
+
+interface TaskGroup {
+  key: string;
+  label?: string;
+  tasks: Task[];
+}
+
+// Where the "add step" input is open: a task's top level or under one of its subtasks
+interface SubtaskDraft {
+  taskId: string;
+  parentSubtaskId?: string;
+  text: string;
+}
+
+interface TaskDraft {
+  text: string;
+  timeSlot: string;
+  priority: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  durationMinutes: string;
+  project: string;
+  tags: string;
+  blockedBy: string[];
+  dueDate: string;
+}
+
+// "09:00–10:30", "09:00" or "45 min"
+export const formatTaskTime = (task: Task): string | null => {
+  if (task.startTime) {
+    return task.endTime ? `${task.startTime}–${task.endTime}` : task.startTime;
+  }
+  return task.durationMinutes ? `${task.durationMinutes} min` : null;
+};
+
+// "2/5" steps done, or null for a task without subtasks
+const formatProgress = (task: Task): string | null => {
+  const { completed, total } = subtaskProgress(task);
+  return total > 0 ? `${completed}/${total}` : null;
+};
+
+// "Oct 17"; dates are UTC days like everywhere else in the planner
+const formatDay = (date: string): string =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+// Names of the open tasks an open task waits for, or null when it is actionable
+const formatBlockers = (task: Task, tasksById: Map<string, Task>): string | null => {
+  const blockers = task.completed ? [] : openBlockers(task, tasksById);
+  return blockers.length > 0 ? blockers.map(blocker => blocker.text).join(', ') : null;
+};
+
+// Time since the timer started, ticking every second
+const LiveTimer = ({ startedAt }: { startedAt: string }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return <>{formatElapsed(now - Date.parse(startedAt))}</>;
+};
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  1: '#d32f2f',
+  2: '#f57c00',
+  3: '#1976d2',
+  4: '#757575',
+};
+
+const sortTasks = (tasks: Task[], sort: TaskSort): Task[] => {
+  const sorted = [...tasks];
+  if (sort === 'priority') sorted.sort(comparePriority);
+  if (sort === 'time') sorted.sort((a, b) => (a.startTime || '99:99').localeCompare(b.startTime || '99:99'));
+  if (sort === 'name') sorted.sort((a, b) => a.text.localeCompare(b.text));
+  return sorted;
+};
+
+// P1 to P4, then tasks without a priority
+const groupByPriority = (tasks: Task[]): TaskGroup[] =>
+  [...PRIORITIES, undefined]
+    .map(priority => ({
+      key: `p${priority ?? 'none'}`,
+      label: priority ? `P${priority} · ${PRIORITY_LABELS[priority]}` : 'No priority',
+      tasks: tasks.filter(task => task.priority === priority),
+    }))
+    .filter(group => group.tasks.length > 0);
+
+const labelChipStyle: React.CSSProperties = {
+  marginLeft: '6px',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '2px',
+  padding: '0 6px',
+  borderRadius: '10px',
+  fontSize: '11px',
+  color: '#555',
+  backgroundColor: '#f1f3f5',
+};
+
+const smallButtonStyle = (loading: boolean): React.CSSProperties => ({
+  background: 'none',
+  border: '1px solid #ccc',
+  borderRadius: '4px',
+  padding: '4px 8px',
+  cursor: loading ? 'not-allowed' : 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  fontSize: '12px',
+  color: '#666',
+  marginLeft: '8px',
+});
+
+export const TaskList = ({
+  tasks,
+  title,
+  onCompleteTask,
+  onArchiveTask,
+  onUpdateTask,
+  onDeleteTask,
+  onAddSubtask,
+  onCompleteSubtask,
+  scheduledTasks,
+  activeTimer,
+  onStartTimer,
+  onStopTimer,
+  focusTaskId,
+  onStartFocus,
+  selectedIds,
+  onToggleSelect,
+  loading
+}: TaskListProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TaskDraft>({
+    text: '',
+    timeSlot: '',
+    priority: '',
+    date: '',
+    startTime: '',
+    endTime: '',
+    durationMinutes: '',
+    project: '',
+    tags: '',
+    blockedBy: [],
+    dueDate: ''
+  });
+  const [editError, setEditError] = useState<string | null>(null);
+  const [sort, setSort] = useState<TaskSort>('default');
+  const [groupByPriorityEnabled, setGroupByPriorityEnabled] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [subtaskDraft, setSubtaskDraft] = useState<SubtaskDraft | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const tasksById = indexTasks(scheduledTasks || tasks);
+  const today = new Date().toISOString().split('T')[0];
+  const sortedTasks = sortTasks(tasks, sort);
+  const groups: TaskGroup[] = groupByPriorityEnabled
+    ? groupByPriority(sortedTasks)
+    : [{ key: 'all', tasks: sortedTasks }];
+
+  const toggleExpanded = (taskId: string) => {
+    const next = new Set(expandedIds);
+    if (next.has(taskId)) {
+      next.delete(taskId);
+    } else {
+      next.add(taskId);
+    }
+    setExpandedIds(next);
+  };
+
+  // Completing a task with open steps asks whether they should be checked off too
+  const completeTask = (task: Task) => {
+    const { completed, total } = subtaskProgress(task);
+    const cascade = !task.completed && completed < total
+      && window.confirm(`Also check off the ${total - completed} open step${total - completed !== 1 ? 's' : ''} of "${task.text}"?`);
+    onCompleteTask(task.id, cascade || undefined);
+  };
+
+  const saveSubtask = async () => {
+    if (!onAddSubtask || !subtaskDraft?.text.trim()) return;
+    await onAddSubtask(subtaskDraft.taskId, subtaskDraft.text.trim(), subtaskDraft.parentSubtaskId);
+    // Keep the input open for the next step
+    setSubtaskDraft({ ...subtaskDraft, text: '' });
+  };
+
+  const startEditing = (task: Task) => {
+    setEditingId(task.id);
+    setDraft({
+      text: task.text,
+      timeSlot: task.timeSlot || '',
+      priority: task.priority ? String(task.priority) : '',
+      date: task.date,
+      startTime: task.startTime || '',
+      endTime: task.endTime || '',
+      durationMinutes: task.durationMinutes ? String(task.durationMinutes) : '',
+      project: task.project || '',
+      tags: (task.tags || []).join(', '),
+      blockedBy: task.blockedBy || [],
+      dueDate: task.dueDate || ''
+    });
+    setEditError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditError(null);
+  };
+
+  // Send only the fields that actually changed
+  const saveEditing = async (task: Task) => {
+    if (!onUpdateTask) return;
+
+    const patch: TaskPatch = {};
+    if (draft.text.trim() !== task.text) patch.text = draft.text.trim();
+    if (draft.timeSlot !== (task.timeSlot || '')) {
+      patch.timeSlot = draft.timeSlot ? draft.timeSlot as TaskPatch['timeSlot'] : null;
+    }
+    if (draft.priority !== (task.priority ? String(task.priority) : '')) {
+      patch.priority = draft.priority ? Number(draft.priority) as Priority : null;
+    }
+    if (draft.date !== task.date) patch.date = draft.date;
+    if (draft.dueDate !== (task.dueDate || '')) patch.dueDate = draft.dueDate || null;
+    // Blank times clear them; the server fills in whichever of end and duration follows
+    if (draft.startTime !== (task.startTime || '')) patch.startTime = draft.startTime || null;
+    if (draft.endTime !== (task.endTime || '')) patch.endTime = draft.endTime || null;
+    if (draft.durationMinutes !== (task.durationMinutes ? String(task.durationMinutes) : '')) {
+      patch.durationMinutes = draft.durationMinutes ? Number(draft.durationMinutes) : null;
+    }
+    if (draft.project.trim() !== (task.project || '')) patch.project = draft.project.trim() || null;
+
+    let tags: string[];
+    try {
+      tags = parseTagsArg(draft.tags);
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : 'Invalid tags');
+      return;
+    }
+    if (tags.join(',') !== (task.tags || []).join(',')) patch.tags = tags.length > 0 ? tags : null;
+    if (draft.blockedBy.join(',') !== (task.blockedBy || []).join(',')) {
+      patch.blockedBy = draft.blockedBy.length > 0 ? draft.blockedBy : null;
+    }
+
+    if (Object.keys(patch).length === 0) {
+      cancelEditing();
+      return;
+    }
+
+    try {
+      await onUpdateTask(task.id, patch);
+      cancelEditing();
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : 'Failed to update task');
+    }
+  };
+
+  const renderEditor = (task: Task) => (
+    <li key={task.id} style={{ marginBottom: '8px' }}>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveEditing(task);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') cancelEditing();
+        }}
+        style={{ display: 'flex', alignItems: 'center', gap: '6px', flexWrap: 'wrap' }}
+      >
+        <input
+          type="text"
+          value={draft.text}
+          onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+          autoFocus
+          disabled={loading}
+          style={{ flex: 1, minWidth: '150px', padding: '4px 8px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        <select
+          value={draft.timeSlot}
+          onChange={(e) => setDraft({ ...draft, timeSlot: e.target.value })}
+          disabled={loading}
+          style={{ padding: '4px', border: '1px solid #ccc', borderRadius: '4px' }}
+        >
+          <option value="">Unscheduled</option>
+          <option value="morning">Morning</option>
+          <option value="afternoon">Afternoon</option>
+          <option value="evening">Evening</option>
+        </select>
+        <select
+          value={draft.priority}
+          onChange={(e) => setDraft({ ...draft, priority: e.target.value })}
+          disabled={loading}
+          title="Priority"
+          style={{ padding: '4px', border: '1px solid #ccc', borderRadius: '4px' }}
+        >
+          <option value="">No priority</option>
+          {PRIORITIES.map(priority => (
+            <option key={priority} value={priority}>P{priority} · {PRIORITY_LABELS[priority]}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={draft.date}
+          onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+          disabled={loading}
+          style={{ padding: '3px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        <label style={{ display: 'flex', alignItems: 'center', gap: '3px', fontSize: '12px', color: '#666' }}>
+          Due
+          <input
+            type="date"
+            value={draft.dueDate}
+            onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })}
+            disabled={loading}
+            title="Due date (blank for none)"
+            style={{ padding: '3px', border: '1px solid #ccc', borderRadius: '4px' }}
+          />
+        </label>
+        <input
+          type="time"
+          value={draft.startTime}
+          onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+          disabled={loading}
+          title="Start time"
+          style={{ padding: '3px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        <span style={{ color: '#999' }}>–</span>
+        <input
+          type="time"
+          value={draft.endTime}
+          onChange={(e) => setDraft({ ...draft, endTime: e.target.value })}
+          disabled={loading}
+          title="End time"
+          style={{ padding: '3px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        <input
+          type="number"
+          min={1}
+          max={1440}
+          value={draft.durationMinutes}
+          onChange={(e) => setDraft({ ...draft, durationMinutes: e.target.value })}
+          disabled={loading}
+          placeholder="min"
+          title="Duration in minutes"
+          style={{ width: '60px', padding: '3px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        <input
+          type="text"
+          value={draft.project}
+          onChange={(e) => setDraft({ ...draft, project: e.target.value })}
+          disabled={loading}
+          placeholder="Project"
+          title="Project"
+          style={{ width: '90px', padding: '4px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        <input
+          type="text"
+          value={draft.tags}
+          onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+          disabled={loading}
+          placeholder="tags, comma separated"
+          title="Tags"
+          style={{ width: '140px', padding: '4px', border: '1px solid #ccc', borderRadius: '4px' }}
+        />
+        {draft.blockedBy.map(id => (
+          <span key={id} style={labelChipStyle}>
+            <Lock size={10} />
+            {tasksById.get(id)?.text ?? id}
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, blockedBy: draft.blockedBy.filter(other => other !== id) })}
+              title="Remove blocker"
+              style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', display: 'flex', color: '#999' }}
+            >
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <select
+          value=""
+          onChange={(e) => e.target.value && setDraft({ ...draft, blockedBy: [...draft.blockedBy, e.target.value] })}
+          disabled={loading}
+          title="Tasks that have to be done first"
+          style={{ maxWidth: '160px', padding: '4px', border: '1px solid #ccc', borderRadius: '4px' }}
+        >
+          <option value="">Blocked by...</option>
+          {Array.from(tasksById.values())
+            .filter(other => other.id !== task.id && !other.completed && !draft.blockedBy.includes(other.id))
+            .map(other => (
+              <option key={other.id} value={other.id}>{other.text} ({other.date})</option>
+            ))}
+        </select>
+        <button type="submit" disabled={loading || !draft.text.trim()} style={smallButtonStyle(loading)} title="Save changes">
+          <Check size={12} />
+          Save
+        </button>
+        <button type="button" onClick={cancelEditing} style={smallButtonStyle(false)} title="Cancel editing">
+          <X size={12} />
+          Cancel
+        </button>
+      </form>
+      {editError && (
+        <div style={{ color: '#c62828', fontSize: '12px', marginTop: '4px' }}>{editError}</div>
+      )}
+    </li>
+  );
+
+  const renderSubtaskInput = (taskId: string, parentSubtaskId?: string) => (
+    <li>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveSubtask();
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setSubtaskDraft(null);
+        }}
+        style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '4px' }}
+      >
+        <input
+          type="text"
+          value={subtaskDraft?.text || ''}
+          onChange={(e) => setSubtaskDraft({ taskId, parentSubtaskId, text: e.target.value })}
+          autoFocus
+          disabled={loading}
+          placeholder={parentSubtaskId ? 'Add a nested step...' : 'Add a step...'}
+          style={{ flex: 1, padding: '3px 6px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '13px' }}
+        />
+        <button type="submit" disabled={loading || !subtaskDraft?.text.trim()} style={smallButtonStyle(loading)}>
+          <Plus size={12} />
+          Add
+        </button>
+      </form>
+    </li>
+  );
+
+  const renderSubtasks = (task: Task, subtasks: Subtask[], parentSubtaskId?: string) => (
+    <ul style={{ listStyle: 'none', paddingLeft: parentSubtaskId ? '20px' : 0, margin: 0 }}>
+      {subtasks.map(subtask => (
+        <li key={subtask.id} style={{ fontSize: '13px', marginTop: '4px' }}>
+          <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input
+              type="checkbox"
+              checked={subtask.completed}
+              onChange={() => onCompleteSubtask?.(task.id, subtask.id)}
+              disabled={loading || !onCompleteSubtask}
+            />
+            <span style={{
+              textDecoration: subtask.completed ? 'line-through' : 'none',
+              color: subtask.completed ? '#999' : 'inherit'
+            }}>
+              {subtask.text}
+            </span>
+            {onAddSubtask && (
+              <button
+                onClick={() => setSubtaskDraft({ taskId: task.id, parentSubtaskId: subtask.id, text: '' })}
+                disabled={loading}
+                title="Add a nested step"
+                style={{ background: 'none', border: 'none', padding: 0, color: '#999', cursor: 'pointer', display: 'flex' }}
+              >
+                <Plus size={12} />
+              </button>
+            )}
+          </span>
+          {(subtask.subtasks?.length || subtaskDraft?.parentSubtaskId === subtask.id) && (
+            renderSubtasks(task, subtask.subtasks || [], subtask.id)
+          )}
+        </li>
+      ))}
+      {subtaskDraft?.taskId === task.id && subtaskDraft.parentSubtaskId === parentSubtaskId
+        && renderSubtaskInput(task.id, parentSubtaskId)}
+    </ul>
+  );
+
+  const renderChecklist = (task: Task) => (
+    <li style={{ margin: '-4px 0 10px 30px' }}>
+      {renderSubtasks(task, task.subtasks || [])}
+      {onAddSubtask && subtaskDraft?.taskId !== task.id && (
+        <button
+          onClick={() => setSubtaskDraft({ taskId: task.id, text: '' })}
+          disabled={loading}
+          style={{ ...smallButtonStyle(loading), marginLeft: 0, marginTop: '4px', border: 'none', padding: '2px 0' }}
+        >
+          <Plus size={12} />
+          Add step
+        </button>
+      )}
+    </li>
+  );
+
+  const renderTask = (task: Task) => editingId === task.id ? renderEditor(task) : (
+    <Fragment key={task.id}>
+      {renderRow(task)}
+      {expandedIds.has(task.id) && renderChecklist(task)}
+      {historyId === task.id && <TaskHistory taskId={task.id} />}
+    </Fragment>
+  );
+
+  const renderRow = (task: Task) => (
+    <li data-task-id={task.id} style={{ 
+      marginBottom: '8px', 
+      display: 'flex', 
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      opacity: task.completed ? 0.6 : 1
+    }}>
+      {onToggleSelect && (
+        <input
+          type="checkbox"
+          checked={selectedIds?.has(task.id) ?? false}
+          onChange={() => onToggleSelect(task.id)}
+          disabled={loading}
+          title="Select for bulk actions"
+          style={{ marginRight: '8px', accentColor: '#007bff' }}
+        />
+      )}
+      <div 
+        style={{ 
+          display: 'flex', 
+          alignItems: 'center', 
+          flex: 1,
+          cursor: loading ? 'not-allowed' : 'pointer',
+          padding: '4px',
+          borderRadius: '4px',
+          transition: 'background-color 0.2s'
+        }}
+        onClick={() => !loading && completeTask(task)}
+        onMouseEnter={(e) => {
+          if (!loading) {
+            e.currentTarget.style.backgroundColor = '#f5f5f5';
+          }
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = 'transparent';
+        }}
+      >
+        <input
+          type="checkbox"
+          checked={task.completed}
+          readOnly
+          disabled={loading}
+          style={{ marginRight: '10px', pointerEvents: 'none' }}
+        />
+        {task.priority && (
+          <span
+            title={PRIORITY_LABELS[task.priority]}
+            style={{
+              marginRight: '8px',
+              padding: '0 5px',
+              borderRadius: '3px',
+              fontSize: '11px',
+              fontWeight: 600,
+              color: 'white',
+              backgroundColor: PRIORITY_COLORS[task.priority]
+            }}
+          >
+            P{task.priority}
+          </span>
+        )}
+        {formatTaskTime(task) && (
+          <span style={{
+            marginRight: '8px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '3px',
+            fontSize: '12px',
+            color: '#555',
+            fontVariantNumeric: 'tabular-nums'
+          }}>
+            <Clock size={11} />
+            {formatTaskTime(task)}
+          </span>
+        )}
+        {task.ref !== undefined && (
+          <span
+            title="Refer to this task as #handle in the chat or any MCP tool"
+            style={{ marginRight: '6px', fontSize: '12px', color: '#999', fontVariantNumeric: 'tabular-nums' }}
+          >
+            {formatTaskRef(task)}
+          </span>
+        )}
+        <span style={{ textDecoration: task.completed ? 'line-through' : 'none' }}>{task.text}</span>
+        {task.recurrenceId && (
+          <span title="Recurring task" style={{ marginLeft: '6px', color: '#007bff', display: 'flex' }}>
+            <Repeat size={12} />
+          </span>
+        )}
+        {task.dueDate && (
+          <span
+            title={`Due ${task.dueDate}`}
+            style={isOverdue(task, today)
+              ? { ...labelChipStyle, color: '#c62828', backgroundColor: '#fdecea', fontWeight: 600 }
+              : labelChipStyle}
+          >
+            <Flag size={10} />
+            {isOverdue(task, today) ? 'Overdue · due' : 'Due'} {formatDay(task.dueDate)}
+          </span>
+        )}
+        {!task.dueDate && isOverdue(task, today) && (
+          <span title={`Planned for ${task.date}`} style={{ ...labelChipStyle, color: '#c62828', backgroundColor: '#fdecea' }}>
+            <Flag size={10} />
+            Left over from {formatDay(task.date)}
+          </span>
+        )}
+        {task.rolledOverFrom && !task.completed && (
+          <span title={`Rolled over from ${task.rolledOverFrom}`} style={labelChipStyle}>
+            <History size={10} />
+            from {formatDay(task.rolledOverFrom)}
+          </span>
+        )}
+        {formatBlockers(task, tasksById) && (
+          <span title="Complete these tasks first" style={{ ...labelChipStyle, color: '#b26a00', backgroundColor: '#fff4e5' }}>
+            <Lock size={10} />
+            Blocked by {formatBlockers(task, tasksById)}
+          </span>
+        )}
+        {task.project && (
+          <span title="Project" style={labelChipStyle}>
+            <FolderOpen size={10} />
+            {task.project}
+          </span>
+        )}
+        {task.tags?.map(tag => (
+          <span key={tag} title="Tag" style={labelChipStyle}>
+            <Tag size={10} />
+            {tag}
+          </span>
+        ))}
+        {task.timeEntries?.length ? (
+          <span
+            title={task.durationMinutes ? 'Tracked time / estimate' : 'Tracked time'}
+            style={task.durationMinutes && trackedMinutes(task) > task.durationMinutes
+              ? { ...labelChipStyle, color: '#b26a00', backgroundColor: '#fff4e5' }
+              : labelChipStyle}
+          >
+            <Timer size={10} />
+            {formatTrackedMinutes(trackedMinutes(task))}
+            {task.durationMinutes ? ` / ${task.durationMinutes}m` : ''}
+          </span>
+        ) : null}
+        {pomodoroCount(task) > 0 && (
+          <span title="Pomodoros completed on this task" style={labelChipStyle}>
+            <Crosshair size={10} />
+            {pomodoroCount(task)} pomodoro{pomodoroCount(task) !== 1 ? 's' : ''}
+          </span>
+        )}
+      </div>
+      {!task.completed && onStartFocus && (
+        <button
+          onClick={() => onStartFocus(task.id)}
+          disabled={loading || focusTaskId === task.id}
+          style={{
+            ...smallButtonStyle(loading),
+            backgroundColor: focusTaskId === task.id ? '#fdf2f2' : 'transparent'
+          }}
+          title={focusTaskId === task.id ? 'In focus' : 'Focus on this task (Pomodoro)'}
+        >
+          <Crosshair size={12} />
+        </button>
+      )}
+      {activeTimer?.taskId === task.id && onStopTimer ? (
+        <button
+          onClick={onStopTimer}
+          disabled={loading}
+          style={{ ...smallButtonStyle(loading), color: '#c62828', borderColor: '#c62828', fontVariantNumeric: 'tabular-nums' }}
+          title="Stop timer"
+        >
+          <Square size={12} />
+          <LiveTimer startedAt={activeTimer.startedAt} />
+        </button>
+      ) : !task.completed && onStartTimer && (
+        <button
+          onClick={() => onStartTimer(task.id)}
+          disabled={loading}
+          style={smallButtonStyle(loading)}
+          title={activeTimer ? 'Start timer (stops the running one)' : 'Start timer'}
+        >
+          <Play size={12} />
+        </button>
+      )}
+      {(task.subtasks?.length || onAddSubtask) && (
+        <button
+          onClick={() => toggleExpanded(task.id)}
+          disabled={loading}
+          style={{
+            ...smallButtonStyle(loading),
+            backgroundColor: expandedIds.has(task.id) ? '#f1f3f5' : 'transparent',
+            fontVariantNumeric: 'tabular-nums'
+          }}
+          title={expandedIds.has(task.id) ? 'Hide steps' : 'Show steps'}
+        >
+          <ListChecks size={12} />
+          {formatProgress(task)}
+        </button>
+      )}
+      <button
+        onClick={() => setHistoryId(historyId === task.id ? null : task.id)}
+        style={{
+          ...smallButtonStyle(false),
+          backgroundColor: historyId === task.id ? '#f1f3f5' : 'transparent'
+        }}
+        title={historyId === task.id ? 'Hide history' : 'Show history'}
+      >
+        <ScrollText size={12} />
+      </button>
+      {onUpdateTask && (
+        <button
+          onClick={() => startEditing(task)}
+          disabled={loading}
+          style={smallButtonStyle(loading)}
+          title="Edit task"
+        >
+          <Pencil size={12} />
+          Edit
+        </button>
+      )}
+      {task.completed && onArchiveTask && (
+        <button
+          onClick={() => onArchiveTask(task.id)}
+          disabled={loading}
+          style={{ ...smallButtonStyle(loading), textDecoration: 'none' }}
+          onMouseEnter={(e) => {
+            if (!loading) {
+              e.currentTarget.style.backgroundColor = '#f5f5f5';
+            }
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'transparent';
+          }}
+          title="Archive completed task"
+        >
+          <Archive size={12} />
+          Archive
+        </button>
+      )}
+      {onDeleteTask && task.recurrenceId && (
+        <button
+          onClick={() => {
+            if (window.confirm(`Stop repeating "${task.text}" from this day on? Earlier occurrences are kept.`)) {
+              onDeleteTask(task.id, true);
+            }
+          }}
+          disabled={loading}
+          style={smallButtonStyle(loading)}
+          title="Stop repeating from this day"
+        >
+          <CalendarX size={12} />
+        </button>
+      )}
+      {onDeleteTask && (
+        <button
+          onClick={() => {
+            const message = task.recurrenceId
+              ? `Delete this occurrence of "${task.text}"? Other days are not affected.`
+              : `Delete "${task.text}"?`;
+            if (window.confirm(message)) {
+              onDeleteTask(task.id);
+            }
+          }}
+          disabled={loading}
+          style={{ ...smallButtonStyle(loading), color: '#c62828' }}
+          title="Delete task"
+        >
+          <Trash2 size={12} />
+        </button>
+      )}
+    </li>
+  );
+
   const getIcon = () => {
     switch (title.toLowerCase()) {
       case 'morning': return <Sunrise size={16} />;
       case 'afternoon': return <Sun size={16} />;
       case 'evening': return <Moon size={16} />;
       case 'unscheduled': return <ClipboardList size={16} />;
+      case 'overdue': return <AlertTriangle size={16} style={{ color: '#c62828' }} />;
       default: return null;
     }
   };
@@ -32,81 +812,50 @@ export const TaskList = ({ tasks, title, onCompleteTask, onArchiveTask, loading
       <h3 style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
         {getIcon()}
         {title} ({tasks.length})
+        {tasks.length > 1 && (
+          <span style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', fontWeight: 'normal' }}>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as TaskSort)}
+              title="Sort tasks"
+              style={{ padding: '2px', border: '1px solid #ccc', borderRadius: '4px', fontSize: '12px' }}
+            >
+              <option value="default">Sort: default</option>
+              <option value="priority">Sort: priority</option>
+              <option value="time">Sort: time</option>
+              <option value="name">Sort: A–Z</option>
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '4px', color: '#666' }}>
+              <input
+                type="checkbox"
+                checked={groupByPriorityEnabled}
+                onChange={(e) => setGroupByPriorityEnabled(e.target.checked)}
+              />
+              Group by priority
+            </label>
+          </span>
+        )}
       </h3>
       {tasks.length === 0 ? (
         <p style={{ color: '#666', fontStyle: 'italic' }}>No tasks</p>
       ) : (
         <ul style={{ listStyle: 'none', padding: 0 }}>
-          {tasks.map(task => (
-            <li key={task.id} style={{ 
-              marginBottom: '8px', 
-              display: 'flex', 
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              opacity: task.completed ? 0.6 : 1
-            }}>
-              <div 
-                style={{ 
-                  display: 'flex', 
-                  alignItems: 'center', 
-                  flex: 1,
-                  cursor: loading ? 'not-allowed' : 'pointer',
-                  padding: '4px',
-                  borderRadius: '4px',
-                  transition: 'background-color 0.2s'
-                }}
-                onClick={() => !loading && onCompleteTask(task.id)}
-                onMouseEnter={(e) => {
-                  if (!loading) {
-                    e.currentTarget.style.backgroundColor = '#f5f5f5';
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = 'transparent';
-                }}
-              >
-                <input
-                  type="checkbox"
-                  checked={task.completed}
-                  readOnly
-                  disabled={loading}
-                  style={{ marginRight: '10px', pointerEvents: 'none' }}
-                />
-                <span style={{ textDecoration: task.completed ? 'line-through' : 'none' }}>{task.text}</span>
-              </div>
-              {task.completed && onArchiveTask && (
-                <button
-                  onClick={() => onArchiveTask(task.id)}
-                  disabled={loading}
-                  style={{
-                    background: 'none',
-                    border: '1px solid #ccc',
-                    borderRadius: '4px',
-                    padding: '4px 8px',
-                    cursor: loading ? 'not-allowed' : 'pointer',
-                    display: 'flex',
-                    alignItems: 'center',
-                    gap: '4px',
-                    fontSize: '12px',
-                    color: '#666',
-                    marginLeft: '8px',
-                    textDecoration: 'none'
-                  }}
-                  onMouseEnter={(e) => {
-                    if (!loading) {
-                      e.currentTarget.style.backgroundColor = '#f5f5f5';
-                    }
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = 'transparent';
-                  }}
-                  title="Archive completed task"
-                >
-                  <Archive size={12} />
-                  Archive
-                </button>
+          {groups.map(group => (
+            <Fragment key={group.key}>
+              {group.label && (
+                <li style={{
+                  margin: '10px 0 6px',
+                  fontSize: '12px',
+                  fontWeight: 600,
+                  color: '#666',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.03em'
+                }}>
+                  {group.label} ({group.tasks.length})
+                </li>
               )}
-            </li>
+              {group.tasks.map(renderTask)}
+            </Fragment>
           ))}
         </ul>
       )}
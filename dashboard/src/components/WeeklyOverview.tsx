@@ -1,26 +1,17 @@
-import { Sunrise, Sun, Moon, ClipboardList, Calendar, CheckCircle2, Circle } from 'lucide-react';
-
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  timeSlot?: 'morning' | 'afternoon' | 'evening';
-  date?: string;
-}
-
-interface Schedule {
-  morning: Task[];
-  afternoon: Task[];
-  evening: Task[];
-  unscheduled: Task[];
-}
+import { Sunrise, Sun, Moon, ClipboardList, Calendar, CheckCircle2, Circle, Repeat } from 'lucide-react';
+import type { Schedule, TaskFilter, TaskLabels } from 'planner-core';
+import { TaskFilterBar } from './TaskFilterBar';
 
 interface WeeklyOverviewProps {
   allSchedule: Schedule;
   onDateSelect: (date: Date) => void;
+  /** Projects and tags to filter by, and the active filter (applied by the caller) */
+  labels: TaskLabels;
+  filter: TaskFilter;
+  onFilterChange: (filter: TaskFilter) => void;
 }
 
-export const WeeklyOverview = ({ allSchedule, onDateSelect }: WeeklyOverviewProps) => {
+export const WeeklyOverview = ({ allSchedule, onDateSelect, labels, filter, onFilterChange }: WeeklyOverviewProps) => {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
   
@@ -86,6 +77,10 @@ export const WeeklyOverview = ({ allSchedule, onDateSelect }: WeeklyOverviewProp
         </h2>
       </div>
 
+      <div style={{ marginBottom: '16px' }}>
+        <TaskFilterBar labels={labels} filter={filter} onFilterChange={onFilterChange} />
+      </div>
+
       <div style={{ 
         display: 'grid', 
         gridTemplateColumns: 'repeat(auto-fit, minmax(300px, 1fr))', 
@@ -94,6 +89,8 @@ export const WeeklyOverview = ({ allSchedule, onDateSelect }: WeeklyOverviewProp
         {days.map((date, index) => {
           const daySchedule = getTasksForDate(date);
           const stats = getTaskStats(daySchedule);
+          const recurringTasks = [...daySchedule.morning, ...daySchedule.afternoon, ...daySchedule.evening, ...daySchedule.unscheduled]
+            .filter(task => task.recurrenceId);
           const completionRate = stats.total > 0 ? (stats.completed / stats.total) * 100 : 0;
           
           return (
@@ -217,6 +214,39 @@ export const WeeklyOverview = ({ allSchedule, onDateSelect }: WeeklyOverviewProp
                 })}
               </div>
 
+              {/* Recurring Instances */}
+              {recurringTasks.length > 0 && (
+                <div style={{ 
+                  marginTop: '12px', 
+                  paddingTop: '8px', 
+                  borderTop: '1px solid #f0f0f0',
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  gap: '6px'
+                }}>
+                  {recurringTasks.map(task => (
+                    <span
+                      key={task.id}
+                      title="Recurring task"
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '4px',
+                        fontSize: '12px',
+                        padding: '2px 8px',
+                        borderRadius: '10px',
+                        backgroundColor: task.completed ? '#e8f5e8' : '#e3f2fd',
+                        color: task.completed ? '#388e3c' : '#1976d2',
+                        textDecoration: task.completed ? 'line-through' : 'none'
+                      }}
+                    >
+                      <Repeat size={10} />
+                      {task.text}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* Empty State */}
               {stats.total === 0 && (
                 <div style={{ 
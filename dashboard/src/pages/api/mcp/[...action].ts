@@ -1,9 +1,25 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, MessageExtraInfo } from '@modelcontextprotocol/sdk/types.js';
 import path from 'path';
-import fs from 'fs/promises';
 import Anthropic from '@anthropic-ai/sdk';
+import {
+  PlannerCore,
+  archiveRetentionFromEnv,
+  createPlanStore,
+  createPlannerServer,
+  energyPreferencesFromEnv,
+  formatMigrationReport,
+  planStoreConfigFromEnv,
+  rolloverPolicyFromEnv,
+  slotBoundariesFromEnv,
+  slotCapacityFromEnv,
+} from 'planner-core';
 
 export interface MCPLogEntry {
   id: string;
@@ -15,23 +31,30 @@ export interface MCPLogEntry {
   error?: string;
 }
 
-let mcpClient: Client | null = null;
-let mcpLogs: MCPLogEntry[] = [];
-
-// Task interfaces for direct implementation
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  archived?: boolean;
-  timeSlot?: 'morning' | 'afternoon' | 'evening';
-  date?: string; // Date in YYYY-MM-DD format
+/**
+ * How the dashboard reaches the planner, chosen with MCP_CLIENT_TRANSPORT:
+ * - `inline`: an in-process MCP server wired to the client with an in-memory
+ *   transport (the only option on Vercel, where processes can't be spawned)
+ * - `stdio`: spawn `mcp-server/dist/index.js` as a child process
+ * - `http`: connect to a running `npm run start:http` server at MCP_SERVER_URL
+ */
+export type MCPClientTransport = 'inline' | 'stdio' | 'http';
+
+const DEFAULT_SERVER_URL = 'http://127.0.0.1:3001/mcp';
+
+interface ServerCapabilityLists {
+  tools: any[];
+  resources: any[];
+  prompts: any[];
 }
 
-interface DailyPlan {
-  date: string;
-  tasks: Task[];
-}
+let mcpClient: Promise<Client> | null = null;
+// Listed once per connection; the status panel polls and shouldn't flood the inspector
+let capabilityLists: ServerCapabilityLists | null = null;
+let mcpLogs: MCPLogEntry[] = [];
+let plannerCore: PlannerCore | null = null;
+// JSON-RPC request id -> method, so responses can be labelled in the inspector
+const pendingRequests = new Map<string | number, string>();
 
 function logMCPInteraction(entry: Omit<MCPLogEntry, 'id' | 'timestamp'>) {
   const logEntry: MCPLogEntry = {
@@ -46,37 +69,104 @@ function logMCPInteraction(entry: Omit<MCPLogEntry, 'id' | 'timestamp'>) {
   }
 }
 
-// For Vercel deployment, implement MCP server functionality directly
-// instead of spawning a separate process which doesn't work in serverless environment
-async function getMcpClient(): Promise<Client> {
-  if (mcpClient) {
-    return mcpClient;
+function logJsonRpcMessage(direction: MCPLogEntry['direction'], message: JSONRPCMessage) {
+  let method = 'response';
+  if ('method' in message) {
+    method = message.method;
+    if ('id' in message) {
+      pendingRequests.set(message.id, message.method);
+    }
+  } else if ('id' in message && message.id !== undefined) {
+    method = pendingRequests.get(message.id) || method;
+    pendingRequests.delete(message.id);
   }
 
-  const isVercel = process.env.VERCEL === '1' || true; // Force inline implementation for local dev
-  
-  if (isVercel) {
-    // On Vercel, we can't spawn separate processes, so we'll return a mock client
-    // and handle MCP operations directly in the API handlers below
-    throw new Error('Vercel deployment uses direct MCP implementation - no client needed');
+  const error = 'error' in message ? message.error.message : undefined;
+  logMCPInteraction({
+    direction,
+    method,
+    data: message,
+    success: !error,
+    ...(error && { error }),
+  });
+}
+
+/**
+ * Wraps a client transport and records every JSON-RPC message that crosses
+ * it, so the Protocol Inspector shows exactly what goes over the wire.
+ */
+class LoggingTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: <T extends JSONRPCMessage>(message: T, extra?: MessageExtraInfo) => void;
+
+  constructor(private readonly inner: Transport) {}
+
+  get sessionId(): string | undefined {
+    return this.inner.sessionId;
   }
 
-  // For local development
-  const serverPath = path.join(process.cwd(), '..', 'mcp-server', 'dist', 'index.js');
-  const serverDir = path.join(process.cwd(), '..', 'mcp-server');
-  
-  const transport = new StdioClientTransport({
-    command: process.execPath, // Use the same node executable that's running Next.js
-    args: [serverPath],
-    env: {
-      ...process.env,
-      // Ensure ANTHROPIC_API_KEY is passed through
-      ...(process.env.ANTHROPIC_API_KEY && { ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY })
-    },
-    cwd: serverDir, // Set working directory to mcp-server
-  });
+  setProtocolVersion(version: string): void {
+    this.inner.setProtocolVersion?.(version);
+  }
+
+  async start(): Promise<void> {
+    this.inner.onmessage = (message, extra) => {
+      logJsonRpcMessage('response', message);
+      this.onmessage?.(message, extra);
+    };
+    this.inner.onerror = error => this.onerror?.(error);
+    this.inner.onclose = () => this.onclose?.();
+    await this.inner.start();
+  }
+
+  async send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    logJsonRpcMessage('request', message);
+    await this.inner.send(message, options);
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close();
+  }
+}
+
+export function getClientTransportMode(): MCPClientTransport {
+  const mode = (process.env.MCP_CLIENT_TRANSPORT || 'inline').toLowerCase();
+  if (mode !== 'inline' && mode !== 'stdio' && mode !== 'http') {
+    throw new Error(`Unknown MCP_CLIENT_TRANSPORT: ${mode}. Expected inline, stdio or http`);
+  }
+  return mode;
+}
+
+// The planner-core instance behind the inline transport. The store driver is
+// chosen with PLANNER_STORE (json, memory or sqlite).
+function getPlannerCore(): PlannerCore {
+  if (!plannerCore) {
+    // Vercel only allows writes to /tmp (ephemeral); locally share the MCP server's data files
+    const dataDir = process.env.VERCEL === '1' ? '/tmp' : path.join(process.cwd(), '..', 'mcp-server');
+    const store = createPlanStore(planStoreConfigFromEnv(process.env, {
+      dataFile: path.join(dataDir, 'daily-plan.json'),
+      sqliteFile: path.join(dataDir, 'daily-plan.db'),
+    }));
+    const anthropic = process.env.ANTHROPIC_API_KEY
+      ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+      : null;
+    const slotBoundaries = slotBoundariesFromEnv(process.env);
+    plannerCore = new PlannerCore({
+      store,
+      anthropic,
+      slotBoundaries,
+      rolloverPolicy: rolloverPolicyFromEnv(process.env),
+      archiveRetention: archiveRetentionFromEnv(process.env),
+      slotCapacity: slotCapacityFromEnv(process.env, slotBoundaries),
+      energyPreferences: energyPreferencesFromEnv(process.env),
+    });
+  }
+  return plannerCore;
+}
 
-  mcpClient = new Client(
+function createClient(): Client {
+  return new Client(
     {
       name: 'planner-dashboard-client',
       version: '1.0.0',
@@ -85,125 +175,100 @@ async function getMcpClient(): Promise<Client> {
       capabilities: {},
     }
   );
+}
 
-  await mcpClient.connect(transport);
-  return mcpClient;
+async function connectInline(): Promise<Client> {
+  // Like the MCP server at startup; data from a newer planner fails the connection
+  const core = getPlannerCore();
+  console.error(formatMigrationReport(await core.store.migrate()));
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createPlannerServer(core).connect(serverTransport);
+
+  const client = createClient();
+  await client.connect(new LoggingTransport(clientTransport));
+  return client;
 }
 
-// Direct MCP implementation for Vercel (serverless environment)
-const getDataFilePath = () => {
-  const isVercel = process.env.VERCEL === '1' || true; // Force inline implementation for local dev
-  if (isVercel) {
-    // On Vercel, use /tmp for file storage (ephemeral)
-    return '/tmp/daily-plan.json';
+async function connectStdio(): Promise<Client> {
+  const serverPath = path.join(process.cwd(), '..', 'mcp-server', 'dist', 'index.js');
+  const serverDir = path.join(process.cwd(), '..', 'mcp-server');
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
   }
-  // Local development - use relative path to mcp-server directory
-  return path.join(process.cwd(), '..', 'mcp-server', 'daily-plan.json');
-};
+  // The child must speak stdio regardless of what its own .env says
+  env.MCP_TRANSPORT = 'stdio';
+
+  const transport = new StdioClientTransport({
+    command: process.execPath, // Use the same node executable that's running Next.js
+    args: [serverPath],
+    env,
+    cwd: serverDir, // Set working directory to mcp-server
+  });
+
+  const client = createClient();
+  await client.connect(new LoggingTransport(transport));
+  return client;
+}
+
+async function connectHttp(): Promise<Client> {
+  const url = new URL(process.env.MCP_SERVER_URL || DEFAULT_SERVER_URL);
+  // The server's MCP_HTTP_TOKEN, if it has one
+  const token = process.env.MCP_SERVER_TOKEN;
+  const requestInit = token ? { headers: { Authorization: `Bearer ${token}` } } : undefined;
 
-async function ensureDataFile(): Promise<void> {
-  const dataFile = getDataFilePath();
   try {
-    await fs.access(dataFile);
-  } catch {
-    const today = new Date().toISOString().split('T')[0];
-    const initialData: DailyPlan = { date: today, tasks: [] };
-    await fs.writeFile(dataFile, JSON.stringify(initialData, null, 2));
+    const client = createClient();
+    await client.connect(new LoggingTransport(new StreamableHTTPClientTransport(url, { requestInit })));
+    return client;
+  } catch (error) {
+    // Older servers only speak HTTP+SSE, which lives at /sse on our server
+    console.error('Streamable HTTP connection failed, falling back to SSE:', error);
+    const client = createClient();
+    await client.connect(new LoggingTransport(new SSEClientTransport(new URL('/sse', url), { requestInit })));
+    return client;
   }
 }
 
-async function readPlan(): Promise<DailyPlan> {
-  await ensureDataFile();
-  const dataFile = getDataFilePath();
-  const data = await fs.readFile(dataFile, 'utf-8');
-  const plan = JSON.parse(data);
-  
-  // Migration: Assign today's date to tasks without a date field
-  const today = new Date().toISOString().split('T')[0];
-  let needsUpdate = false;
-  
-  for (const task of plan.tasks) {
-    if (!task.date) {
-      task.date = today;
-      needsUpdate = true;
-    }
-  }
-  
-  // Write back the migrated plan if any tasks were updated
-  if (needsUpdate) {
-    await fs.writeFile(dataFile, JSON.stringify(plan, null, 2));
+async function getMcpClient(): Promise<Client> {
+  if (!mcpClient) {
+    const mode = getClientTransportMode();
+    const connecting = mode === 'stdio' ? connectStdio() : mode === 'http' ? connectHttp() : connectInline();
+
+    mcpClient = connecting.then(async client => {
+      // Reconnect on the next request if the server goes away
+      client.onclose = () => {
+        mcpClient = null;
+        capabilityLists = null;
+      };
+      capabilityLists = await listCapabilities(client);
+      return client;
+    });
+    // Don't cache a failed connection attempt
+    mcpClient.catch(() => {
+      mcpClient = null;
+    });
   }
-  
-  return plan;
+  return mcpClient;
 }
 
-async function writePlan(plan: DailyPlan): Promise<void> {
-  const dataFile = getDataFilePath();
-  await fs.writeFile(dataFile, JSON.stringify(plan, null, 2));
+async function listCapabilities(client: Client): Promise<ServerCapabilityLists> {
+  const serverCapabilities = client.getServerCapabilities();
+  return {
+    tools: serverCapabilities?.tools ? (await client.listTools()).tools : [],
+    resources: serverCapabilities?.resources ? (await client.listResources()).resources : [],
+    prompts: serverCapabilities?.prompts ? (await client.listPrompts()).prompts : [],
+  };
 }
 
-function categorizeTask(text: string): 'morning' | 'afternoon' | 'evening' | undefined {
-  const lowerText = text.toLowerCase();
-  
-  // Morning keywords and patterns
-  const morningKeywords = [
-    'breakfast', 'coffee', 'morning', 'wake up', 'shower', 'exercise', 'gym',
-    'jog', 'run', 'meditation', 'yoga', 'check email', 'review', 'plan day',
-    'morning routine', 'get ready', 'commute', 'early', 'dawn', 'sunrise'
-  ];
-  
-  // Afternoon keywords and patterns
-  const afternoonKeywords = [
-    'lunch', 'meeting', 'work', 'call', 'appointment', 'errands', 'shopping',
-    'grocery', 'bank', 'office', 'project', 'deadline', 'presentation',
-    'conference', 'interview', 'doctor', 'dentist', 'pickup', 'drop off'
-  ];
-  
-  // Evening keywords and patterns
-  const eveningKeywords = [
-    'dinner', 'cook', 'evening', 'night', 'after work', 'relax', 'unwind',
-    'watch', 'movie', 'tv', 'read', 'book', 'family time', 'date',
-    'friends', 'bar', 'restaurant', 'late', 'sunset', 'bedtime', 'sleep'
-  ];
-  
-  // Check for explicit lunch mention first
-  if (lowerText.includes('lunch')) {
-    return 'afternoon';
-  }
-  
-  // Check for time-specific patterns (e.g., "at 7am", "in the morning")
-  if (lowerText.includes('am') || lowerText.includes('morning') || 
-      lowerText.match(/\b[6-9]\s*(:|am|\s*am)/)) {
-    return 'morning';
-  }
-  
-  if (lowerText.includes('pm') && (lowerText.includes('6') || lowerText.includes('7') || 
-      lowerText.includes('8') || lowerText.includes('9') || lowerText.includes('10'))) {
-    return 'evening';
-  }
-  
-  if (lowerText.includes('evening') || lowerText.includes('night') || 
-      lowerText.includes('tonight')) {
-    return 'evening';
-  }
-  
-  // Count keyword matches for each time slot
-  const morningScore = morningKeywords.filter(keyword => lowerText.includes(keyword)).length;
-  const afternoonScore = afternoonKeywords.filter(keyword => lowerText.includes(keyword)).length;
-  const eveningScore = eveningKeywords.filter(keyword => lowerText.includes(keyword)).length;
-  
-  // Return the time slot with the highest score, or undefined if all scores are 0
-  if (morningScore === 0 && afternoonScore === 0 && eveningScore === 0) {
-    return undefined;
-  }
-  
-  if (morningScore >= afternoonScore && morningScore >= eveningScore) {
-    return 'morning';
-  } else if (afternoonScore >= eveningScore) {
-    return 'afternoon';
-  } else {
-    return 'evening';
-  }
+// The catch-all route splits `tasks://2024-01-01` on slashes, and some clients
+// collapse the empty segment, so rebuild the URI from what is left
+function resourceUriFromPath(segments: string[]): string {
+  return segments.join('/').replace(/^([a-z][a-z0-9+.-]*):\/*/i, '$1://');
 }
 
 export default async function handler(
@@ -212,7 +277,6 @@ export default async function handler(
 ) {
   try {
     const action = req.query.action as string[];
-    const isVercel = process.env.VERCEL === '1' || true; // Force inline implementation for local dev
 
     // Special endpoint for fetching logs
     if (req.method === 'GET' && action[0] === 'logs') {
@@ -223,833 +287,80 @@ export default async function handler(
     if (req.method === 'GET' && action[0] === 'status') {
       let isConnected = false;
       let capabilities: any = null;
-      
+      let transport: MCPClientTransport | null = null;
+
       try {
-        if (isVercel) {
-          // On Vercel, use direct implementation
-          isConnected = true;
-          capabilities = {
-            tools: [
-              {
-                name: 'add_task',
-                description: 'Add a new task to today\'s plan',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    text: { type: 'string', description: 'Task description' },
-                    timeSlot: { 
-                      type: 'string', 
-                      enum: ['morning', 'afternoon', 'evening'],
-                      description: 'Optional time slot assignment'
-                    },
-                  },
-                  required: ['text'],
-                },
-              },
-              {
-                name: 'complete_task',
-                description: 'Mark a task as completed',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    taskId: { type: 'string', description: 'Task ID to complete' },
-                  },
-                  required: ['taskId'],
-                },
-              },
-              {
-                name: 'plan_day',
-                description: 'Automatically assign unscheduled tasks to time slots',
-                inputSchema: {
-                  type: 'object',
-                  properties: {},
-                  additionalProperties: false,
-                },
-              },
-              {
-                name: 'archive_task',
-                description: 'Archive a completed task to remove it from active view',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    taskId: { type: 'string', description: 'Task ID to archive' },
-                  },
-                  required: ['taskId'],
-                },
-              },
-              {
-                name: 'smart_add_task',
-                description: 'Add a task using natural language with automatic time slot categorization',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    text: { type: 'string', description: 'Natural language task description' },
-                  },
-                  required: ['text'],
-                },
-              },
-              {
-                name: 'analyze_intent',
-                description: 'Analyze user message to determine intent and extract parameters for task management',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    message: { type: 'string', description: 'User message to analyze' },
-                  },
-                  required: ['message'],
-                },
-              },
-            ],
-            resources: [
-              {
-                name: 'Today\'s Tasks',
-                uri: 'today-tasks',
-                description: 'Current day\'s tasks',
-                mimeType: 'application/json',
-              },
-              {
-                name: 'Time Slots',
-                uri: 'schedule',
-                description: 'Morning, afternoon, and evening time slots',
-                mimeType: 'application/json',
-              },
-            ],
-            prompts: [
-              {
-                name: 'custom_assistant',
-                description: 'Interactive AI assistant for any question or task',
-                arguments: [
-                  {
-                    name: 'message',
-                    description: 'Your question or request for the AI assistant',
-                    required: true,
-                  },
-                  {
-                    name: 'context',
-                    description: 'Additional context or conversation history',
-                    required: false,
-                  },
-                  {
-                    name: 'role',
-                    description: 'AI assistant role (productivity_coach, task_planner, creative_helper, etc.)',
-                    required: false,
-                  },
-                ],
-              },
-              {
-                name: 'suggest_tasks',
-                description: 'Get AI-powered task suggestions for your day',
-                arguments: [
-                  {
-                    name: 'context',
-                    description: 'Additional context about your day, goals, or priorities',
-                    required: false,
-                  },
-                  {
-                    name: 'focus_area',
-                    description: 'Specific area to focus on (work, personal, health, etc.)',
-                    required: false,
-                  },
-                ],
-              },
-            ]
-          };
-        } else {
-          // Local development - use MCP client
-          const client = await getMcpClient();
-          isConnected = true;
-          
-          const tools = await client.listTools();
-          const resources = await client.listResources();
-          capabilities = {
-            tools: tools.tools || [],
-            resources: resources.resources || [],
-            prompts: [] as any[]
-          };
-          
-          try {
-            const prompts = await client.listPrompts();
-            capabilities.prompts = prompts.prompts || [];
-          } catch (error) {
-            // Prompts might not be supported
-          }
-        }
+        transport = getClientTransportMode();
+        await getMcpClient();
+        isConnected = true;
+        capabilities = capabilityLists;
       } catch (error) {
         console.error('Status check failed:', error);
         isConnected = false;
       }
-      
+
       return res.json({
         connected: isConnected,
+        transport,
         capabilities,
         messageCount: mcpLogs.length
       });
     }
 
-    // Get client for local development, use direct implementation for Vercel
-    let client: Client | null = null;
-    if (!isVercel) {
-      client = await getMcpClient();
-    }
+    const client = await getMcpClient();
 
     if (req.method === 'GET') {
       if (action[0] === 'prompts') {
         if (action.length === 1) {
-          logMCPInteraction({
-            direction: 'request',
-            method: 'listPrompts',
-            data: {},
-            success: true
-          });
-
-          let result;
-          if (isVercel) {
-            // Direct implementation for Vercel
-            result = {
-              prompts: [
-                {
-                  name: 'custom_assistant',
-                  description: 'Interactive AI assistant for any question or task',
-                  arguments: [
-                    {
-                      name: 'message',
-                      description: 'Your question or request for the AI assistant',
-                      required: true,
-                    },
-                    {
-                      name: 'context',
-                      description: 'Additional context or conversation history',
-                      required: false,
-                    },
-                    {
-                      name: 'role',
-                      description: 'AI assistant role (productivity_coach, task_planner, creative_helper, etc.)',
-                      required: false,
-                    },
-                  ],
-                },
-                {
-                  name: 'suggest_tasks',
-                  description: 'Get AI-powered task suggestions for your day',
-                  arguments: [
-                    {
-                      name: 'context',
-                      description: 'Additional context about your day, goals, or priorities',
-                      required: false,
-                    },
-                    {
-                      name: 'focus_area',
-                      description: 'Specific area to focus on (work, personal, health, etc.)',
-                      required: false,
-                    },
-                  ],
-                },
-              ]
-            };
-          } else {
-            result = await client!.listPrompts();
-          }
-          
-          logMCPInteraction({
-            direction: 'response',
-            method: 'listPrompts',
-            data: result,
-            success: true
-          });
-
-          return res.json(result);
-        } else {
-          const promptName = action[1];
-          
-          // Convert query parameters to proper arguments object
-          const args: Record<string, any> = {};
-          Object.entries(req.query).forEach(([key, value]) => {
-            if (key !== 'action') {
-              args[key] = Array.isArray(value) ? value[0] : value;
-            }
-          });
-          
-          const requestData = { 
-            name: promptName,
-            arguments: args
-          };
-          
-          logMCPInteraction({
-            direction: 'request',
-            method: 'getPrompt',
-            data: requestData,
-            success: true
-          });
-
-          let result;
-          if (isVercel) {
-            // Direct implementation for Vercel with Anthropic API
-            const promptName = requestData.name;
-            const args = requestData.arguments;
-            
-            if (!process.env.ANTHROPIC_API_KEY) {
-              throw new Error('Anthropic API key not configured. Please set ANTHROPIC_API_KEY in your environment.');
-            }
-            
-            const anthropic = new Anthropic({
-              apiKey: process.env.ANTHROPIC_API_KEY,
-            });
-
-            if (promptName === 'custom_assistant') {
-              const message = args?.message || '';
-              const context = args?.context || '';
-              const role = args?.role || 'helpful assistant';
-
-              if (!message) {
-                throw new Error('Message is required for custom_assistant prompt');
-              }
-
-              const systemPrompt = `You are a ${role} helping with productivity and task management. 
-
-${context ? `Previous conversation and current context: ${context}` : ''}
-
-When the user mentions "my tasks", "my day", "current tasks", or similar references, use the task information provided in the context above. Be specific about their actual tasks when giving advice.
-
-Provide helpful, practical, and actionable responses. Be conversational and engaging while staying focused on productivity and planning topics. When you can see their actual tasks, reference them specifically in your advice.`;
-
-              const response = await anthropic.messages.create({
-                model: 'claude-3-haiku-20240307',
-                max_tokens: 500,
-                messages: [
-                  {
-                    role: 'user',
-                    content: message,
-                  },
-                ],
-                system: systemPrompt,
-              });
-
-              result = {
-                description: 'Interactive AI assistant response',
-                messages: [
-                  {
-                    role: 'assistant',
-                    content: {
-                      type: 'text',
-                      text: response.content[0].type === 'text' ? response.content[0].text : 'Error generating response',
-                    },
-                  },
-                ],
-              };
-            } else if (promptName === 'suggest_tasks') {
-              const context = args?.context || '';
-              const focusArea = args?.focus_area || '';
-              
-              const systemPrompt = `You are a helpful productivity assistant. Generate 3-5 practical, actionable task suggestions for today.
-
-${context ? `Context: ${context}` : ''}
-${focusArea ? `Focus area: ${focusArea}` : ''}
-
-Provide tasks that are:
-- Specific and actionable
-- Achievable in a day
-- Relevant to the context/focus area
-- Varied in scope (mix of quick wins and deeper work)
-
-Format as a simple numbered list.`;
-
-              const response = await anthropic.messages.create({
-                model: 'claude-3-haiku-20240307',
-                max_tokens: 300,
-                messages: [
-                  {
-                    role: 'user',
-                    content: 'Please suggest some tasks for my day.',
-                  },
-                ],
-                system: systemPrompt,
-              });
+          return res.json(await client.listPrompts());
+        }
 
-              result = {
-                description: 'AI-generated task suggestions for your day',
-                messages: [
-                  {
-                    role: 'assistant',
-                    content: {
-                      type: 'text',
-                      text: response.content[0].type === 'text' ? response.content[0].text : 'Error generating suggestions',
-                    },
-                  },
-                ],
-              };
-            } else {
-              throw new Error(`Unknown prompt: ${promptName}`);
-            }
-          } else {
-            result = await client!.getPrompt(requestData);
+        // Convert query parameters to proper arguments object
+        const args: Record<string, string> = {};
+        Object.entries(req.query).forEach(([key, value]) => {
+          if (key !== 'action' && value !== undefined) {
+            args[key] = Array.isArray(value) ? value[0] : value;
           }
-          
-          logMCPInteraction({
-            direction: 'response',
-            method: 'getPrompt',
-            data: result,
-            success: true
-          });
+        });
 
-          return res.json(result);
-        }
+        return res.json(await client.getPrompt({
+          name: action[1],
+          arguments: args,
+        }));
       }
 
       if (action[0] === 'resources') {
         if (action.length === 1) {
-          logMCPInteraction({
-            direction: 'request',
-            method: 'listResources',
-            data: {},
-            success: true
-          });
-
-          let result;
-          if (isVercel) {
-            // Direct implementation for Vercel
-            result = {
-              resources: [
-                {
-                  uri: 'today-tasks',
-                  name: 'Today\'s Tasks',
-                  description: 'Current day\'s tasks',
-                  mimeType: 'application/json',
-                },
-                {
-                  uri: 'schedule',
-                  name: 'Time Slots',
-                  description: 'Morning, afternoon, and evening time slots',
-                  mimeType: 'application/json',
-                },
-              ]
-            };
-          } else {
-            result = await client!.listResources();
-          }
-          
-          logMCPInteraction({
-            direction: 'response',
-            method: 'listResources',
-            data: result,
-            success: true
-          });
-
-          return res.json(result);
-        } else {
-          const resourceUri = action[1];
-          const requestData = { uri: resourceUri };
-          
-          logMCPInteraction({
-            direction: 'request',
-            method: 'readResource',
-            data: requestData,
-            success: true
-          });
-
-          let result;
-          if (isVercel) {
-            // Direct implementation for Vercel
-            const plan = await readPlan();
-            
-            if (resourceUri === 'today-tasks') {
-              const activeTasks = plan.tasks.filter(t => !t.archived);
-              result = {
-                contents: [
-                  {
-                    uri: 'today-tasks',
-                    mimeType: 'application/json',
-                    text: JSON.stringify(activeTasks, null, 2),
-                  },
-                ],
-              };
-            } else if (resourceUri === 'schedule') {
-              // Get all tasks (for frontend to handle filtering by date)
-              // This maintains compatibility while enabling day-specific filtering
-              const allTasks = plan.tasks.filter(t => !t.archived);
-              const schedule = {
-                morning: allTasks.filter(t => t.timeSlot === 'morning'),
-                afternoon: allTasks.filter(t => t.timeSlot === 'afternoon'),
-                evening: allTasks.filter(t => t.timeSlot === 'evening'),
-                unscheduled: allTasks.filter(t => !t.timeSlot),
-              };
-              result = {
-                contents: [
-                  {
-                    uri: 'schedule',
-                    mimeType: 'application/json',
-                    text: JSON.stringify(schedule, null, 2),
-                  },
-                ],
-              };
-            } else {
-              throw new Error(`Unknown resource: ${resourceUri}`);
-            }
-          } else {
-            result = await client!.readResource(requestData);
-          }
-          
-          logMCPInteraction({
-            direction: 'response',
-            method: 'readResource',
-            data: result,
-            success: true
-          });
-
-          return res.json(result);
+          return res.json(await client.listResources());
         }
+        if (action[1] === 'templates' && action.length === 2) {
+          return res.json(await client.listResourceTemplates());
+        }
+
+        return res.json(await client.readResource({ uri: resourceUriFromPath(action.slice(1)) }));
       }
 
       if (action[0] === 'tools') {
-        logMCPInteraction({
-          direction: 'request',
-          method: 'listTools',
-          data: {},
-          success: true
-        });
-
-        let result;
-        if (isVercel) {
-          // Direct implementation for Vercel
-          result = {
-            tools: [
-              {
-                name: 'add_task',
-                description: 'Add a new task to today\'s plan',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    text: { type: 'string', description: 'Task description' },
-                    timeSlot: { 
-                      type: 'string', 
-                      enum: ['morning', 'afternoon', 'evening'],
-                      description: 'Optional time slot assignment'
-                    },
-                  },
-                  required: ['text'],
-                },
-              },
-              {
-                name: 'complete_task',
-                description: 'Mark a task as completed',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    taskId: { type: 'string', description: 'Task ID to complete' },
-                  },
-                  required: ['taskId'],
-                },
-              },
-              {
-                name: 'plan_day',
-                description: 'Automatically assign unscheduled tasks to time slots',
-                inputSchema: {
-                  type: 'object',
-                  properties: {},
-                  additionalProperties: false,
-                },
-              },
-              {
-                name: 'archive_task',
-                description: 'Archive a completed task to remove it from active view',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    taskId: { type: 'string', description: 'Task ID to archive' },
-                  },
-                  required: ['taskId'],
-                },
-              },
-              {
-                name: 'smart_add_task',
-                description: 'Add a task using natural language with automatic time slot categorization',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    text: { type: 'string', description: 'Natural language task description' },
-                  },
-                  required: ['text'],
-                },
-              },
-              {
-                name: 'analyze_intent',
-                description: 'Analyze user message to determine intent and extract parameters for task management',
-                inputSchema: {
-                  type: 'object',
-                  properties: {
-                    message: { type: 'string', description: 'User message to analyze' },
-                  },
-                  required: ['message'],
-                },
-              },
-            ]
-          };
-        } else {
-          result = await client!.listTools();
-        }
-        
-        logMCPInteraction({
-          direction: 'response',
-          method: 'listTools',
-          data: result,
-          success: true
-        });
-
-        return res.json(result);
+        return res.json(await client.listTools());
       }
     }
 
     if (req.method === 'POST') {
       if (action[0] === 'tools' && action[1]) {
-        const toolName = action[1];
-        const requestData = {
-          name: toolName,
+        // Which part of the dashboard made the call, for the change history
+        const source = req.headers['x-planner-source'];
+        return res.json(await client.callTool({
+          name: action[1],
           arguments: req.body,
-        };
-        
-        logMCPInteraction({
-          direction: 'request',
-          method: 'callTool',
-          data: requestData,
-          success: true
-        });
-
-        let result;
-        if (isVercel) {
-          // Direct implementation for Vercel
-          const args = req.body;
-          
-          if (toolName === 'add_task') {
-            const plan = await readPlan();
-            const taskDate = args.date || new Date().toISOString().split('T')[0]; // Default to today if no date provided
-            const newTask: Task = {
-              id: Date.now().toString(),
-              text: args.text,
-              completed: false,
-              timeSlot: args.timeSlot,
-              date: taskDate,
-            };
-            plan.tasks.push(newTask);
-            await writePlan(plan);
-            
-            const dateText = args.date ? ` for ${taskDate}` : '';
-            result = {
-              content: [
-                {
-                  type: 'text',
-                  text: `Added task: ${newTask.text}${dateText}`,
-                },
-              ],
-            };
-          } else if (toolName === 'complete_task') {
-            const plan = await readPlan();
-            const task = plan.tasks.find(t => t.id === args.taskId);
-            if (!task) {
-              throw new Error(`Task not found: ${args.taskId}`);
-            }
-            task.completed = true;
-            await writePlan(plan);
-            result = {
-              content: [
-                {
-                  type: 'text',
-                  text: `Completed task: ${task.text}`,
-                },
-              ],
-            };
-          } else if (toolName === 'plan_day') {
-            const plan = await readPlan();
-            const unscheduled = plan.tasks.filter(t => !t.timeSlot && !t.completed);
-            const slots = ['morning', 'afternoon', 'evening'] as const;
-            
-            unscheduled.forEach((task, index) => {
-              task.timeSlot = slots[index % slots.length];
-            });
-
-            await writePlan(plan);
-            result = {
-              content: [
-                {
-                  type: 'text',
-                  text: `Assigned ${unscheduled.length} tasks to time slots`,
-                },
-              ],
-            };
-          } else if (toolName === 'archive_task') {
-            const plan = await readPlan();
-            const task = plan.tasks.find(t => t.id === args.taskId);
-            if (!task) {
-              throw new Error(`Task not found: ${args.taskId}`);
-            }
-            if (!task.completed) {
-              throw new Error(`Task must be completed before archiving: ${task.text}`);
-            }
-            task.archived = true;
-            await writePlan(plan);
-            result = {
-              content: [
-                {
-                  type: 'text',
-                  text: `Archived task: ${task.text}`,
-                },
-              ],
-            };
-          } else if (toolName === 'smart_add_task') {
-            const plan = await readPlan();
-            
-            // Parse natural language commands inline
-            let taskText = args.text;
-            let timeSlot = categorizeTask(args.text);
-            let taskDate = args.date || new Date().toISOString().split('T')[0];
-            
-            // Check if it's a natural language command with day specification
-            const normalizedInput = args.text.toLowerCase().trim();
-            const addTaskPatterns = [
-              /^add task for (.+?):\s*(.+)$/,
-              /^task for (.+?):\s*(.+)$/,
-              /^(.+?) task:\s*(.+)$/
-            ];
-            
-            for (const pattern of addTaskPatterns) {
-              const match = normalizedInput.match(pattern);
-              if (match) {
-                const dayTimeSpec = match[1];
-                taskText = match[2].trim();
-                
-                // Parse day and calculate date
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
-                const todayDayOfWeek = today.getDay();
-                
-                const dayPatterns = {
-                  'monday': 1, 'tuesday': 2, 'wednesday': 3, 'thursday': 4, 'friday': 5, 'saturday': 6, 'sunday': 0,
-                  'mon': 1, 'tue': 2, 'wed': 3, 'thu': 4, 'fri': 5, 'sat': 6, 'sun': 0
-                };
-                
-                // Check for specific weekdays
-                for (const [dayName, dayOfWeek] of Object.entries(dayPatterns)) {
-                  if (dayTimeSpec.includes(dayName)) {
-                    let daysUntilTarget = dayOfWeek - todayDayOfWeek;
-                    if (daysUntilTarget <= 0) {
-                      daysUntilTarget += 7; // Next week
-                    }
-                    
-                    const targetDate = new Date(today);
-                    targetDate.setDate(today.getDate() + daysUntilTarget);
-                    taskDate = targetDate.toISOString().split('T')[0];
-                    break;
-                  }
-                }
-                
-                // Check for time slots
-                if (dayTimeSpec.includes('morning') || dayTimeSpec.includes('am')) {
-                  timeSlot = 'morning';
-                } else if (dayTimeSpec.includes('afternoon') || dayTimeSpec.includes('pm')) {
-                  timeSlot = 'afternoon';
-                } else if (dayTimeSpec.includes('evening') || dayTimeSpec.includes('night')) {
-                  timeSlot = 'evening';
-                }
-                
-                break;
-              }
-            }
-            
-            const newTask: Task = {
-              id: Date.now().toString(),
-              text: taskText,
-              completed: false,
-              timeSlot: timeSlot,
-              date: taskDate,
-            };
-            plan.tasks.push(newTask);
-            await writePlan(plan);
-            
-            const timeSlotText = timeSlot ? ` (automatically categorized as ${timeSlot})` : ' (no specific time detected)';
-            const dateText = taskDate !== new Date().toISOString().split('T')[0] ? ` for ${taskDate}` : '';
-            result = {
-              content: [
-                {
-                  type: 'text',
-                  text: `Added task: ${newTask.text}${timeSlotText}${dateText}`,
-                },
-              ],
-            };
-          } else if (toolName === 'analyze_intent') {
-            // Use Anthropic API to analyze user intent
-            if (!process.env.ANTHROPIC_API_KEY) {
-              throw new Error('Anthropic API key not configured for intent analysis');
-            }
-
-            const anthropic = new Anthropic({
-              apiKey: process.env.ANTHROPIC_API_KEY,
-            });
-
-            const systemPrompt = `You are an intent analyzer for a task management system. Analyze the user's message and determine their intent.
-
-Return a JSON object with:
-- intent: one of "add_task", "complete_task", "plan_day", "archive_completed", "list_tasks", "help", or "conversation"
-- params: object containing extracted parameters
-
-For "add_task": extract taskText
-For "complete_task": extract taskId (if mentioned), taskName (for partial matches), or taskNumber (for numbered references like "task 1")  
-For other intents: extract any relevant parameters
-
-Examples:
-- "buy groceries" → {"intent": "add_task", "params": {"taskText": "buy groceries"}}
-- "add clean kitchen" → {"intent": "add_task", "params": {"taskText": "clean kitchen"}}  
-- "complete presentation" → {"intent": "complete_task", "params": {"taskName": "presentation"}}
-- "mark task 2 as done" → {"intent": "complete_task", "params": {"taskNumber": "2"}}
-- "plan my day" → {"intent": "plan_day", "params": {}}
-- "archive all completed tasks" → {"intent": "archive_completed", "params": {}}
-- "show my tasks" → {"intent": "list_tasks", "params": {}}
-- "help me" → {"intent": "help", "params": {}}
-- "how's the weather?" → {"intent": "conversation", "params": {}}
-
-Respond with ONLY the JSON object, no other text.`;
-
-            const response = await anthropic.messages.create({
-              model: 'claude-3-haiku-20240307',
-              max_tokens: 200,
-              system: systemPrompt,
-              messages: [
-                {
-                  role: 'user',
-                  content: args.message,
-                },
-              ],
-            });
-
-            const intentText = response.content[0]?.type === 'text' ? response.content[0].text : '';
-            
-            result = {
-              content: [
-                {
-                  type: 'text',
-                  text: intentText,
-                },
-              ],
-            };
-          } else {
-            throw new Error(`Unknown tool: ${toolName}`);
-          }
-        } else {
-          result = await client!.callTool(requestData);
-        }
-        
-        logMCPInteraction({
-          direction: 'response',
-          method: 'callTool',
-          data: result,
-          success: true
-        });
-
-        return res.json(result);
+          ...(typeof source === 'string' && { _meta: { source } }),
+        }));
       }
     }
 
     return res.status(404).json({ error: 'Not found' });
   } catch (error) {
     console.error('MCP API Error:', error);
-    
+
     logMCPInteraction({
       direction: 'response',
       method: 'error',
@@ -1058,9 +369,9 @@ Respond with ONLY the JSON object, no other text.`;
       error: error instanceof Error ? error.message : 'Unknown error'
     });
 
-    return res.status(500).json({ 
+    return res.status(500).json({
       error: 'MCP connection failed',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-}
\ No newline at end of file
+}
@@ -8,26 +8,18 @@ import { DashboardHeader } from '../components/DashboardHeader';
 import { DaySelector } from '../components/DaySelector';
 import { DayBoard } from '../components/DayBoard';
 import { WeeklyOverview } from '../components/WeeklyOverview';
+import { ArchiveView } from '../components/ArchiveView';
+import { SearchBox } from '../components/SearchBox';
+import { InsightsView } from '../components/InsightsView';
+import { DayReviewModal, DayReviewChanges } from '../components/DayReviewModal';
 import { parseTaskCommand, getTabForDate } from '../utils/commandProcessor';
 import { MCPProtocolInspector } from '../components/MCPProtocolInspector';
 import { MCPConceptsPanel } from '../components/MCPConceptsPanel';
 import { MCPPromptsPanel } from '../components/MCPPromptsPanel';
 import { MCPServerStatusPanel } from '../components/MCPServerStatusPanel';
-
-interface Task {
-  id: string;
-  text: string;
-  completed: boolean;
-  timeSlot?: 'morning' | 'afternoon' | 'evening';
-  date?: string; // Date in YYYY-MM-DD format
-}
-
-interface Schedule {
-  morning: Task[];
-  afternoon: Task[];
-  evening: Task[];
-  unscheduled: Task[];
-}
+import { FocusMode, FocusSettings } from '../components/FocusMode';
+import type { ActiveTimer, DayPlan, FocusStatus, HistoryStatus, Priority, RecurrenceFrequency, Schedule, Task, TaskFilter, TaskPatch, TimeSlot } from 'planner-core';
+import { collectLabels, matchesTaskFilter, parseTagText, isOverdue, parseDueText, DEFAULT_BREAK_MINUTES, DEFAULT_WORK_MINUTES } from 'planner-core/browser';
 
 interface ServerStatus {
   connected: boolean;
@@ -44,12 +36,13 @@ const fetcher = (url: string) => fetch(url).then(res => res.json());
 const callTool = async (toolName: string, args: any = {}) => {
   const response = await fetch(`/api/mcp/tools/${toolName}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', 'X-Planner-Source': 'dashboard-board' },
     body: JSON.stringify(args),
   });
   
   if (!response.ok) {
-    throw new Error(`Tool call failed: ${response.statusText}`);
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.details || `Tool call failed: ${response.statusText}`);
   }
   
   return response.json();
@@ -75,6 +68,13 @@ function DashboardContent() {
   const [simulatedError, setSimulatedError] = useState(false);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [activeTab, setActiveTab] = useState('day-0'); // Start with today
+  const [archiveDate, setArchiveDate] = useState<string | null>(null);
+  const [reviewDate, setReviewDate] = useState<string | null>(null);
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>({});
+  const [focusSettings, setFocusSettings] = useState<FocusSettings>({
+    workMinutes: DEFAULT_WORK_MINUTES,
+    breakMinutes: DEFAULT_BREAK_MINUTES
+  });
   const { completeAction, waitingForAction, startTour, isActive, nextStep } = useTour();
 
   const { data: scheduleData, error } = useSWR<{ contents: [{ text: string }] }>(
@@ -83,49 +83,128 @@ function DashboardContent() {
     { refreshInterval: 2000 }
   );
 
-  const allSchedule: Schedule = scheduleData?.contents?.[0]?.text 
+  // The running timer (or null); its row ticks locally between refreshes
+  const { data: timerData } = useSWR<{ contents: [{ text: string }] }>(
+    '/api/mcp/resources/timer',
+    fetcher,
+    { refreshInterval: 2000 }
+  );
+  const activeTimer: ActiveTimer | null = timerData?.contents?.[0]?.text
+    ? JSON.parse(timerData.contents[0].text)
+    : null;
+
+  // The Pomodoro session in progress (or null), shared with AI assistants through the server
+  const { data: focusData } = useSWR<{ contents: [{ text: string }] }>(
+    '/api/mcp/resources/focus',
+    fetcher,
+    { refreshInterval: 2000 }
+  );
+  const focus: FocusStatus | null = focusData?.contents?.[0]?.text
+    ? JSON.parse(focusData.contents[0].text)
+    : null;
+
+  // What undo and redo would revert next, whichever client made the change
+  const { data: historyData } = useSWR<{ contents: [{ text: string }] }>(
+    '/api/mcp/resources/history',
+    fetcher,
+    { refreshInterval: 2000 }
+  );
+  const history: HistoryStatus | null = historyData?.contents?.[0]?.text
+    ? JSON.parse(historyData.contents[0].text)
+    : null;
+
+  const fullSchedule: Schedule = scheduleData?.contents?.[0]?.text 
     ? JSON.parse(scheduleData.contents[0].text)
     : { morning: [], afternoon: [], evening: [], unscheduled: [] };
 
+  // Every task on every day, unfiltered; blockers are looked up here
+  const scheduledTasks = [
+    ...fullSchedule.morning, ...fullSchedule.afternoon, ...fullSchedule.evening, ...fullSchedule.unscheduled
+  ];
+
+  // The project/tag filter applies to both the day boards and the weekly overview
+  const labels = collectLabels(scheduledTasks);
+  const allSchedule: Schedule = {
+    morning: fullSchedule.morning.filter(task => matchesTaskFilter(task, taskFilter)),
+    afternoon: fullSchedule.afternoon.filter(task => matchesTaskFilter(task, taskFilter)),
+    evening: fullSchedule.evening.filter(task => matchesTaskFilter(task, taskFilter)),
+    unscheduled: fullSchedule.unscheduled.filter(task => matchesTaskFilter(task, taskFilter))
+  };
+
   // Filter tasks for the selected date - true day separation
   const selectedDateStr = selectedDate.toISOString().split('T')[0];
   const todayStr = new Date().toISOString().split('T')[0];
+
+  // Today's board pulls overdue tasks from earlier days (and today's tasks past
+  // their due date) into an Overdue section at the top
+  const overdueTasks = selectedDateStr === todayStr
+    ? [...allSchedule.morning, ...allSchedule.afternoon, ...allSchedule.evening, ...allSchedule.unscheduled]
+      .filter(task => isOverdue(task, todayStr) && task.date <= todayStr)
+    : [];
+  const overdueIds = new Set(overdueTasks.map(task => task.id));
   
   const schedule: Schedule = {
     morning: allSchedule.morning.filter(task => {
       // Tasks without date show only on today (for backward compatibility during migration)
       // Tasks with date show only on their specific day
-      return task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr);
+      return (task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr)) && !overdueIds.has(task.id);
     }),
     afternoon: allSchedule.afternoon.filter(task => {
-      return task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr);
+      return (task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr)) && !overdueIds.has(task.id);
     }),
     evening: allSchedule.evening.filter(task => {
-      return task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr);
+      return (task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr)) && !overdueIds.has(task.id);
     }),
     unscheduled: allSchedule.unscheduled.filter(task => {
-      return task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr);
+      return (task.date === selectedDateStr || (!task.date && selectedDateStr === todayStr)) && !overdueIds.has(task.id);
     })
   };
 
-  const handleAddTaskForDate = async (text: string, timeSlot?: string, targetDate?: Date) => {
+  const handleAddTaskForDate = async (
+    text: string,
+    timeSlot?: string,
+    targetDate?: Date,
+    recurrence?: RecurrenceFrequency,
+    priority?: Priority
+  ) => {
     setLoading(true);
     
     try {
       const taskDate = (targetDate || selectedDate).toISOString().split('T')[0];
+      // add_task takes the text as is, so pull "#project", "@tag" and "due friday" out here
+      const labeled = parseTagText(text);
+      const { project, tags } = labeled;
+      const { text: taskText, dueDate } = parseDueText(labeled.text, todayStr);
       
-      if (!timeSlot) { // Smart categorization
+      if (recurrence) { // Repeating tasks start on the selected day
+        setCurrentAction('Calling tool: add_task');
+        await callTool('add_task', {
+          // Recurring tasks can't have a due date, so a "due ..." phrase stays in the text
+          text: labeled.text,
+          date: taskDate,
+          timeSlot: timeSlot,
+          recurrence: recurrence,
+          priority: priority,
+          project: project,
+          tags: tags,
+        });
+      } else if (!timeSlot) { // Smart categorization
         setCurrentAction('Calling tool: smart_add_task');
         await callTool('smart_add_task', {
           text: text,
           date: taskDate,
+          priority: priority,
         });
       } else {
         setCurrentAction('Calling tool: add_task');
         await callTool('add_task', {
-          text: text,
+          text: taskText,
           date: taskDate,
           timeSlot: timeSlot,
+          priority: priority,
+          project: project,
+          tags: tags,
+          dueDate: dueDate,
         });
       }
       
@@ -148,13 +227,35 @@ function DashboardContent() {
     setActiveTab(tabId);
   };
 
+  // Archived tasks open in the archive, the rest on their day's board
+  const handleJumpToTask = (task: Task) => {
+    if (task.archived) {
+      setArchiveDate(task.date);
+      setActiveTab('archive');
+      return;
+    }
+    const date = new Date(`${task.date}T00:00:00`);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const dayIndex = Math.round((date.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    setSelectedDate(date);
+    // Days past the week's tabs still get a board, just no tab
+    setActiveTab(dayIndex >= 0 && dayIndex < 7 ? `day-${dayIndex}` : 'day-search');
+    setTimeout(() => {
+      document.querySelector(`[data-task-id="${task.id}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  };
+
 
-  const handleCompleteTask = async (taskId: string) => {
+  const handleCompleteTask = async (taskId: string, cascade?: boolean) => {
     setLoading(true);
     setCurrentAction('Calling tool: complete_task');
     try {
-      await callTool('complete_task', { taskId });
+      await callTool('complete_task', { taskId, cascade });
       await mutate('/api/mcp/resources/schedule');
+      // Completing the task stops its timer and ends its focus session
+      await mutate('/api/mcp/resources/timer');
+      await mutate('/api/mcp/resources/focus');
     } catch (error) {
       console.error('Failed to complete task:', error);
     } finally {
@@ -163,15 +264,239 @@ function DashboardContent() {
     }
   };
 
-  const handlePlanDay = async () => {
+  const handleStartTimer = async (taskId: string) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: start_timer');
+    try {
+      await callTool('start_timer', { taskId });
+      await mutate('/api/mcp/resources/timer');
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to start timer:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleStopTimer = async () => {
+    setLoading(true);
+    setCurrentAction('Calling tool: stop_timer');
+    try {
+      await callTool('stop_timer');
+      await mutate('/api/mcp/resources/timer');
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to stop timer:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  // Also begins the next work cycle when the task is already in focus
+  const handleStartFocus = async (taskId: string) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: start_focus');
+    try {
+      await callTool('start_focus', { taskId, ...focusSettings });
+      await mutate('/api/mcp/resources/focus');
+    } catch (error) {
+      console.error('Failed to start focus:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  // Other tabs may log the same work phase; the server counts it once
+  const handleLogPomodoro = async (phaseStartedAt: string) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: log_pomodoro');
+    try {
+      await callTool('log_pomodoro', { phaseStartedAt });
+      await mutate('/api/mcp/resources/focus');
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to log pomodoro:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleStopFocus = async () => {
+    setLoading(true);
+    setCurrentAction('Calling tool: stop_focus');
+    try {
+      await callTool('stop_focus');
+      await mutate('/api/mcp/resources/focus');
+    } catch (error) {
+      console.error('Failed to stop focus:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  // An undone change can touch tasks, the timer and the focus session alike
+  const handleUndoOrRedo = async (direction: 'undo' | 'redo') => {
+    setLoading(true);
+    setCurrentAction(`Calling tool: ${direction}`);
+    try {
+      await callTool(direction);
+      await mutate('/api/mcp/resources/schedule');
+      await mutate('/api/mcp/resources/timer');
+      await mutate('/api/mcp/resources/focus');
+      await mutate('/api/mcp/resources/history');
+    } catch (error) {
+      console.error(`Failed to ${direction}:`, error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleAddSubtask = async (taskId: string, text: string, parentSubtaskId?: string) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: add_subtask');
+    try {
+      await callTool('add_subtask', { taskId, text, parentSubtaskId });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to add subtask:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleCompleteSubtask = async (taskId: string, subtaskId: string) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: complete_subtask');
+    try {
+      await callTool('complete_subtask', { taskId, subtaskId });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to complete subtask:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  // A dry run only returns the plan so the board can preview it
+  const handlePlanDay = async (dryRun = false): Promise<DayPlan | null> => {
     setLoading(true);
     setCurrentAction('Calling tool: plan_day');
     try {
       const taskDate = selectedDate.toISOString().split('T')[0];
-      await callTool('plan_day', { date: taskDate });
-      await mutate('/api/mcp/resources/schedule');
+      const result = await callTool('plan_day', { date: taskDate, dryRun });
+      if (!dryRun) {
+        await mutate('/api/mcp/resources/schedule');
+      }
+      return result.structuredContent ?? null;
     } catch (error) {
       console.error('Failed to plan day:', error);
+      return null;
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  // Rethrows so the inline editor can show validation errors next to the task
+  const handleUpdateTask = async (taskId: string, patch: TaskPatch) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: update_task');
+    try {
+      await callTool('update_task', { taskId, ...patch });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to update task:', error);
+      throw error;
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleDeleteTask = async (taskId: string, series?: boolean) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: delete_task');
+    try {
+      await callTool('delete_task', { taskId, series });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to delete task:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleBulkComplete = async (taskIds: string[]) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: bulk_complete');
+    try {
+      await callTool('bulk_complete', { taskIds });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to complete tasks:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleMoveTasks = async (taskIds: string[], date: string, timeSlot: TimeSlot | null) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: move_tasks');
+    try {
+      await callTool('move_tasks', { taskIds, date, timeSlot });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to move tasks:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  const handleArchiveCompleted = async () => {
+    setLoading(true);
+    setCurrentAction('Calling tool: archive_completed');
+    try {
+      await callTool('archive_completed', { date: selectedDateStr });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to archive completed tasks:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
+  // Saves the journal entry, then rolls the chosen tasks to the next day.
+  // Rethrows so the review stays open and says which step failed
+  const handleSaveReview = async (date: string, { rollForwardIds, ...entry }: DayReviewChanges) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: save_journal');
+    try {
+      await callTool('save_journal', { date, ...entry });
+      await mutate(`/api/mcp/resources/journal:/${date}`);
+      if (rollForwardIds.length > 0) {
+        setCurrentAction('Calling tool: roll_forward');
+        try {
+          await callTool('roll_forward', { date, taskIds: rollForwardIds });
+        } catch (error) {
+          throw new Error(`The journal was saved, but the tasks were not rolled forward: ${error instanceof Error ? error.message : error}`);
+        }
+        await mutate('/api/mcp/resources/schedule');
+      }
+    } catch (error) {
+      console.error('Failed to save the day review:', error);
+      throw error;
     } finally {
       setLoading(false);
       setCurrentAction('');
@@ -192,6 +517,20 @@ function DashboardContent() {
     }
   };
 
+  const handleUnarchiveTask = async (taskId: string) => {
+    setLoading(true);
+    setCurrentAction('Calling tool: unarchive_task');
+    try {
+      await callTool('unarchive_task', { taskId });
+      await mutate('/api/mcp/resources/schedule');
+    } catch (error) {
+      console.error('Failed to unarchive task:', error);
+    } finally {
+      setLoading(false);
+      setCurrentAction('');
+    }
+  };
+
 
   useEffect(() => {
     if (scheduleData) {
@@ -271,6 +610,8 @@ function DashboardContent() {
               </span>
             </h2>
             
+            <SearchBox onSelectTask={handleJumpToTask} />
+
             <DaySelector 
               selectedDate={selectedDate} 
               onDateChange={setSelectedDate}
@@ -279,10 +620,25 @@ function DashboardContent() {
             />
           </div>
           
+          {focus && (
+            <FocusMode
+              focus={focus}
+              settings={focusSettings}
+              onSettingsChange={setFocusSettings}
+              onNextCycle={() => handleStartFocus(focus.taskId)}
+              onLogPomodoro={handleLogPomodoro}
+              onStopFocus={handleStopFocus}
+              loading={loading}
+            />
+          )}
+
           <div style={{ flex: 1, overflow: 'hidden' }}>
             {activeTab === 'overview' ? (
               <WeeklyOverview 
                 allSchedule={allSchedule}
+                labels={labels}
+                filter={taskFilter}
+                onFilterChange={setTaskFilter}
                 onDateSelect={(date) => {
                   setSelectedDate(date);
                   const today = new Date();
@@ -291,14 +647,39 @@ function DashboardContent() {
                   setActiveTab(`day-${dayIndex}`);
                 }}
               />
+            ) : activeTab === 'insights' ? (
+              <InsightsView />
+            ) : activeTab === 'archive' ? (
+              <ArchiveView date={archiveDate} onUnarchive={handleUnarchiveTask} loading={loading} />
             ) : (
               <DayBoard
                 date={selectedDate}
                 schedule={schedule}
-                onAddTask={handleAddTaskForDate}
+                overdue={overdueTasks}
+                onAddTask={(text, timeSlot, recurrence, priority) => handleAddTaskForDate(text, timeSlot, undefined, recurrence, priority)}
                 onCompleteTask={handleCompleteTask}
                 onArchiveTask={handleArchiveTask}
+                onUpdateTask={handleUpdateTask}
+                onDeleteTask={handleDeleteTask}
+                onAddSubtask={handleAddSubtask}
+                onCompleteSubtask={handleCompleteSubtask}
+                onBulkComplete={handleBulkComplete}
+                onMoveTasks={handleMoveTasks}
+                onArchiveCompleted={handleArchiveCompleted}
                 onPlanDay={handlePlanDay}
+                onReviewDay={() => setReviewDate(selectedDateStr)}
+                scheduledTasks={scheduledTasks}
+                activeTimer={activeTimer}
+                onStartTimer={handleStartTimer}
+                onStopTimer={handleStopTimer}
+                focusTaskId={focus?.taskId ?? null}
+                onStartFocus={handleStartFocus}
+                history={history}
+                onUndo={() => handleUndoOrRedo('undo')}
+                onRedo={() => handleUndoOrRedo('redo')}
+                labels={labels}
+                filter={taskFilter}
+                onFilterChange={setTaskFilter}
                 loading={loading}
               />
             )}
@@ -316,6 +697,7 @@ function DashboardContent() {
               currentAction={currentAction} 
               setCurrentAction={setCurrentAction} 
               schedule={schedule}
+              selectedDate={selectedDateStr}
               onScheduleUpdate={() => mutate('/api/mcp/resources/schedule')}
               onNavigateToDay={handleNavigateToDay}
             />
@@ -353,6 +735,12 @@ function DashboardContent() {
         </div>
       )}
 
+      <DayReviewModal
+        date={reviewDate}
+        onSave={handleSaveReview}
+        onClose={() => setReviewDate(null)}
+        loading={loading}
+      />
       <TourOverlay />
       <TimedWelcomeModal 
         intervalDays={3}
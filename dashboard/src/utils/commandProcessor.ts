@@ -1,9 +1,19 @@
+import { parseTimeText, parsePriorityText, parseTagText, parseDueText } from 'planner-core/browser';
+import type { Priority } from 'planner-core';
+
 interface TaskCommand {
   action: 'add-task';
   taskText: string;
   day?: string;
   timeSlot?: 'morning' | 'afternoon' | 'evening';
   date?: Date;
+  startTime?: string; // HH:MM, 24-hour
+  endTime?: string;
+  durationMinutes?: number;
+  priority?: Priority;
+  project?: string;
+  tags?: string[];
+  dueDate?: string; // YYYY-MM-DD
 }
 
 interface CommandResult {
@@ -30,16 +40,28 @@ export const parseTaskCommand = (input: string): CommandResult => {
       const dayTimeSpec = match[1];
       const taskText = match[2];
       
-      const { day, timeSlot, date } = parseDayTimeSpec(dayTimeSpec);
+      const { day, timeSlot, date, startTime, endTime, durationMinutes } = parseDayTimeSpec(dayTimeSpec);
+      // Times in the task text ("call bob at 3pm") win over the day part
+      const parsedText = parseTimeText(taskText.trim());
+      const { text: untaggedText, project, tags } = parseTagText(parsedText.text);
+      const { text: undatedText, dueDate } = parseDueText(untaggedText, new Date().toISOString().split('T')[0]);
+      const { text, priority } = parsePriorityText(undatedText);
       
       return {
         success: true,
         command: {
           action: 'add-task',
-          taskText: taskText.trim(),
+          taskText: text,
           day,
           timeSlot,
-          date
+          date,
+          startTime: parsedText.startTime || startTime,
+          endTime: parsedText.startTime ? parsedText.endTime : endTime,
+          durationMinutes: parsedText.durationMinutes || durationMinutes,
+          priority,
+          project,
+          tags,
+          dueDate
         }
       };
     }
@@ -129,7 +151,10 @@ const parseDayTimeSpec = (spec: string) => {
     }
   }
 
-  return { day, timeSlot, date: targetDate };
+  // Clock times like "monday 3pm" or "friday 9-10am"
+  const { startTime, endTime, durationMinutes } = parseTimeText(normalizedSpec);
+
+  return { day, timeSlot, date: targetDate, startTime, endTime, durationMinutes };
 };
 
 export const getTabForDate = (date: Date): string => {
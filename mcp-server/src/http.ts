@@ -0,0 +1,245 @@
+import http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { PlannerCore, createPlannerServer } from 'planner-core';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Streamable HTTP sessions without a request for this long are closed
+  sessionIdleMinutes?: number;
+  // Hostnames (no port) the Host and Origin headers may name besides loopback
+  // and `host` (unless that is a wildcard like 0.0.0.0); anything else is
+  // refused, so a web page can't reach the server through DNS rebinding
+  allowedHosts?: string[];
+  // Required as `Authorization: Bearer <token>` when set; binding to anything
+  // but loopback without one is refused
+  token?: string;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_SESSION_IDLE_MINUTES = 30;
+const SESSION_SWEEP_MS = 60 * 1000;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+// Bind addresses that mean every interface, so they name no host
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+const isLoopback = (host: string): boolean => LOOPBACK_HOSTS.includes(host) || host === '::1';
+
+// The hostname of a Host or Origin header, without its port
+function headerHostname(value: string, withScheme: boolean): string | null {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
+
+/**
+ * Why a request may not reach the planner, or null when it may: the Host and
+ * Origin headers have to name an allowed host, and the bearer token has to
+ * match when one is set
+ */
+function rejectRequest(req: http.IncomingMessage, allowedHosts: string[], token: string | undefined): { status: number; message: string } | null {
+  const host = req.headers.host ? headerHostname(req.headers.host, false) : null;
+  if (!host || !allowedHosts.includes(host)) {
+    return { status: 403, message: `Invalid Host header: ${req.headers.host ?? '(none)'}` };
+  }
+  // Browsers send an Origin; other clients usually don't
+  const origin = req.headers.origin;
+  if (origin && !allowedHosts.includes(headerHostname(origin, true) ?? '')) {
+    return { status: 403, message: `Invalid Origin header: ${origin}` };
+  }
+  if (token) {
+    const given = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '');
+    const expected = Buffer.from(token);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return { status: 401, message: 'Missing or invalid bearer token' };
+    }
+  }
+  return null;
+}
+
+/**
+ * Serves the planner over HTTP so several clients can share one long-running
+ * instance (and one store).
+ *
+ * - `/mcp` speaks Streamable HTTP: POST for requests, GET for the
+ *   server-to-client stream and DELETE to end a session.
+ * - `/sse` + `/messages` speak the older HTTP+SSE transport for clients that
+ *   have not moved to Streamable HTTP yet.
+ *
+ * Every session gets its own MCP `Server`, but they all share the same
+ * PlannerCore, so writes from one client are visible to the others.
+ *
+ * Sessions leave the maps when they close: SSE ones when their stream
+ * drops, Streamable HTTP ones on DELETE or, since a client can vanish
+ * without one, once idle for `sessionIdleMinutes`.
+ *
+ * Every request has to come through an allowed host name (loopback by
+ * default) and carry the token when one is set. Every tool can write, so a
+ * server on a network interface needs a token.
+ */
+export function startHttpServer(core: PlannerCore, options: HttpServerOptions): Promise<http.Server> {
+  if (!isLoopback(options.host) && !options.token) {
+    return Promise.reject(new Error(`Refusing to serve on ${options.host} without a token: set MCP_HTTP_TOKEN, or bind to 127.0.0.1`));
+  }
+  const boundHost = WILDCARD_HOSTS.includes(options.host) ? [] : [options.host.includes(':') ? `[${options.host}]` : options.host];
+  const allowedHosts = [...LOOPBACK_HOSTS, ...boundHost, ...(options.allowedHosts || [])];
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  // When each Streamable HTTP session was last used, and the ones with a GET stream open
+  const lastSeen = new Map<string, number>();
+  const openStreams = new Set<string>();
+  const idleMs = (options.sessionIdleMinutes ?? DEFAULT_SESSION_IDLE_MINUTES) * 60 * 1000;
+
+  const sweepIdleSessions = () => {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, transport] of streamableTransports) {
+      if (!openStreams.has(id) && (lastSeen.get(id) ?? 0) < cutoff) {
+        // onclose drops it from the maps
+        transport.close().catch(error => console.error('Failed to close idle MCP session:', error));
+      }
+    }
+  };
+  const sweepTimer = setInterval(sweepIdleSessions, SESSION_SWEEP_MS);
+  sweepTimer.unref();
+
+  const handleStreamable = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    let transport = sessionId ? streamableTransports.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId) {
+        return sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      }
+      if (req.method !== 'POST' || !isInitializeRequest(body)) {
+        return sendJsonRpcError(res, 400, 'No session ID provided and request is not an initialize request');
+      }
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          streamableTransports.set(id, newTransport);
+          lastSeen.set(id, Date.now());
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          streamableTransports.delete(newTransport.sessionId);
+          lastSeen.delete(newTransport.sessionId);
+          openStreams.delete(newTransport.sessionId);
+        }
+      };
+      await createPlannerServer(core).connect(newTransport);
+      transport = newTransport;
+    } else if (sessionId) {
+      lastSeen.set(sessionId, Date.now());
+      // A client listening on the GET stream is still there, however quiet
+      if (req.method === 'GET') {
+        openStreams.add(sessionId);
+        res.on('close', () => {
+          openStreams.delete(sessionId);
+          if (streamableTransports.has(sessionId)) {
+            lastSeen.set(sessionId, Date.now());
+          }
+        });
+      }
+    }
+
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: http.ServerResponse) => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+    });
+    await createPlannerServer(core).connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      return sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const rejection = rejectRequest(req, allowedHosts, options.token);
+    if (rejection) {
+      return sendJsonRpcError(res, rejection.status, rejection.message);
+    }
+
+    try {
+      if (url.pathname === '/mcp' && ['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+        return await handleStreamable(req, res);
+      }
+      if (url.pathname === '/sse' && req.method === 'GET') {
+        return await handleSseStream(res);
+      }
+      if (url.pathname === '/messages' && req.method === 'POST') {
+        return await handleSseMessage(req, res, url);
+      }
+      if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({
+          status: 'ok',
+          sessions: streamableTransports.size + sseTransports.size,
+        }));
+      }
+
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+    } catch (error) {
+      console.error('MCP HTTP error:', error);
+      if (!res.headersSent) {
+        const message = error instanceof SyntaxError
+          ? 'Parse error: request body is not valid JSON'
+          : error instanceof Error ? error.message : 'Internal server error';
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+      }
+    }
+  });
+
+  httpServer.on('close', () => clearInterval(sweepTimer));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve(httpServer);
+    });
+  });
+}
@@ -0,0 +1,166 @@
+import { PlanCalendar, Task, TimeSlot } from './types';
+import { getAllTasks } from './calendar';
+import { addDays } from './recurrence';
+
+/**
+ * One day of work. `planned` counts the tasks planned for the day when it
+ * ended: the ones still on it plus the ones rolled over to a later day
+ * (`carriedOver`), which count as not done.
+ */
+export interface DayStats {
+  date: string;
+  planned: number;
+  completed: number;
+  carriedOver: number;
+  // completed / planned, or null for a day without tasks
+  rate: number | null;
+}
+
+export interface WeekStats {
+  weekStart: string; // Monday
+  planned: number;
+  completed: number;
+  carriedOver: number;
+  rate: number | null;
+}
+
+export interface SlotStats {
+  slot: TimeSlot | 'unscheduled';
+  planned: number;
+  completed: number;
+  rate: number | null;
+}
+
+export interface Streaks {
+  // Days in a row with a completed task, up to today (or yesterday while today has none yet)
+  current: number;
+  longest: number;
+  longestEnd: string | null;
+}
+
+export interface Analytics {
+  from: string;
+  to: string;
+  totals: { planned: number; completed: number; carriedOver: number; rate: number | null };
+  // Per day with any task planned, so empty days don't drag the average down
+  averagePerDay: { planned: number; completed: number; activeDays: number };
+  days: DayStats[];
+  weeks: WeekStats[];
+  slots: SlotStats[];
+  streaks: Streaks;
+}
+
+// The `analytics` resource covers a year, enough for the heatmap
+export const ANALYTICS_DAYS = 365;
+const MAX_ANALYTICS_DAYS = 366 * 5;
+const SLOTS: SlotStats['slot'][] = ['morning', 'afternoon', 'evening', 'unscheduled'];
+
+const rate = (completed: number, planned: number): number | null =>
+  planned > 0 ? Math.round((completed / planned) * 1000) / 1000 : null;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+// Monday of the date's week; dates are UTC like the rest of the planner
+const weekStartOf = (date: string): string => addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+
+/**
+ * Validate an analytics date range
+ */
+export function assertAnalyticsRange(from: string, to: string): void {
+  if (from > to) {
+    throw new Error(`Invalid analytics range: ${from} is after ${to}`);
+  }
+  if (addDays(from, MAX_ANALYTICS_DAYS) < to) {
+    throw new Error(`Invalid analytics range: at most ${MAX_ANALYTICS_DAYS} days at a time`);
+  }
+}
+
+function countStreaks(days: DayStats[], today: string): Streaks {
+  let run = 0;
+  const streaks: Streaks = { current: 0, longest: 0, longestEnd: null };
+  for (const day of days.filter(d => d.date <= today)) {
+    run = day.completed > 0 ? run + 1 : 0;
+    if (run > streaks.longest) {
+      streaks.longest = run;
+      streaks.longestEnd = day.date;
+    }
+    // Today isn't over, so a streak still counts while it has nothing done yet
+    if (day.date < today || day.completed > 0) {
+      streaks.current = run;
+    }
+  }
+  return streaks;
+}
+
+/**
+ * Completion per day, week and slot between `from` and `to` (inclusive),
+ * plus streaks and carry-over. Saved tasks count, archived ones included;
+ * carry-over comes from the rollover log.
+ */
+export function buildAnalytics(calendar: PlanCalendar, from: string, to: string, today: string): Analytics {
+  assertAnalyticsRange(from, to);
+  const byDate = new Map<string, DayStats>();
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    byDate.set(date, { date, planned: 0, completed: 0, carriedOver: 0, rate: null });
+  }
+
+  const tasks: Task[] = getAllTasks(calendar).filter(t => byDate.has(t.date));
+  for (const task of tasks) {
+    const day = byDate.get(task.date)!;
+    day.planned += 1;
+    day.completed += task.completed ? 1 : 0;
+  }
+  for (const record of calendar.rollovers || []) {
+    for (const moved of record.tasks) {
+      const day = byDate.get(moved.from);
+      if (day) {
+        day.planned += 1;
+        day.carriedOver += 1;
+      }
+    }
+  }
+
+  const days = [...byDate.values()];
+  const weeks = new Map<string, WeekStats>();
+  for (const day of days) {
+    day.rate = rate(day.completed, day.planned);
+    const weekStart = weekStartOf(day.date);
+    const week = weeks.get(weekStart) ?? { weekStart, planned: 0, completed: 0, carriedOver: 0, rate: null };
+    week.planned += day.planned;
+    week.completed += day.completed;
+    week.carriedOver += day.carriedOver;
+    weeks.set(weekStart, week);
+  }
+  weeks.forEach(week => {
+    week.rate = rate(week.completed, week.planned);
+  });
+
+  const slots = SLOTS.map((slot): SlotStats => {
+    const inSlot = tasks.filter(t => (t.timeSlot || 'unscheduled') === slot);
+    const completed = inSlot.filter(t => t.completed).length;
+    return { slot, planned: inSlot.length, completed, rate: rate(completed, inSlot.length) };
+  });
+
+  const planned = days.reduce((sum, day) => sum + day.planned, 0);
+  const completed = days.reduce((sum, day) => sum + day.completed, 0);
+  const activeDays = days.filter(day => day.planned > 0).length;
+  return {
+    from,
+    to,
+    totals: {
+      planned,
+      completed,
+      carriedOver: days.reduce((sum, day) => sum + day.carriedOver, 0),
+      rate: rate(completed, planned),
+    },
+    averagePerDay: {
+      planned: activeDays > 0 ? round(planned / activeDays) : 0,
+      completed: activeDays > 0 ? round(completed / activeDays) : 0,
+      activeDays,
+    },
+    days,
+    weeks: [...weeks.values()],
+    slots,
+    streaks: countStreaks(days, today),
+  };
+}
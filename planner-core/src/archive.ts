@@ -0,0 +1,138 @@
+import { ArchiveRetention, PlanCalendar, Task } from './types';
+import { getAllTasks, removeTask } from './calendar';
+import { addDays } from './recurrence';
+
+/**
+ * One page of archived tasks, most recently planned first
+ */
+export interface ArchivePage {
+  from: string | null;
+  to: string | null;
+  page: number;
+  pageSize: number;
+  pages: number;
+  total: number;
+  tasks: Task[];
+}
+
+export interface RetentionResult {
+  compacted: Task[];
+  purged: Task[];
+}
+
+export const ARCHIVE_PAGE_SIZE = 50;
+const RETENTION_ACTIONS = ['compact', 'purge'] as const;
+const MAX_RETENTION_DAYS = 36500;
+
+/**
+ * Parse "compact:30,purge:365" (either part may be left out) or "off"
+ */
+export function parseArchiveRetention(value: unknown): ArchiveRetention {
+  if (typeof value !== 'string') {
+    throw new Error('Invalid archive retention: expected something like "compact:30,purge:365" or "off"');
+  }
+  const retention: ArchiveRetention = {};
+  if (value.trim() === 'off') {
+    return retention;
+  }
+  for (const part of value.split(',').filter(p => p.trim())) {
+    const [action, days] = part.split(':').map(s => s.trim());
+    const parsed = Number(days);
+    if (!RETENTION_ACTIONS.includes(action as typeof RETENTION_ACTIONS[number])) {
+      throw new Error(`Invalid archive retention: unknown action "${action}" (expected ${RETENTION_ACTIONS.join(' or ')})`);
+    }
+    if (!days || !Number.isInteger(parsed) || parsed < 1 || parsed > MAX_RETENTION_DAYS) {
+      throw new Error(`Invalid archive retention for ${action}: expected whole days between 1 and ${MAX_RETENTION_DAYS}`);
+    }
+    retention[action === 'compact' ? 'compactAfterDays' : 'purgeAfterDays'] = parsed;
+  }
+  if (retention.compactAfterDays && retention.purgeAfterDays && retention.compactAfterDays >= retention.purgeAfterDays) {
+    throw new Error('Invalid archive retention: compact has to come before purge');
+  }
+  return retention;
+}
+
+/**
+ * Read `PLANNER_ARCHIVE_RETENTION`; archived tasks are kept as they are by default
+ */
+export function archiveRetentionFromEnv(env: Record<string, string | undefined>): ArchiveRetention {
+  return env.PLANNER_ARCHIVE_RETENTION ? parseArchiveRetention(env.PLANNER_ARCHIVE_RETENTION) : {};
+}
+
+// "compact after 30 days, purge after 365 days"
+export function describeArchiveRetention(retention: ArchiveRetention): string {
+  const parts = [
+    retention.compactAfterDays && `compact after ${retention.compactAfterDays} days`,
+    retention.purgeAfterDays && `purge after ${retention.purgeAfterDays} days`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'keep archived tasks';
+}
+
+// Tasks archived before timestamps were recorded count from their day
+const archivedOn = (task: Task): string => task.archivedAt?.slice(0, 10) ?? task.date;
+
+/**
+ * Archived tasks planned between `from` and `to` (inclusive, either may be
+ * null), most recently planned first, cut into pages
+ */
+export function pageArchive(tasks: Task[], from: string | null, to: string | null, page: number): ArchivePage {
+  const archived = tasks
+    .filter(t => t.archived && (!from || t.date >= from) && (!to || t.date <= to))
+    .sort((a, b) => b.date.localeCompare(a.date) || (b.archivedAt || '').localeCompare(a.archivedAt || ''));
+  const pages = Math.max(1, Math.ceil(archived.length / ARCHIVE_PAGE_SIZE));
+  if (page > pages) {
+    throw new Error(`Archive page ${page} does not exist; there ${pages === 1 ? 'is 1 page' : `are ${pages} pages`}`);
+  }
+  return {
+    from,
+    to,
+    page,
+    pageSize: ARCHIVE_PAGE_SIZE,
+    pages,
+    total: archived.length,
+    tasks: archived.slice((page - 1) * ARCHIVE_PAGE_SIZE, page * ARCHIVE_PAGE_SIZE),
+  };
+}
+
+/**
+ * Drop what an old archived task no longer needs: its checklist, time
+ * entries, pomodoros and blockers
+ */
+function compactTask(task: Task): void {
+  delete task.subtasks;
+  delete task.timeEntries;
+  delete task.pomodoros;
+  delete task.blockedBy;
+  task.compacted = true;
+}
+
+/**
+ * Compact and purge archived tasks by how long ago they were archived
+ */
+export function applyRetention(calendar: PlanCalendar, today: string, retention: ArchiveRetention): RetentionResult {
+  calendar.lastRetentionDate = today;
+  const result: RetentionResult = { compacted: [], purged: [] };
+  const olderThan = (task: Task, days: number | undefined) => days !== undefined && archivedOn(task) < addDays(today, -days);
+
+  for (const task of getAllTasks(calendar).filter(t => t.archived)) {
+    if (olderThan(task, retention.purgeAfterDays)) {
+      removeTask(calendar, task);
+      result.purged.push(task);
+    } else if (!task.compacted && olderThan(task, retention.compactAfterDays)) {
+      compactTask(task);
+      result.compacted.push(task);
+    }
+  }
+
+  // Nothing waits on a purged task any more
+  const purgedIds = new Set(result.purged.map(t => t.id));
+  for (const task of purgedIds.size > 0 ? getAllTasks(calendar) : []) {
+    if (task.blockedBy?.some(id => purgedIds.has(id))) {
+      task.blockedBy = task.blockedBy.filter(id => !purgedIds.has(id));
+      if (task.blockedBy.length === 0) {
+        delete task.blockedBy;
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,16 @@
+// The dashboard's entry point, `planner-core/browser`: the helpers that are
+// safe to bundle for the browser. The package root also pulls in the
+// node-only storage drivers and the MCP server, so these modules import
+// nothing at runtime (only types).
+export * from './types';
+export * from './times';
+export * from './priority';
+export * from './tags';
+export * from './subtasks';
+export * from './dependencies';
+export * from './deadlines';
+export * from './journal';
+export * from './timeTracking';
+export * from './focus';
+export * from './refs';
+export * from './search';
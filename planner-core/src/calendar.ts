@@ -0,0 +1,141 @@
+import { randomUUID } from 'crypto';
+import { DailyPlan, PlanCalendar, Schedule, Task } from './types';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { createInstance, occursOn, parseInstanceId } from './recurrence';
+import { indexTasks, isActionable } from './dependencies';
+import { parseTaskRef } from './refs';
+
+/**
+ * A new task or series ID, unique across processes and clients
+ */
+export const createTaskId = (): string => randomUUID();
+
+export const createEmptyCalendar = (): PlanCalendar => ({ schemaVersion: CURRENT_SCHEMA_VERSION, plans: {} });
+
+/**
+ * Get the plan for a date, creating an empty one if the day has none yet
+ */
+export function getPlan(calendar: PlanCalendar, date: string): DailyPlan {
+  if (!calendar.plans[date]) {
+    calendar.plans[date] = { date, tasks: [] };
+  }
+  return calendar.plans[date];
+}
+
+export function getAllTasks(calendar: PlanCalendar): Task[] {
+  return Object.keys(calendar.plans)
+    .sort()
+    .flatMap(date => calendar.plans[date].tasks);
+}
+
+/**
+ * Find a task by ID or by its "#42" handle. A generated instance of a
+ * recurring task is saved into its day's plan on first lookup, so callers can
+ * change it like any other task.
+ */
+export function findTask(calendar: PlanCalendar, taskId: string): Task {
+  const ref = parseTaskRef(taskId);
+  const task = ref !== null
+    ? getAllTasks(calendar).find(t => t.ref === ref)
+    : getAllTasks(calendar).find(t => t.id === taskId) || materializeInstance(calendar, taskId);
+  if (!task) {
+    throw new Error(`Task not found: ${taskId}`);
+  }
+  return task;
+}
+
+/**
+ * Instances of recurring tasks due on a date that are not saved yet. Saved
+ * instances (completed, edited or moved elsewhere) replace generated ones.
+ */
+export function getRecurringInstances(calendar: PlanCalendar, date: string, savedIds?: Set<string>): Task[] {
+  const series = Object.values(calendar.recurring || {});
+  if (series.length === 0) {
+    return [];
+  }
+  const existing = savedIds || new Set(getAllTasks(calendar).map(t => t.id));
+  return series
+    .filter(s => occursOn(s, date))
+    .map(s => createInstance(s, date))
+    .filter(instance => !existing.has(instance.id));
+}
+
+/**
+ * A day's saved tasks plus its generated recurring instances
+ */
+export function getTasksForDate(calendar: PlanCalendar, date: string): Task[] {
+  return [...(calendar.plans[date]?.tasks || []), ...getRecurringInstances(calendar, date)];
+}
+
+/**
+ * Save every generated instance for a date into its plan
+ */
+export function materializeInstances(calendar: PlanCalendar, date: string): Task[] {
+  const instances = getRecurringInstances(calendar, date);
+  if (instances.length > 0) {
+    getPlan(calendar, date).tasks.push(...instances);
+  }
+  return instances;
+}
+
+function materializeInstance(calendar: PlanCalendar, taskId: string): Task | undefined {
+  const parsed = parseInstanceId(taskId);
+  const series = parsed && calendar.recurring?.[parsed.seriesId];
+  if (!parsed || !series || !occursOn(series, parsed.date)) {
+    return undefined;
+  }
+  const instance = createInstance(series, parsed.date);
+  getPlan(calendar, parsed.date).tasks.push(instance);
+  return instance;
+}
+
+/**
+ * Move a task to another day's plan, appending it to that day's tasks
+ */
+export function moveTask(calendar: PlanCalendar, task: Task, date: string): void {
+  if (task.date === date) {
+    return;
+  }
+  removeTask(calendar, task);
+  task.date = date;
+  getPlan(calendar, date).tasks.push(task);
+}
+
+export function removeTask(calendar: PlanCalendar, task: Task): void {
+  const plan = calendar.plans[task.date];
+  if (plan) {
+    plan.tasks = plan.tasks.filter(t => t.id !== task.id);
+  }
+}
+
+// Timed tasks first, by start time; untimed tasks keep their order
+const byStartTime = (a: Task, b: Task): number =>
+  (a.startTime || '99:99').localeCompare(b.startTime || '99:99');
+
+/**
+ * Group active (non-archived) tasks by time slot. Blockers are looked up in
+ * `allTasks`, which should cover other days as well.
+ */
+export function buildSchedule(tasks: Task[], allTasks: Task[] = tasks): Schedule {
+  const activeTasks = tasks.filter(t => !t.archived).sort(byStartTime);
+  const tasksById = indexTasks([...allTasks, ...tasks]);
+  return {
+    morning: activeTasks.filter(t => t.timeSlot === 'morning'),
+    afternoon: activeTasks.filter(t => t.timeSlot === 'afternoon'),
+    evening: activeTasks.filter(t => t.timeSlot === 'evening'),
+    unscheduled: activeTasks.filter(t => !t.timeSlot),
+    actionable: activeTasks.filter(t => isActionable(t, tasksById)).map(t => t.id),
+  };
+}
+
+/**
+ * Drop days that no longer hold any tasks
+ */
+export function pruneEmptyPlans(calendar: PlanCalendar): PlanCalendar {
+  for (const [date, plan] of Object.entries(calendar.plans)) {
+    if (plan.tasks.length === 0) {
+      delete calendar.plans[date];
+    }
+  }
+  return calendar;
+}
@@ -0,0 +1,145 @@
+import { TimeSlot } from './types';
+import { DEFAULT_SLOT_BOUNDARIES, SlotBoundaries, TaskTimes, parseTimeText, slotForTime } from './times';
+
+export interface DayCommand extends TaskTimes {
+  taskText: string;
+  date?: string;
+  timeSlot?: TimeSlot;
+}
+
+export function categorizeTask(text: string, boundaries: SlotBoundaries = DEFAULT_SLOT_BOUNDARIES): TimeSlot | undefined {
+  const lowerText = text.toLowerCase();
+
+  // An explicit clock time ("at 7am", "2-3pm") decides the slot on its own
+  const { startTime } = parseTimeText(text);
+  if (startTime) {
+    return slotForTime(startTime, boundaries);
+  }
+
+  // Check for explicit lunch mention first
+  if (lowerText.includes('lunch')) {
+    return 'afternoon';
+  }
+
+  // Morning keywords and patterns
+  const morningKeywords = [
+    'breakfast', 'coffee', 'morning', 'wake up', 'shower', 'exercise', 'gym',
+    'jog', 'run', 'meditation', 'yoga', 'check email', 'review', 'plan day',
+    'morning routine', 'get ready', 'commute', 'early', 'dawn', 'sunrise'
+  ];
+
+  // Afternoon keywords and patterns
+  const afternoonKeywords = [
+    'lunch', 'meeting', 'work', 'call', 'appointment', 'errands', 'shopping',
+    'grocery', 'bank', 'office', 'project', 'deadline', 'presentation',
+    'conference', 'interview', 'doctor', 'dentist', 'pickup', 'drop off'
+  ];
+
+  // Evening keywords and patterns
+  const eveningKeywords = [
+    'dinner', 'cook', 'evening', 'night', 'after work', 'relax', 'unwind',
+    'watch', 'movie', 'tv', 'read', 'book', 'family time', 'date',
+    'friends', 'bar', 'restaurant', 'late', 'sunset', 'bedtime', 'sleep'
+  ];
+
+  // Check for time-specific patterns (e.g., "at 7am", "in the morning")
+  if (lowerText.includes('am') || lowerText.includes('morning') || 
+      lowerText.match(/\b[6-9]\s*(:|am|\s*am)/)) {
+    return 'morning';
+  }
+
+  if (lowerText.includes('pm') && (lowerText.includes('6') || lowerText.includes('7') || 
+      lowerText.includes('8') || lowerText.includes('9') || lowerText.includes('10'))) {
+    return 'evening';
+  }
+
+  if (lowerText.includes('evening') || lowerText.includes('night') || 
+      lowerText.includes('tonight')) {
+    return 'evening';
+  }
+
+  // Count keyword matches for each time slot
+  const morningScore = morningKeywords.filter(keyword => lowerText.includes(keyword)).length;
+  const afternoonScore = afternoonKeywords.filter(keyword => lowerText.includes(keyword)).length;
+  const eveningScore = eveningKeywords.filter(keyword => lowerText.includes(keyword)).length;
+
+  // Return the time slot with the highest score, or undefined if all scores are 0
+  if (morningScore === 0 && afternoonScore === 0 && eveningScore === 0) {
+    return undefined;
+  }
+
+  if (morningScore >= afternoonScore && morningScore >= eveningScore) {
+    return 'morning';
+  } else if (afternoonScore >= eveningScore) {
+    return 'afternoon';
+  } else {
+    return 'evening';
+  }
+}
+/**
+ * Parse commands like "add task for monday morning: wash dishes" into
+ * the task text, the date of the next matching weekday and a time slot.
+ * Clock times in the day part ("monday 3pm", "friday 9-10am") are kept too.
+ */
+export function parseDayCommand(text: string): DayCommand | null {
+  const normalizedInput = text.toLowerCase().trim();
+  const addTaskPatterns = [
+    /^add task for (.+?):\s*(.+)$/,
+    /^task for (.+?):\s*(.+)$/,
+    /^(.+?) task:\s*(.+)$/
+  ];
+
+  for (const pattern of addTaskPatterns) {
+    const match = normalizedInput.match(pattern);
+    if (!match) continue;
+
+    const dayTimeSpec = match[1];
+    const result: DayCommand = {
+      taskText: match[2].trim(),
+    };
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const todayDayOfWeek = today.getDay();
+
+    const dayPatterns = {
+      'monday': 1, 'tuesday': 2, 'wednesday': 3, 'thursday': 4, 'friday': 5, 'saturday': 6, 'sunday': 0,
+      'mon': 1, 'tue': 2, 'wed': 3, 'thu': 4, 'fri': 5, 'sat': 6, 'sun': 0
+    };
+
+    if (dayTimeSpec.includes('tomorrow')) {
+      const targetDate = new Date(today);
+      targetDate.setDate(today.getDate() + 1);
+      result.date = targetDate.toISOString().split('T')[0];
+    } else if (!dayTimeSpec.includes('today')) {
+      for (const [dayName, dayOfWeek] of Object.entries(dayPatterns)) {
+        if (dayTimeSpec.includes(dayName)) {
+          let daysUntilTarget = dayOfWeek - todayDayOfWeek;
+          if (daysUntilTarget <= 0) {
+            daysUntilTarget += 7; // Next week
+          }
+
+          const targetDate = new Date(today);
+          targetDate.setDate(today.getDate() + daysUntilTarget);
+          result.date = targetDate.toISOString().split('T')[0];
+          break;
+        }
+      }
+    }
+
+    const { startTime, endTime, durationMinutes } = parseTimeText(dayTimeSpec);
+    Object.assign(result, startTime && { startTime }, endTime && { endTime }, durationMinutes && { durationMinutes });
+
+    if (dayTimeSpec.includes('morning') || dayTimeSpec.includes('am')) {
+      result.timeSlot = 'morning';
+    } else if (dayTimeSpec.includes('afternoon') || dayTimeSpec.includes('pm')) {
+      result.timeSlot = 'afternoon';
+    } else if (dayTimeSpec.includes('evening') || dayTimeSpec.includes('night')) {
+      result.timeSlot = 'evening';
+    }
+
+    return result;
+  }
+
+  return null;
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const getToday = (): string => new Date().toISOString().split('T')[0];
+
+/**
+ * Validate a YYYY-MM-DD date argument, falling back to today when it is omitted
+ */
+export function parseDateArg(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return getToday();
+  }
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`Invalid date: ${value}. Expected YYYY-MM-DD`);
+  }
+  return value;
+}
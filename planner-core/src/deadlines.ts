@@ -0,0 +1,58 @@
+import type { Task } from './types';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+// "due friday", "by tomorrow", "due on 2025-03-01"
+const DUE_IN_TEXT = /(^|\s)(?:due|by)\s+(?:on\s+)?(today|tonight|tomorrow|(?:mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?|sun)(?:day)?|\d{4}-\d{2}-\d{2})\b/i;
+
+const shiftDate = (date: string, days: number): string => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split('T')[0];
+};
+
+/**
+ * An open task is overdue once its due date has passed. Without a due date,
+ * a one-off task is overdue once the day it was planned for has passed;
+ * missed occurrences of recurring tasks are not.
+ */
+export function isOverdue(task: Task, today: string): boolean {
+  if (task.completed || task.archived) {
+    return false;
+  }
+  if (task.dueDate) {
+    return task.dueDate < today;
+  }
+  return !task.recurrenceId && task.date < today;
+}
+
+/**
+ * Pull a deadline out of natural language, e.g. "file taxes due friday" or
+ * "send invoice by tomorrow". Weekdays mean the next such day, today included.
+ */
+export function parseDueText(input: string, today: string): { text: string; dueDate?: string } {
+  const match = input.match(DUE_IN_TEXT);
+  if (!match) {
+    return { text: input };
+  }
+
+  const word = match[2].toLowerCase();
+  let dueDate: string;
+  if (word === 'today' || word === 'tonight') {
+    dueDate = today;
+  } else if (word === 'tomorrow') {
+    dueDate = shiftDate(today, 1);
+  } else if (/^\d/.test(word)) {
+    if (isNaN(Date.parse(word))) {
+      return { text: input };
+    }
+    dueDate = word;
+  } else {
+    const todayIndex = new Date(`${today}T00:00:00Z`).getUTCDay();
+    dueDate = shiftDate(today, (WEEKDAYS.indexOf(word.slice(0, 3)) - todayIndex + 7) % 7);
+  }
+
+  const text = `${input.slice(0, match.index)}${match[1]}${input.slice(match.index! + match[0].length)}`
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { text: text || input, dueDate };
+}
@@ -0,0 +1,69 @@
+import type { Task } from './types';
+
+export const indexTasks = (tasks: Task[]): Map<string, Task> => new Map(tasks.map(task => [task.id, task]));
+
+/**
+ * The blockers of a task that are still open. Blockers that no longer exist
+ * don't hold a task back.
+ */
+export function openBlockers(task: Task, tasksById: Map<string, Task>): Task[] {
+  return (task.blockedBy || [])
+    .map(id => tasksById.get(id))
+    .filter((blocker): blocker is Task => !!blocker && !blocker.completed);
+}
+
+/**
+ * Open, not archived and not waiting on any open blocker
+ */
+export function isActionable(task: Task, tasksById: Map<string, Task>): boolean {
+  return !task.completed && !task.archived && openBlockers(task, tasksById).length === 0;
+}
+
+/**
+ * The chain of IDs that would close a loop if `taskId` were blocked by
+ * `blockedBy`, e.g. ["a", "b", "a"], or null when there is none
+ */
+export function findDependencyCycle(taskId: string, blockedBy: string[], tasksById: Map<string, Task>): string[] | null {
+  const visited = new Set<string>();
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) {
+      return [...path, id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+    visited.add(id);
+    for (const next of tasksById.get(id)?.blockedBy || []) {
+      const cycle = visit(next, [...path, id]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  for (const id of blockedBy) {
+    const cycle = visit(id, [taskId]);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Order tasks so every blocker comes before the tasks it blocks, keeping the
+ * given order otherwise. Only links between the given tasks count.
+ */
+export function orderByDependencies(tasks: Task[]): Task[] {
+  const pending = indexTasks(tasks);
+  const ordered: Task[] = [];
+  while (pending.size > 0) {
+    const next = [...pending.values()].find(task => !(task.blockedBy || []).some(id => pending.has(id) && id !== task.id))
+      // Cycles are rejected when links are made; never loop forever on stored data
+      ?? pending.values().next().value!;
+    ordered.push(next);
+    pending.delete(next.id);
+  }
+  return ordered;
+}
@@ -0,0 +1,36 @@
+import type { FocusSession, Task } from './types';
+
+/**
+ * The `focus` resource: the session plus its task and where the phase stands
+ */
+export interface FocusStatus extends FocusSession {
+  text: string;
+  date: string;
+  phaseEndsAt: string; // ISO timestamp
+  remainingSeconds: number;
+  taskPomodoros: number; // Every pomodoro on the task, not just this session's
+}
+
+export const DEFAULT_WORK_MINUTES = 25;
+export const DEFAULT_BREAK_MINUTES = 5;
+const MAX_WORK_MINUTES = 120;
+const MAX_BREAK_MINUTES = 60;
+
+/**
+ * Validate the work or break length of a focus session
+ */
+export function parseFocusMinutes(value: unknown, phase: 'work' | 'break'): number {
+  const max = phase === 'work' ? MAX_WORK_MINUTES : MAX_BREAK_MINUTES;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    throw new Error(`Invalid ${phase} length: expected whole minutes between 1 and ${max}`);
+  }
+  return value;
+}
+
+export const pomodoroCount = (task: Task): number => task.pomodoros?.length ?? 0;
+
+/**
+ * When the session's current phase is up, as a timestamp in milliseconds
+ */
+export const focusPhaseEndsAt = (session: FocusSession): number =>
+  Date.parse(session.phaseStartedAt) + (session.phase === 'work' ? session.workMinutes : session.breakMinutes) * 60000;
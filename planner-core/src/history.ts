@@ -0,0 +1,236 @@
+import { ChangeEvent, PlanCalendar, Task, TaskChange } from './types';
+import { getAllTasks, getPlan } from './calendar';
+
+// Older events are dropped beyond this many
+const EVENT_LOG_LIMIT = 1000;
+
+/**
+ * Every task and recurring series as JSON, keyed by ID, to diff against after
+ * a change
+ */
+export interface TaskSnapshot {
+  tasks: Map<string, string>;
+  series: Map<string, string>;
+}
+
+export interface ChangeSummary {
+  taskId: string;
+  text: string;
+  kind: 'created' | 'changed' | 'deleted';
+  fields: string[];
+}
+
+/**
+ * An event as the `history` resources show it
+ */
+export interface EventSummary {
+  id: number;
+  at: string;
+  action: string;
+  source?: string;
+  target?: number;
+  // Made by a daily job; not on the undo stack
+  automatic?: boolean;
+  // A change that is currently undone (and can be redone)
+  undone: boolean;
+  changes: ChangeSummary[];
+}
+
+/**
+ * The `history` resource: what undo and redo would revert next, and the
+ * latest events, newest first
+ */
+export interface HistoryStatus {
+  undo: EventSummary | null;
+  redo: EventSummary | null;
+  events: EventSummary[];
+}
+
+const parse = (json: string | undefined): Task | null => (json === undefined ? null : JSON.parse(json));
+
+/**
+ * The fields that differ between two versions of a task; key order is ignored
+ */
+export function changedFields(before: Task | null, after: Task | null): string[] {
+  const a = (before || {}) as Record<string, unknown>;
+  const b = (after || {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]))
+    .sort();
+}
+
+const sameTask = (a: Task | null, b: Task | null): boolean =>
+  (a === null) === (b === null) && changedFields(a, b).length === 0;
+
+export function snapshotTasks(calendar: PlanCalendar): TaskSnapshot {
+  return {
+    tasks: new Map(getAllTasks(calendar).map(task => [task.id, JSON.stringify(task)])),
+    series: new Map(Object.entries(calendar.recurring || {}).map(([id, series]) => [id, JSON.stringify(series)])),
+  };
+}
+
+/**
+ * Tasks and series that were created, changed or deleted between two snapshots
+ */
+export function diffSnapshots(before: TaskSnapshot, after: TaskSnapshot): TaskChange[] {
+  const diff = (from: Map<string, string>, to: Map<string, string>, series: boolean): TaskChange[] =>
+    [...new Set([...from.keys(), ...to.keys()])]
+      .map(taskId => ({ taskId, ...(series && { series: true }), before: parse(from.get(taskId)), after: parse(to.get(taskId)) }))
+      .filter(change => !sameTask(change.before, change.after));
+  return [...diff(before.tasks, after.tasks, false), ...diff(before.series, after.series, true)];
+}
+
+/**
+ * Append an event with the next ID, dropping the oldest beyond the limit
+ */
+export function appendEvent(calendar: PlanCalendar, event: Omit<ChangeEvent, 'id'>): ChangeEvent {
+  const events = calendar.events || [];
+  const recorded: ChangeEvent = { id: (events[events.length - 1]?.id ?? 0) + 1, ...event };
+  calendar.events = [...events, recorded].slice(-EVENT_LOG_LIMIT);
+  return recorded;
+}
+
+/**
+ * Record what changed since `before`; nothing is recorded when no task changed
+ */
+export function recordChanges(
+  calendar: PlanCalendar,
+  before: TaskSnapshot,
+  action: string,
+  source?: string,
+  automatic = false
+): ChangeEvent | null {
+  const changes = diffSnapshots(before, snapshotTasks(calendar));
+  if (changes.length === 0) {
+    return null;
+  }
+  return appendEvent(calendar, { at: new Date().toISOString(), action, ...(source && { source }), ...(automatic && { automatic }), changes });
+}
+
+/**
+ * The change events that can be undone (most recent last) and the undone
+ * ones that can be redone (most recently undone last). A new change clears
+ * the redo stack. Automatic changes (the daily rollover and retention) stay
+ * off both, so undo always means the user's own latest change.
+ */
+export function undoStacks(events: ChangeEvent[]): { done: ChangeEvent[]; undone: ChangeEvent[] } {
+  const byId = new Map(events.map(event => [event.id, event]));
+  let done: ChangeEvent[] = [];
+  let undone: ChangeEvent[] = [];
+  for (const event of events) {
+    const target = event.target !== undefined ? byId.get(event.target) : undefined;
+    if (event.automatic) {
+      continue;
+    }
+    if (event.action === 'undo') {
+      done = done.filter(e => e !== target);
+      if (target) undone.push(target);
+    } else if (event.action === 'redo') {
+      undone = undone.filter(e => e !== target);
+      if (target) done.push(target);
+    } else {
+      done.push(event);
+      undone = [];
+    }
+  }
+  return { done, undone };
+}
+
+/**
+ * Put every task of an event back the way it was before (undo) or after
+ * (redo) it. Fails without changing anything when a task has been changed
+ * since, so an undo never silently overwrites someone else's edit.
+ */
+export function revertChanges(calendar: PlanCalendar, event: ChangeEvent, direction: 'undo' | 'redo'): TaskChange[] {
+  const current = snapshotTasks(calendar);
+  const inverse = event.changes.map((change): TaskChange => {
+    const [expected, target] = direction === 'undo' ? [change.after, change.before] : [change.before, change.after];
+    const now = parse((change.series ? current.series : current.tasks).get(change.taskId));
+    if (!sameTask(now, expected)) {
+      const text = now?.text ?? expected?.text ?? change.taskId;
+      throw new Error(`Cannot ${direction} ${event.action} (#${event.id}): "${text}" has changed since`);
+    }
+    return { taskId: change.taskId, ...(change.series && { series: true }), before: now, after: target };
+  });
+
+  for (const change of inverse) {
+    const task = change.after && JSON.parse(JSON.stringify(change.after));
+    if (change.series) {
+      if (task) {
+        calendar.recurring = { ...calendar.recurring, [change.taskId]: task };
+      } else {
+        delete calendar.recurring?.[change.taskId];
+      }
+      continue;
+    }
+    // Replace the task in place when it stays on its day, otherwise move it
+    const plan = Object.values(calendar.plans).find(p => p.tasks.some(t => t.id === change.taskId));
+    const index = plan ? plan.tasks.findIndex(t => t.id === change.taskId) : -1;
+    if (plan && task && plan.date === task.date) {
+      plan.tasks[index] = task;
+      continue;
+    }
+    if (plan) {
+      plan.tasks.splice(index, 1);
+    }
+    if (task) {
+      getPlan(calendar, task.date).tasks.push(task);
+    }
+  }
+  return inverse;
+}
+
+export function summarizeEvent(event: ChangeEvent, undoneIds: Set<number>): EventSummary {
+  return {
+    id: event.id,
+    at: event.at,
+    action: event.action,
+    ...(event.source && { source: event.source }),
+    ...(event.target !== undefined && { target: event.target }),
+    ...(event.automatic && { automatic: true }),
+    undone: undoneIds.has(event.id),
+    changes: event.changes.map(change => ({
+      taskId: change.taskId,
+      text: (change.after || change.before)!.text,
+      kind: !change.before ? 'created' : !change.after ? 'deleted' : 'changed',
+      fields: change.before && change.after ? changedFields(change.before, change.after) : [],
+    })),
+  };
+}
+
+/**
+ * One change to a task as the `history://{taskId}` resource shows it, with
+ * the old and new values of the fields that changed
+ */
+export interface TaskHistoryEntry extends Omit<EventSummary, 'changes'> {
+  kind: ChangeSummary['kind'];
+  fields: string[];
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+/**
+ * Every change to a task, newest first. An instance of a recurring task also
+ * shows the changes to its series.
+ */
+export function taskHistory(events: ChangeEvent[], taskId: string, seriesId?: string): TaskHistoryEntry[] {
+  const undoneIds = new Set(undoStacks(events).undone.map(event => event.id));
+  const pick = (task: Task | null, fields: string[]): Record<string, unknown> | null =>
+    task && Object.fromEntries(fields.map(field => [field, (task as unknown as Record<string, unknown>)[field] ?? null]));
+
+  return events
+    .flatMap(event => event.changes
+      .filter(change => change.taskId === taskId || (seriesId !== undefined && change.taskId === seriesId))
+      .map((change): TaskHistoryEntry => {
+        const { changes, ...summary } = summarizeEvent({ ...event, changes: [change] }, undoneIds);
+        const { kind, fields } = changes[0];
+        return {
+          ...summary,
+          kind,
+          fields,
+          before: kind === 'changed' ? pick(change.before, fields) : null,
+          after: kind === 'changed' ? pick(change.after, fields) : null,
+        };
+      }))
+    .reverse();
+}
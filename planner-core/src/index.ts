@@ -0,0 +1,29 @@
+export * from './types';
+export * from './dates';
+export * from './calendar';
+export * from './validation';
+export * from './recurrence';
+export * from './times';
+export * from './priority';
+export * from './tags';
+export * from './subtasks';
+export * from './dependencies';
+export * from './deadlines';
+export * from './rollover';
+export * from './archive';
+export * from './analytics';
+export * from './journal';
+export * from './scheduler';
+export * from './timeTracking';
+export * from './focus';
+export * from './history';
+export * from './refs';
+export * from './search';
+export * from './migrations';
+export * from './categorize';
+export * from './storage';
+export * from './tools';
+export * from './resources';
+export * from './prompts';
+export * from './planner';
+export * from './server';
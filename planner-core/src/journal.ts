@@ -0,0 +1,82 @@
+import type { JournalEntry, Rating, RolloverRecord, Task } from './types';
+
+export const RATINGS: Rating[] = [1, 2, 3, 4, 5];
+export const MOOD_LABELS: Record<Rating, string> = { 1: '😞', 2: '😕', 3: '😐', 4: '🙂', 5: '😄' };
+export const ENERGY_LABELS: Record<Rating, string> = { 1: '🪫', 2: '😴', 3: '🙂', 4: '⚡', 5: '🚀' };
+export const MAX_JOURNAL_NOTE_LENGTH = 5000;
+const MAX_SLIP_REASON_LENGTH = 200;
+
+/**
+ * What happened to one day's tasks, and what was written about it
+ */
+export interface DayReview {
+  date: string;
+  done: Task[];
+  // Open tasks still planned for the day
+  slipped: { task: Task; reason: string | null }[];
+  // Open tasks that were rolled from the day to a later one, by the rollover or the review
+  carriedOver: { taskId: string; text: string; to: string; reason: string | null }[];
+  entry: JournalEntry | null;
+}
+
+export function parseRating(value: unknown, field: string): Rating {
+  const rating = Number(value);
+  if (!RATINGS.includes(rating as Rating)) {
+    throw new Error(`Invalid ${field}: ${value}. Expected a rating from 1 (low) to 5 (high)`);
+  }
+  return rating as Rating;
+}
+
+export function parseJournalNote(value: unknown): string {
+  if (typeof value !== 'string' || value.length > MAX_JOURNAL_NOTE_LENGTH) {
+    throw new Error(`Invalid note: expected text of up to ${MAX_JOURNAL_NOTE_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+export function parseSlipReason(value: unknown): string {
+  if (typeof value !== 'string' || value.trim().length > MAX_SLIP_REASON_LENGTH) {
+    throw new Error(`Invalid reason: expected text of up to ${MAX_SLIP_REASON_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+/**
+ * Review a day from its tasks (archived ones included) and the rollover log
+ */
+export function buildDayReview(tasks: Task[], rollovers: RolloverRecord[], date: string, entry: JournalEntry | null): DayReview {
+  const reasons = entry?.slipReasons || {};
+  const onDay = tasks.filter(t => t.date === date);
+  // A task rolled on more than once went where its last move took it
+  const moves = new Map<string, DayReview['carriedOver'][number]>();
+  for (const record of rollovers) {
+    for (const moved of record.tasks.filter(t => t.from === date)) {
+      moves.set(moved.taskId, { taskId: moved.taskId, text: moved.text, to: record.date, reason: reasons[moved.taskId] ?? null });
+    }
+  }
+  return {
+    date,
+    done: onDay.filter(t => t.completed),
+    slipped: onDay.filter(t => !t.completed && !t.archived).map(task => ({ task, reason: reasons[task.id] ?? null })),
+    carriedOver: [...moves.values()],
+    entry,
+  };
+}
+
+/**
+ * A day's review as a few lines of text, for AI prompts
+ */
+export function formatDayReview(review: DayReview): string {
+  const { entry } = review;
+  const ratings = [entry?.mood && `mood ${entry.mood}/5`, entry?.energy && `energy ${entry.energy}/5`].filter(Boolean);
+  const slipped = [
+    ...review.slipped.map(({ task, reason }) => `${task.text}${reason ? ` (${reason})` : ''}`),
+    ...review.carriedOver.map(({ text, to, reason }) => `${text} (moved to ${to}${reason ? `; ${reason}` : ''})`),
+  ];
+  return [
+    `${review.date}${ratings.length > 0 ? `: ${ratings.join(', ')}` : ''}`,
+    `Done: ${review.done.length > 0 ? review.done.map(t => t.text).join(', ') : 'nothing'}`,
+    ...(slipped.length > 0 ? [`Slipped: ${slipped.join(', ')}`] : []),
+    ...(entry?.note ? [`Note: ${entry.note}`] : []),
+  ].join('\n');
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { PlanCalendar, Task } from './types';
+import { getToday } from './dates';
+import { assignTaskRefs } from './refs';
+
+/**
+ * One step in the stored data's history. `migrate` gets the document as
+ * saved at `version - 1` and returns it in the shape of `version`; it may
+ * change its argument.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+/**
+ * What `PlanStore.migrate` did at startup
+ */
+export interface MigrationReport {
+  from: number;
+  to: number;
+  applied: string[];
+  // Copy of the data as it was before migrating, when anything was migrated
+  backupPath: string | null;
+}
+
+/**
+ * Every migration, oldest first. Documents without a `schemaVersion` are
+ * version 0. Add new steps at the end; never change a released one.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Split a single-day document ({ date, tasks }) into a calendar keyed by date',
+    migrate: data => {
+      if (!Array.isArray(data?.tasks)) {
+        return { ...data, plans: data?.plans || {} };
+      }
+      const plans: PlanCalendar['plans'] = {};
+      for (const task of data.tasks as Task[]) {
+        const date = task.date || data.date || getToday();
+        plans[date] = plans[date] || { date, tasks: [] };
+        plans[date].tasks.push({ ...task, date });
+      }
+      return { plans };
+    },
+  },
+  {
+    version: 2,
+    description: 'Give every task the date of the plan it is saved in',
+    migrate: (data: PlanCalendar) => {
+      for (const [date, plan] of Object.entries(data.plans)) {
+        plan.date = date;
+        plan.tasks = plan.tasks.map(task => (task.date === date ? task : { ...task, date }));
+      }
+      return data;
+    },
+  },
+  {
+    version: 3,
+    description: 'Give tasks that share an ID (added in the same millisecond) new ones, and every task a #handle',
+    migrate: (data: PlanCalendar) => {
+      const seen = new Set(Object.keys(data.recurring || {}));
+      for (const date of Object.keys(data.plans).sort()) {
+        for (const task of data.plans[date].tasks) {
+          if (seen.has(task.id)) {
+            task.id = randomUUID();
+          }
+          seen.add(task.id);
+        }
+      }
+      assignTaskRefs(data);
+      return data;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * The schema version of a stored document. Fails for a version newer than
+ * this planner knows, so an older server never rewrites data in a shape it
+ * doesn't understand.
+ */
+export function schemaVersionOf(data: any): number {
+  const version = data?.schemaVersion ?? 0;
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid schemaVersion in plan data: ${JSON.stringify(data.schemaVersion)}`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Plan data has schema version ${version}, but this planner only supports up to ${CURRENT_SCHEMA_VERSION}. Upgrade the planner to open it.`
+    );
+  }
+  return version;
+}
+
+/**
+ * Run every migration newer than the document's version, in order, and
+ * stamp the result with the current version
+ */
+export function migrateCalendar(data: any): { calendar: PlanCalendar; applied: Migration[] } {
+  const from = schemaVersionOf(data);
+  const applied = MIGRATIONS.filter(migration => migration.version > from);
+  const migrated = applied.reduce((document, migration) => migration.migrate(document), data);
+  return { calendar: { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION }, applied };
+}
+
+/**
+ * Describe a migration for the startup log
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  if (report.applied.length === 0) {
+    return `Plan data is at schema version ${report.to}`;
+  }
+  const backup = report.backupPath ? ` (backup: ${report.backupPath})` : '';
+  return `Migrated plan data from schema version ${report.from} to ${report.to}${backup}: ${report.applied.join('; ')}`;
+}
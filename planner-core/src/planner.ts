@@ -0,0 +1,1439 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type {
+  CallToolResult,
+  GetPromptResult,
+  Prompt,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ArchiveRetention, BulkTaskResult, FocusSession, JournalEntry, PlanCalendar, RolloverPolicy, RolloverRecord, Subtask, Task, TimeEntry, TimeSlot } from './types';
+import { getToday, parseDateArg } from './dates';
+import {
+  buildSchedule,
+  createTaskId,
+  findTask,
+  getAllTasks,
+  getPlan,
+  getRecurringInstances,
+  getTasksForDate,
+  materializeInstances,
+  moveTask,
+  removeTask,
+} from './calendar';
+import { addDays, describeRecurrence, parseInstanceId, parseRecurrenceArg } from './recurrence';
+import { categorizeTask, parseDayCommand } from './categorize';
+import { CalendarMutator, PlanStore } from './storage';
+import { parsePriorityArg, parsePriorityText } from './priority';
+import { collectLabels, matchesTaskFilter, parseProjectArg, parseTagText, parseTagsArg } from './tags';
+import { findSubtask, nextSubtaskId, setSubtasksCompleted, subtaskProgress } from './subtasks';
+import { findDependencyCycle, indexTasks } from './dependencies';
+import { isOverdue, parseDueText } from './deadlines';
+import { assignTaskRefs, formatTaskRef, parseTaskRef } from './refs';
+import { carryOver, parseRolloverPolicy, rollOver } from './rollover';
+import { SearchHit, TaskSearch, searchTasks } from './search';
+import { ANALYTICS_DAYS, buildAnalytics } from './analytics';
+import { DayReview, buildDayReview, formatDayReview, parseJournalNote, parseRating, parseSlipReason } from './journal';
+import { RetentionResult, applyRetention, describeArchiveRetention, pageArchive, parseArchiveRetention } from './archive';
+import { buildTimeReport, entryMinutes, formatTrackedMinutes, trackedMinutes } from './timeTracking';
+import {
+  DEFAULT_BREAK_MINUTES,
+  DEFAULT_WORK_MINUTES,
+  FocusStatus,
+  focusPhaseEndsAt,
+  parseFocusMinutes,
+  pomodoroCount,
+} from './focus';
+import {
+  ChangeSummary,
+  HistoryStatus,
+  appendEvent,
+  recordChanges,
+  revertChanges,
+  snapshotTasks,
+  summarizeEvent,
+  taskHistory,
+  undoStacks,
+} from './history';
+import {
+  DayPlan,
+  EnergyPreference,
+  SlotCapacity,
+  defaultSlotCapacity,
+  parseEnergyPreferencesArg,
+  parseSlotCapacity,
+  scheduleDay,
+} from './scheduler';
+import { DEFAULT_SLOT_BOUNDARIES, SlotBoundaries, TaskTimes, parseTimeText, resolveTaskTimes, slotForTime } from './times';
+import { assertValidTask, parseNewTask, parseTaskPatch, parseTaskSearch, parseTaskTimes } from './validation';
+import { TOOL_DEFINITIONS } from './tools';
+import { RESOURCE_DEFINITIONS, RESOURCE_TEMPLATE_DEFINITIONS } from './resources';
+import { INTENT_SYSTEM_PROMPT, PROMPT_DEFINITIONS, runPrompt } from './prompts';
+
+export interface PlannerCoreOptions {
+  store: PlanStore;
+  /** Needed for prompts and intent analysis; omit to run without AI features */
+  anthropic?: Anthropic | null;
+  /** Where the afternoon and evening slots start; used to derive slots from task times */
+  slotBoundaries?: SlotBoundaries;
+  /** What happens to unfinished tasks from earlier days when a new day starts (default: move them to today) */
+  rolloverPolicy?: RolloverPolicy;
+  /** When archived tasks are compacted or purged (default: keep them as they are) */
+  archiveRetention?: ArchiveRetention;
+  /** Minutes of work plan_day puts in each slot (default: how long each slot is between 08:00 and 22:00) */
+  slotCapacity?: SlotCapacity;
+  /** Standing preferences like "deep work in the morning" that plan_day honours */
+  energyPreferences?: EnergyPreference[];
+}
+
+/**
+ * Who is calling a tool, for the change history
+ */
+export interface ToolCallContext {
+  /** The client or part of a client that made the call, e.g. "dashboard-chat" */
+  source?: string;
+}
+
+// How far ahead the all-days `schedule` resource expands recurring tasks
+const SCHEDULE_RECURRENCE_DAYS = 7;
+// Most recent events listed by the `history` resource
+const HISTORY_RESOURCE_EVENTS = 50;
+// Most recent entries listed by the `journal` resource
+const JOURNAL_RESOURCE_ENTRIES = 30;
+// Reviewed days the assistant and schedule prompts get to read
+const PROMPT_REFLECTION_DAYS = 7;
+const PROMPTS_WITH_REFLECTIONS = ['custom_assistant', 'optimize_schedule'];
+
+const textResult = (text: string): CallToolResult => ({
+  content: [
+    {
+      type: 'text',
+      text,
+    },
+  ],
+});
+
+const jsonContents = (uri: string, value: unknown): ReadResourceResult => ({
+  contents: [
+    {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(value, null, 2),
+    },
+  ],
+});
+
+const formatPriority = (task: Task): string => (task.priority ? ` [P${task.priority}]` : '');
+
+// " #Home @errands @quick"
+const formatLabels = (task: Task): string =>
+  [task.project && ` #${task.project}`, ...(task.tags || []).map(tag => ` @${tag}`)].filter(Boolean).join('');
+
+// Resource URIs may carry percent-encoded names ("tasks://project/Home%20Office")
+const decodeUriPart = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// " at 14:00-15:30", " at 09:00", " (45 min)"
+const formatTimes = (task: Task): string => {
+  if (task.startTime) {
+    return ` at ${task.startTime}${task.endTime ? `-${task.endTime}` : ''}`;
+  }
+  return task.durationMinutes ? ` (${task.durationMinutes} min)` : '';
+};
+
+// " (2/5 steps done)"
+const formatProgress = (task: Task): string => {
+  const { completed, total } = subtaskProgress(task);
+  return total > 0 ? ` (${completed}/${total} steps done)` : '';
+};
+
+const formatDue = (task: Task): string => (task.dueDate ? ` (due ${task.dueDate})` : '');
+
+// "Call mom (completed, text)", "Buy milk (created)"
+const formatChange = (change: ChangeSummary): string =>
+  `${change.text} (${change.kind === 'changed' ? change.fields.join(', ') : change.kind})`;
+
+// " (1h 5m tracked of 45 min estimated)"
+const formatTracked = (task: Task): string => {
+  const estimate = task.durationMinutes ? ` of ${task.durationMinutes} min estimated` : '';
+  return task.timeEntries?.length ? ` (${formatTrackedMinutes(trackedMinutes(task))} tracked${estimate})` : '';
+};
+
+// "- #12 Call the dentist [P2] #Health (2026-03-04 morning, completed)"
+const formatSearchHit = ({ task }: SearchHit): string => {
+  const state = [task.completed && 'completed', task.archived && 'archived'].filter(Boolean);
+  const where = `${task.date} ${task.timeSlot || 'unscheduled'}${state.length > 0 ? `, ${state.join(', ')}` : ''}`;
+  return `- ${formatTaskRef(task) || task.id} ${task.text}${formatPriority(task)}${formatLabels(task)} (${where})`;
+};
+
+const formatRetention = (result: RetentionResult): string[] => [
+  `Compacted ${result.compacted.length} and purged ${result.purged.length} archived task${result.compacted.length + result.purged.length !== 1 ? 's' : ''}`,
+  ...result.compacted.map(t => `- ${t.text} (${t.date}): compacted`),
+  ...result.purged.map(t => `- ${t.text} (${t.date}): purged`),
+];
+
+const formatRollover = (record: RolloverRecord): string[] => [
+  `Rolled over ${record.tasks.length} unfinished task${record.tasks.length !== 1 ? 's' : ''} to ${record.date}`,
+  ...record.tasks.map(t => `- ${t.text} (from ${t.from})`),
+];
+
+const bulkResult = (summary: string, results: BulkTaskResult[]): CallToolResult => ({
+  content: [
+    {
+      type: 'text',
+      text: [summary, ...results.map(r => `- ${r.text}: ${r.message}`)].join('\n'),
+    },
+  ],
+  structuredContent: { results },
+});
+
+type TaskOptions = Pick<Task, 'priority' | 'project' | 'tags' | 'dueDate'>;
+
+/**
+ * Validate the optional priority, project, tags and due date of a new task
+ */
+function parseTaskOptions(args: Record<string, any>): TaskOptions {
+  const options: TaskOptions = {};
+  if (args.priority !== undefined && args.priority !== null) {
+    options.priority = parsePriorityArg(args.priority);
+  }
+  if (args.project !== undefined && args.project !== null && args.project !== '') {
+    options.project = parseProjectArg(args.project);
+  }
+  const tags = args.tags !== undefined && args.tags !== null ? parseTagsArg(args.tags) : [];
+  if (tags.length > 0) {
+    options.tags = tags;
+  }
+  if (args.dueDate !== undefined && args.dueDate !== null && args.dueDate !== '') {
+    options.dueDate = parseDateArg(args.dueDate);
+  }
+  return options;
+}
+
+/**
+ * Set a task's times, filling in whichever of start, end and duration follows
+ * from the others. A start time decides the task's slot.
+ */
+function setTaskTimes(task: Task, times: TaskTimes, boundaries: SlotBoundaries): void {
+  const resolved = resolveTaskTimes(times);
+  delete task.startTime;
+  delete task.endTime;
+  delete task.durationMinutes;
+  Object.assign(task, resolved);
+  if (resolved.startTime) {
+    task.timeSlot = slotForTime(resolved.startTime, boundaries);
+  }
+}
+
+/**
+ * Put a task in a slot, or unschedule it with null. Clock times that fall
+ * outside the new slot are dropped; the duration is kept.
+ */
+function setTimeSlot(task: Task, timeSlot: TimeSlot | null, boundaries: SlotBoundaries): void {
+  if (timeSlot === null) {
+    delete task.timeSlot;
+  } else {
+    task.timeSlot = timeSlot;
+  }
+  if (task.startTime && task.timeSlot !== slotForTime(task.startTime, boundaries)) {
+    delete task.startTime;
+    delete task.endTime;
+  }
+}
+
+/**
+ * Make a task wait for other tasks, or clear its blockers with null. Unknown
+ * IDs, self-references and links that would close a cycle are rejected.
+ */
+function setBlockedBy(calendar: PlanCalendar, task: Task, blockedBy: string[] | null): void {
+  if (!blockedBy) {
+    delete task.blockedBy;
+    return;
+  }
+  // Blockers can be given by "#42" handle, so compare resolved IDs
+  const blockers = blockedBy.map(id => (id === task.id ? task : findTask(calendar, id)));
+  if (blockers.includes(task)) {
+    throw new Error(`A task cannot be blocked by itself: ${task.text}`);
+  }
+  const blockerIds = blockers.map(blocker => blocker.id);
+  const tasksById = indexTasks([...getAllTasks(calendar), task]);
+  const cycle = findDependencyCycle(task.id, blockerIds, tasksById);
+  if (cycle) {
+    const names = cycle.map(id => `"${tasksById.get(id)?.text ?? id}"`);
+    throw new Error(`Dependency cycle: ${names.join(' is blocked by ')}`);
+  }
+  task.blockedBy = blockerIds;
+}
+
+/**
+ * Stop the running timer, if any, and record the time on its task
+ */
+function stopActiveTimer(calendar: PlanCalendar, now: Date): { task: Task; entry: TimeEntry } | null {
+  const timer = calendar.activeTimer;
+  const task = timer && getAllTasks(calendar).find(t => t.id === timer.taskId);
+  delete calendar.activeTimer;
+  if (!timer || !task) {
+    return null;
+  }
+  const entry: TimeEntry = { start: timer.startedAt, end: now.toISOString() };
+  task.timeEntries = [...(task.timeEntries || []), entry];
+  return { task, entry };
+}
+
+/**
+ * A timer or focus session on a deleted task is dropped; the timer's time is
+ * not recorded
+ */
+function dropOrphanedSessions(calendar: PlanCalendar): void {
+  const taskIds = new Set(getAllTasks(calendar).map(t => t.id));
+  if (calendar.activeTimer && !taskIds.has(calendar.activeTimer.taskId)) {
+    delete calendar.activeTimer;
+  }
+  if (calendar.focusSession && !taskIds.has(calendar.focusSession.taskId)) {
+    delete calendar.focusSession;
+  }
+}
+
+/**
+ * Save the recurring occurrences the schedule shows from `today` on, so each
+ * gets a handle
+ */
+function saveUpcomingOccurrences(calendar: PlanCalendar, today: string): void {
+  for (let offset = 0; offset < SCHEDULE_RECURRENCE_DAYS; offset++) {
+    materializeInstances(calendar, addDays(today, offset));
+  }
+}
+
+/**
+ * Archive or restore a task, noting when it was archived so the retention
+ * policy can age it
+ */
+function setArchived(task: Task, archived: boolean): void {
+  if (archived) {
+    task.archived = true;
+    task.archivedAt = new Date().toISOString();
+  } else {
+    delete task.archived;
+    delete task.archivedAt;
+  }
+}
+
+/**
+ * Look up every task of a bulk call before changing any of them, so an
+ * unknown ID fails the whole call and leaves the calendar untouched
+ */
+function resolveTasks(calendar: PlanCalendar, taskIds: unknown): Task[] {
+  if (!Array.isArray(taskIds) || taskIds.length === 0 || !taskIds.every(id => typeof id === 'string')) {
+    throw new Error('taskIds must be a non-empty array of task IDs');
+  }
+
+  const tasks: Task[] = [];
+  const missing: string[] = [];
+  for (const taskId of new Set(taskIds as string[])) {
+    try {
+      tasks.push(findTask(calendar, taskId));
+    } catch {
+      missing.push(taskId);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(`No tasks were changed; tasks not found: ${missing.join(', ')}`);
+  }
+  return tasks;
+}
+
+/**
+ * The planner's tools, resources and prompts, independent of any transport.
+ * The stdio/HTTP MCP server and the dashboard's inline API route both call
+ * into this class, so they share one implementation.
+ */
+export class PlannerCore {
+  readonly store: PlanStore;
+  private anthropic: Anthropic | null;
+  private slotBoundaries: SlotBoundaries;
+  private rolloverPolicy: RolloverPolicy;
+  private archiveRetention: ArchiveRetention;
+  private slotCapacity: SlotCapacity;
+  private energyPreferences: EnergyPreference[];
+  // The tool call in progress, so changes are recorded under its name and source
+  private toolCalls = new AsyncLocalStorage<{ action: string; source?: string }>();
+
+  constructor({
+    store,
+    anthropic = null,
+    slotBoundaries = DEFAULT_SLOT_BOUNDARIES,
+    rolloverPolicy = 'move',
+    archiveRetention = {},
+    slotCapacity = defaultSlotCapacity(slotBoundaries),
+    energyPreferences = [],
+  }: PlannerCoreOptions) {
+    this.store = store;
+    this.anthropic = anthropic;
+    this.slotBoundaries = slotBoundaries;
+    this.rolloverPolicy = rolloverPolicy;
+    this.archiveRetention = archiveRetention;
+    this.slotCapacity = slotCapacity;
+    this.energyPreferences = energyPreferences;
+  }
+
+  listTools(): { tools: Tool[] } {
+    return { tools: TOOL_DEFINITIONS };
+  }
+
+  listResources(): { resources: Resource[] } {
+    return { resources: RESOURCE_DEFINITIONS };
+  }
+
+  listResourceTemplates(): { resourceTemplates: ResourceTemplate[] } {
+    return { resourceTemplates: RESOURCE_TEMPLATE_DEFINITIONS };
+  }
+
+  listPrompts(): { prompts: Prompt[] } {
+    return { prompts: PROMPT_DEFINITIONS };
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    await this.rollOverIfNewDay();
+    await this.applyRetentionIfNewDay();
+    await this.saveOccurrencesIfNewDay();
+
+    if (uri.startsWith('tasks://tag/') || uri.startsWith('tasks://project/')) {
+      const [kind, ...rest] = uri.slice('tasks://'.length).split('/');
+      const name = decodeUriPart(rest.join('/'));
+      if (!name) {
+        throw new Error(`Missing ${kind} name in ${uri}`);
+      }
+      const filter = kind === 'tag' ? { tags: [name] } : { project: name };
+      const tasks = this.getScheduledTasks(await this.store.readCalendar())
+        .filter(t => !t.archived && matchesTaskFilter(t, filter))
+        .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '99:99').localeCompare(b.startTime || '99:99'));
+      return jsonContents(uri, tasks);
+    }
+
+    if (uri === 'projects') {
+      const tasks = this.getScheduledTasks(await this.store.readCalendar()).filter(t => !t.archived);
+      const { projects, tags } = collectLabels(tasks);
+      const summarize = (name: string, matching: Task[]) => ({
+        name,
+        open: matching.filter(t => !t.completed).length,
+        completed: matching.filter(t => t.completed).length,
+      });
+      return jsonContents(uri, {
+        projects: projects.map(name => summarize(name, tasks.filter(t => matchesTaskFilter(t, { project: name })))),
+        tags: tags.map(name => summarize(name, tasks.filter(t => matchesTaskFilter(t, { tags: [name] })))),
+      });
+    }
+
+    if (uri === 'overdue') {
+      const today = getToday();
+      const tasks = this.getScheduledTasks(await this.store.readCalendar())
+        .filter(t => isOverdue(t, today))
+        .sort((a, b) => (a.dueDate || a.date).localeCompare(b.dueDate || b.date));
+      return jsonContents(uri, tasks);
+    }
+
+    if (uri === 'rollovers') {
+      const calendar = await this.store.readCalendar();
+      return jsonContents(uri, {
+        policy: this.rolloverPolicy,
+        lastRolloverDate: calendar.lastRolloverDate ?? null,
+        rollovers: [...(calendar.rollovers || [])].reverse(),
+      });
+    }
+
+    if (uri === 'archive' || uri.startsWith('archive://')) {
+      // archive://{from}/{to}/{page}; "-" leaves either end of the range open
+      const [from, to, page] = uri === 'archive' ? [] : uri.slice('archive://'.length).split('/').map(decodeUriPart);
+      const pageNumber = page ? Number(page) : 1;
+      if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+        throw new Error(`Invalid archive page: ${page}`);
+      }
+      const openEnded = (date: string | undefined) => (!date || date === '-' ? null : parseDateArg(date));
+      const archive = pageArchive(getAllTasks(await this.store.readCalendar()), openEnded(from), openEnded(to), pageNumber);
+      return jsonContents(uri, { ...archive, retention: this.archiveRetention });
+    }
+
+    if (uri.startsWith('search://')) {
+      // search://{query}?status=open&archived=exclude...
+      const [query, params] = uri.slice('search://'.length).split(/\?(.*)/s);
+      const search = parseTaskSearch({ ...Object.fromEntries(new URLSearchParams(params || '')), query: decodeUriPart(query) });
+      return jsonContents(uri, await this.search(search));
+    }
+
+    if (uri === 'timer') {
+      const calendar = await this.store.readCalendar();
+      const timer = calendar.activeTimer;
+      const task = timer && getAllTasks(calendar).find(t => t.id === timer.taskId);
+      return jsonContents(uri, timer && task ? {
+        ...timer,
+        text: task.text,
+        date: task.date,
+        elapsedMinutes: Math.round((Date.now() - Date.parse(timer.startedAt)) / 60000),
+        trackedMinutes: Math.round(trackedMinutes(task)),
+        durationMinutes: task.durationMinutes ?? null,
+      } : null);
+    }
+
+    if (uri === 'focus') {
+      const calendar = await this.store.readCalendar();
+      const session = calendar.focusSession;
+      const task = session && getAllTasks(calendar).find(t => t.id === session.taskId);
+      if (!session || !task) {
+        return jsonContents(uri, null);
+      }
+      const phaseEndsAt = focusPhaseEndsAt(session);
+      const status: FocusStatus = {
+        ...session,
+        text: task.text,
+        date: task.date,
+        phaseEndsAt: new Date(phaseEndsAt).toISOString(),
+        remainingSeconds: Math.max(0, Math.round((phaseEndsAt - Date.now()) / 1000)),
+        taskPomodoros: pomodoroCount(task),
+      };
+      return jsonContents(uri, status);
+    }
+
+    if (uri === 'analytics' || uri.startsWith('analytics://')) {
+      const today = getToday();
+      const [from, to] = uri === 'analytics'
+        ? [addDays(today, 1 - ANALYTICS_DAYS), today]
+        : uri.slice('analytics://'.length).split('/').map(part => parseDateArg(decodeUriPart(part) || undefined));
+      return jsonContents(uri, buildAnalytics(await this.store.readCalendar(), from, to ?? today, today));
+    }
+
+    if (uri === 'journal') {
+      const entries = Object.values((await this.store.readCalendar()).journal || {});
+      return jsonContents(uri, entries.sort((a, b) => b.date.localeCompare(a.date)).slice(0, JOURNAL_RESOURCE_ENTRIES));
+    }
+
+    if (uri.startsWith('journal://')) {
+      return jsonContents(uri, await this.reviewDay(parseDateArg(decodeUriPart(uri.slice('journal://'.length)))));
+    }
+
+    if (uri === 'time-report') {
+      return jsonContents(uri, buildTimeReport(getAllTasks(await this.store.readCalendar())));
+    }
+
+    if (uri === 'history') {
+      const events = (await this.store.readCalendar()).events || [];
+      const { done, undone } = undoStacks(events);
+      const undoneIds = new Set(undone.map(event => event.id));
+      const status: HistoryStatus = {
+        undo: done.length > 0 ? summarizeEvent(done[done.length - 1], undoneIds) : null,
+        redo: undone.length > 0 ? summarizeEvent(undone[undone.length - 1], undoneIds) : null,
+        events: events.slice(-HISTORY_RESOURCE_EVENTS).reverse().map(event => summarizeEvent(event, undoneIds)),
+      };
+      return jsonContents(uri, status);
+    }
+
+    if (uri.startsWith('history://')) {
+      const idOrRef = decodeUriPart(uri.slice('history://'.length));
+      if (!idOrRef) {
+        throw new Error(`Missing task ID in ${uri}`);
+      }
+      const calendar = await this.store.readCalendar();
+      const events = calendar.events || [];
+      // A deleted task's handle is only found in the log
+      const ref = parseTaskRef(idOrRef);
+      const taskId = ref === null ? idOrRef : [
+        ...getAllTasks(calendar),
+        ...events.flatMap(event => event.changes.map(change => (change.after || change.before)!)),
+      ].find(task => task.ref === ref)?.id;
+      if (!taskId) {
+        throw new Error(`Task not found: ${idOrRef}`);
+      }
+      return jsonContents(uri, taskHistory(events, taskId, parseInstanceId(taskId)?.seriesId));
+    }
+
+    if (uri === 'today-tasks' || uri.startsWith('tasks://')) {
+      const date = uri === 'today-tasks' ? getToday() : parseDateArg(uri.slice('tasks://'.length));
+      const tasks = getTasksForDate(await this.store.readCalendar(), date);
+      return jsonContents(uri, tasks.filter(t => !t.archived));
+    }
+
+    if (uri === 'schedule' || uri.startsWith('schedule://')) {
+      const calendar = await this.store.readCalendar();
+      // The plain schedule spans every day; each task carries its own date
+      const allTasks = this.getScheduledTasks(calendar);
+      const tasks = uri === 'schedule'
+        ? allTasks
+        : getTasksForDate(calendar, parseDateArg(uri.slice('schedule://'.length)));
+      return jsonContents(uri, buildSchedule(tasks, allTasks));
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  async callTool(name: string, args: Record<string, any> = {}, context: ToolCallContext = {}): Promise<CallToolResult> {
+    await this.rollOverIfNewDay();
+    await this.applyRetentionIfNewDay();
+    await this.saveOccurrencesIfNewDay();
+    return this.toolCalls.run({ action: name, source: context.source }, () => this.runTool(name, args));
+  }
+
+  private async runTool(name: string, args: Record<string, any>): Promise<CallToolResult> {
+    if (name === 'add_task') return this.addTask(args);
+    if (name === 'complete_task') return this.completeTask(args);
+    if (name === 'add_subtask') return this.addSubtask(args);
+    if (name === 'complete_subtask') return this.completeSubtask(args);
+    if (name === 'plan_day') return this.planDay(args);
+    if (name === 'archive_task') return this.archiveTask(args);
+    if (name === 'update_task') return this.updateTask(args);
+    if (name === 'delete_task') return this.deleteTask(args);
+    if (name === 'archive_completed') return this.archiveCompleted(args);
+    if (name === 'unarchive_task') return this.unarchiveTask(args);
+    if (name === 'apply_retention') return this.applyRetentionNow(args);
+    if (name === 'bulk_complete') return this.bulkComplete(args);
+    if (name === 'move_tasks') return this.moveTasks(args);
+    if (name === 'rollover_tasks') return this.rolloverTasks(args);
+    if (name === 'save_journal') return this.saveJournal(args);
+    if (name === 'roll_forward') return this.rollForward(args);
+    if (name === 'start_timer') return this.startTimer(args);
+    if (name === 'stop_timer') return this.stopTimer();
+    if (name === 'start_focus') return this.startFocus(args);
+    if (name === 'log_pomodoro') return this.logPomodoro(args);
+    if (name === 'stop_focus') return this.stopFocus();
+    if (name === 'search_tasks') return this.searchTasks(args);
+    if (name === 'undo') return this.undoOrRedo('undo');
+    if (name === 'redo') return this.undoOrRedo('redo');
+    if (name === 'smart_add_task') return this.smartAddTask(args);
+    if (name === 'analyze_intent') return this.analyzeIntent(args);
+
+    throw new Error(`Unknown tool: ${name}`);
+  }
+
+  async getPrompt(name: string, args: Record<string, string | undefined> = {}): Promise<GetPromptResult> {
+    if (!this.anthropic) {
+      throw new Error('Anthropic API key not configured. Please set ANTHROPIC_API_KEY in your environment.');
+    }
+    // The assistant and the schedule optimizer draw on recent end-of-day reviews
+    const reflections = PROMPTS_WITH_REFLECTIONS.includes(name) ? await this.recentReflections() : [];
+    return runPrompt(this.anthropic, name, args, reflections);
+  }
+
+  /**
+   * The latest reviewed days, newest first, as text for a prompt
+   */
+  private async recentReflections(): Promise<string[]> {
+    const dates = Object.keys((await this.store.readCalendar()).journal || {})
+      .filter(date => date <= getToday())
+      .sort()
+      .reverse()
+      .slice(0, PROMPT_REFLECTION_DAYS);
+    const reviews = await Promise.all(dates.map(date => this.reviewDay(date)));
+    return reviews.map(formatDayReview);
+  }
+
+  private async reviewDay(date: string): Promise<DayReview> {
+    const calendar = await this.store.readCalendar();
+    return buildDayReview(getTasksForDate(calendar, date), calendar.rollovers || [], date, calendar.journal?.[date] ?? null);
+  }
+
+  /**
+   * Run the rollover once per day, before the first tool call or resource
+   * read of that day. The check is read-only, so other calls don't write.
+   */
+  private async rollOverIfNewDay(): Promise<void> {
+    const today = getToday();
+    if (this.rolloverPolicy === 'off' || (await this.store.readCalendar()).lastRolloverDate === today) {
+      return;
+    }
+    await this.update(calendar => {
+      if (calendar.lastRolloverDate !== today) {
+        rollOver(calendar, today, this.rolloverPolicy);
+      }
+    }, 'rollover');
+  }
+
+  /**
+   * Compact and purge old archived tasks once per day, like the rollover
+   */
+  private async applyRetentionIfNewDay(): Promise<void> {
+    const { compactAfterDays, purgeAfterDays } = this.archiveRetention;
+    const today = getToday();
+    if ((!compactAfterDays && !purgeAfterDays) || (await this.store.readCalendar()).lastRetentionDate === today) {
+      return;
+    }
+    await this.update(calendar => {
+      if (calendar.lastRetentionDate !== today) {
+        applyRetention(calendar, today, this.archiveRetention);
+        dropOrphanedSessions(calendar);
+      }
+    }, 'retention');
+  }
+
+  /**
+   * Save the coming week's recurring occurrences once a day, like the
+   * rollover, so they get "#42" handles before anyone needs one
+   */
+  private async saveOccurrencesIfNewDay(): Promise<void> {
+    const today = getToday();
+    const calendar = await this.store.readCalendar();
+    if (!calendar.recurring || Object.keys(calendar.recurring).length === 0 || calendar.lastOccurrencesDate === today) {
+      return;
+    }
+    await this.update(calendar => {
+      if (calendar.lastOccurrencesDate !== today) {
+        saveUpcomingOccurrences(calendar, today);
+        calendar.lastOccurrencesDate = today;
+      }
+    }, 'occurrences');
+  }
+
+  /**
+   * Change the calendar through the store, hand new tasks their "#42"
+   * handles and record the tasks that changed in the event log, under the
+   * running tool call. A daily job passes its name as `job` instead; its
+   * changes are logged as automatic and can't be undone.
+   */
+  private update<T>(mutator: CalendarMutator<T>, job?: string): Promise<T> {
+    const call = this.toolCalls.getStore();
+    return this.store.update(async calendar => {
+      const before = snapshotTasks(calendar);
+      const result = await mutator(calendar);
+      assignTaskRefs(calendar);
+      if (job) {
+        recordChanges(calendar, before, job, undefined, true);
+      } else {
+        recordChanges(calendar, before, call?.action ?? 'unknown', call?.source);
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Search every saved task, archived ones included, plus recurring
+   * instances for the coming week
+   */
+  private async search(search: TaskSearch): Promise<SearchHit[]> {
+    return searchTasks(this.getScheduledTasks(await this.store.readCalendar()), search);
+  }
+
+  /**
+   * Every saved task plus recurring instances for the coming week
+   */
+  private getScheduledTasks(calendar: PlanCalendar): Task[] {
+    const tasks = getAllTasks(calendar);
+    const savedIds = new Set(tasks.map(t => t.id));
+    const today = getToday();
+    for (let offset = 0; offset < SCHEDULE_RECURRENCE_DAYS; offset++) {
+      tasks.push(...getRecurringInstances(calendar, addDays(today, offset), savedIds));
+    }
+    return tasks;
+  }
+
+  private async addTask(args: Record<string, any>): Promise<CallToolResult> {
+    const taskDate = parseDateArg(args.date);
+    if (args.recurrence !== undefined && args.recurrence !== null) {
+      if (args.blockedBy?.length) {
+        throw new Error('Recurring tasks cannot be blocked by other tasks; link a single occurrence with update_task instead');
+      }
+      if (args.dueDate) {
+        throw new Error('Recurring tasks cannot have a due date; set one on a single occurrence with update_task instead');
+      }
+      return this.addRecurringTask(args, taskDate);
+    }
+    const { text, timeSlot } = parseNewTask(args);
+    const newTask: Task = {
+      id: createTaskId(),
+      text,
+      completed: false,
+      timeSlot,
+      date: taskDate,
+    };
+    setTaskTimes(newTask, parseTaskTimes(args), this.slotBoundaries);
+    Object.assign(newTask, parseTaskOptions(args));
+    const { blockedBy } = args.blockedBy !== undefined ? parseTaskPatch({ blockedBy: args.blockedBy }) : { blockedBy: null };
+    await this.update(calendar => {
+      setBlockedBy(calendar, newTask, blockedBy ?? null);
+      getPlan(calendar, taskDate).tasks.push(newTask);
+    });
+
+    const dateText = args.date ? ` for ${taskDate}` : '';
+    return textResult(`Added task ${formatTaskRef(newTask)}: ${newTask.text}${formatPriority(newTask)}${formatLabels(newTask)}${formatTimes(newTask)}${dateText}${formatDue(newTask)}`);
+  }
+
+  private async addRecurringTask(args: Record<string, any>, startDate: string): Promise<CallToolResult> {
+    // The series is the template of every occurrence, so check it before saving
+    const { text, timeSlot } = parseNewTask(args);
+    const series: Task = {
+      id: createTaskId(),
+      text,
+      completed: false,
+      timeSlot,
+      date: startDate,
+      recurrence: parseRecurrenceArg(args.recurrence),
+    };
+    setTaskTimes(series, parseTaskTimes(args), this.slotBoundaries);
+    Object.assign(series, parseTaskOptions(args));
+    await this.update(calendar => {
+      calendar.recurring = { ...calendar.recurring, [series.id]: series };
+      // Its occurrences this week get handles right away, not tomorrow
+      saveUpcomingOccurrences(calendar, getToday());
+    });
+
+    return textResult(`Added recurring task: ${series.text}${formatPriority(series)}${formatLabels(series)}${formatTimes(series)} (${describeRecurrence(series.recurrence!)}, starting ${startDate})`);
+  }
+
+  private async completeTask(args: Record<string, any>): Promise<CallToolResult> {
+    const { task, stoppedTimer } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      task.completed = !task.completed;
+      // With cascade, the whole checklist follows the task
+      if (args.cascade) {
+        setSubtasksCompleted(task.subtasks, task.completed);
+      }
+      // Finishing a task stops its timer and ends its focus session
+      const stoppedTimer = task.completed && calendar.activeTimer?.taskId === task.id
+        ? !!stopActiveTimer(calendar, new Date())
+        : false;
+      if (task.completed && calendar.focusSession?.taskId === task.id) {
+        delete calendar.focusSession;
+      }
+      return { task, stoppedTimer };
+    });
+    const timerText = stoppedTimer ? `, timer stopped${formatTracked(task)}` : '';
+    return textResult(`${task.completed ? 'Completed' : 'Uncompleted'} task: ${task.text}${formatProgress(task)}${timerText}`);
+  }
+
+  private async addSubtask(args: Record<string, any>): Promise<CallToolResult> {
+    if (typeof args.text !== 'string' || !args.text.trim()) {
+      throw new Error('Subtask text must be a non-empty string');
+    }
+    const { task, subtask, parent } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      const parent = args.parentSubtaskId !== undefined && args.parentSubtaskId !== null
+        ? findSubtask(task, args.parentSubtaskId)
+        : undefined;
+      const subtask: Subtask = { id: nextSubtaskId(task), text: args.text.trim(), completed: false };
+      const siblings = parent ? (parent.subtasks ??= []) : (task.subtasks ??= []);
+      siblings.push(subtask);
+      // A new open step reopens whatever it was added to
+      if (parent) {
+        parent.completed = false;
+      }
+      return { task, subtask, parent };
+    });
+
+    const parentText = parent ? ` under "${parent.text}"` : '';
+    return textResult(`Added subtask ${subtask.id}: ${subtask.text}${parentText} to task ${task.text}${formatProgress(task)}`);
+  }
+
+  private async completeSubtask(args: Record<string, any>): Promise<CallToolResult> {
+    const { task, subtask } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      const subtask = findSubtask(task, args.subtaskId);
+      subtask.completed = !subtask.completed;
+      if (args.cascade) {
+        setSubtasksCompleted(subtask.subtasks, subtask.completed);
+      }
+      return { task, subtask };
+    });
+    return textResult(`${subtask.completed ? 'Completed' : 'Uncompleted'} subtask: ${subtask.text}${formatProgress(task)} in task ${task.text}`);
+  }
+
+  private async startTimer(args: Record<string, any>): Promise<CallToolResult> {
+    const { task, stopped } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      if (task.completed) {
+        throw new Error(`Cannot start a timer on a completed task: ${task.text}`);
+      }
+      if (calendar.activeTimer?.taskId === task.id) {
+        throw new Error(`Timer is already running for: ${task.text}`);
+      }
+      // Only one timer runs at a time; starting another stops the current one
+      const now = new Date();
+      const stopped = stopActiveTimer(calendar, now);
+      calendar.activeTimer = { taskId: task.id, startedAt: now.toISOString() };
+      return { task, stopped };
+    });
+
+    const lines = [`Started timer for: ${task.text}${formatTracked(task)}`];
+    if (stopped) {
+      lines.push(`Stopped timer for: ${stopped.task.text} after ${formatTrackedMinutes(entryMinutes(stopped.entry))}${formatTracked(stopped.task)}`);
+    }
+    return textResult(lines.join('\n'));
+  }
+
+  private async stopTimer(): Promise<CallToolResult> {
+    const stopped = await this.update(calendar => {
+      if (!calendar.activeTimer) {
+        throw new Error('No timer is running');
+      }
+      return stopActiveTimer(calendar, new Date());
+    });
+    if (!stopped) {
+      return textResult('Stopped timer; its task no longer exists');
+    }
+    return textResult(`Stopped timer for: ${stopped.task.text} after ${formatTrackedMinutes(entryMinutes(stopped.entry))}${formatTracked(stopped.task)}`);
+  }
+
+  private async startFocus(args: Record<string, any>): Promise<CallToolResult> {
+    const workMinutes = args.workMinutes !== undefined ? parseFocusMinutes(args.workMinutes, 'work') : undefined;
+    const breakMinutes = args.breakMinutes !== undefined ? parseFocusMinutes(args.breakMinutes, 'break') : undefined;
+    const { task, session, resumed } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      if (task.completed) {
+        throw new Error(`Cannot focus on a completed task: ${task.text}`);
+      }
+      // Starting focus on the task already in focus begins its next work
+      // cycle; any other task starts a new session
+      const current = calendar.focusSession?.taskId === task.id ? calendar.focusSession : undefined;
+      const now = new Date().toISOString();
+      const session: FocusSession = {
+        taskId: task.id,
+        workMinutes: workMinutes ?? current?.workMinutes ?? DEFAULT_WORK_MINUTES,
+        breakMinutes: breakMinutes ?? current?.breakMinutes ?? DEFAULT_BREAK_MINUTES,
+        phase: 'work',
+        phaseStartedAt: now,
+        startedAt: current?.startedAt ?? now,
+        pomodoros: current?.pomodoros ?? 0,
+      };
+      calendar.focusSession = session;
+      return { task, session, resumed: !!current };
+    });
+
+    const lengths = `${session.workMinutes} min work, ${session.breakMinutes} min break`;
+    return textResult(`${resumed ? 'Next focus cycle' : 'Started focus'} on: ${task.text} (${lengths}; ${session.pomodoros} pomodoro${session.pomodoros !== 1 ? 's' : ''} so far)`);
+  }
+
+  private async logPomodoro(args: Record<string, any>): Promise<CallToolResult> {
+    const minutes = args.minutes !== undefined ? parseFocusMinutes(args.minutes, 'work') : undefined;
+    if (args.phaseStartedAt !== undefined && typeof args.phaseStartedAt !== 'string') {
+      throw new Error('phaseStartedAt must be the ISO timestamp the work phase started at');
+    }
+    const { task, entry, session } = await this.update(calendar => {
+      const current = calendar.focusSession;
+      const taskId = args.taskId ?? current?.taskId;
+      if (!taskId) {
+        throw new Error('taskId is required when no focus session is running');
+      }
+      const task = findTask(calendar, taskId);
+      const session = current?.taskId === task.id ? current : undefined;
+      // Every open dashboard and the assistant may report the same work phase
+      // ending: only the first report of a phase counts, and a session's
+      // break has nothing to log
+      const phaseOver = session
+        ? session.phase !== 'work' || (args.phaseStartedAt !== undefined && args.phaseStartedAt !== session.phaseStartedAt)
+        : args.phaseStartedAt !== undefined;
+      if (phaseOver) {
+        return { task, entry: undefined, session };
+      }
+      const now = new Date().toISOString();
+      const entry = { end: now, minutes: minutes ?? session?.workMinutes ?? DEFAULT_WORK_MINUTES };
+      task.pomodoros = [...(task.pomodoros || []), entry];
+      // The session moves on to its break
+      if (session) {
+        session.pomodoros++;
+        session.phase = 'break';
+        session.phaseStartedAt = now;
+      }
+      return { task, entry, session };
+    });
+
+    if (!entry) {
+      return textResult(`Pomodoro already logged on: ${task.text} (that work phase has ended)`);
+    }
+    const breakText = session ? `; ${session.breakMinutes} min break` : '';
+    return textResult(`Logged pomodoro on: ${task.text} (${entry.minutes} min, ${pomodoroCount(task)} in total${breakText})`);
+  }
+
+  private async stopFocus(): Promise<CallToolResult> {
+    const { session, task } = await this.update(calendar => {
+      const session = calendar.focusSession;
+      if (!session) {
+        throw new Error('No focus session is running');
+      }
+      delete calendar.focusSession;
+      return { session, task: getAllTasks(calendar).find(t => t.id === session.taskId) };
+    });
+    return textResult(`Stopped focus on: ${task?.text ?? session.taskId} after ${session.pomodoros} pomodoro${session.pomodoros !== 1 ? 's' : ''}`);
+  }
+
+  /**
+   * Undo the latest change that isn't undone yet, or redo the latest undone
+   * one. Either way the reversal is appended to the log like any change.
+   */
+  private async undoOrRedo(direction: 'undo' | 'redo'): Promise<CallToolResult> {
+    const source = this.toolCalls.getStore()?.source;
+    const target = await this.store.update(calendar => {
+      const { done, undone } = undoStacks(calendar.events || []);
+      const target = (direction === 'undo' ? done : undone).pop();
+      if (!target) {
+        throw new Error(`Nothing to ${direction}`);
+      }
+      const changes = revertChanges(calendar, target, direction);
+      dropOrphanedSessions(calendar);
+      appendEvent(calendar, { at: new Date().toISOString(), action: direction, ...(source && { source }), target: target.id, changes });
+      return target;
+    });
+
+    const by = target.source ? ` by ${target.source}` : '';
+    const lines = [
+      `${direction === 'undo' ? 'Undid' : 'Redid'} ${target.action} (#${target.id}${by}, ${target.at})`,
+      ...summarizeEvent(target, new Set()).changes.map(change => `- ${formatChange(change)}`),
+    ];
+    return textResult(lines.join('\n'));
+  }
+
+  private async planDay(args: Record<string, any>): Promise<CallToolResult> {
+    const taskDate = parseDateArg(args.date);
+    const dryRun = args.dryRun === true;
+    const options = {
+      capacity: args.capacity !== undefined ? parseSlotCapacity(args.capacity, this.slotCapacity) : this.slotCapacity,
+      // Preferences given for this plan win over the configured ones
+      preferences: [
+        ...(args.preferences !== undefined ? parseEnergyPreferencesArg(args.preferences) : []),
+        ...this.energyPreferences,
+      ],
+      boundaries: this.slotBoundaries,
+    };
+
+    let plan: DayPlan;
+    if (dryRun) {
+      const calendar = await this.store.readCalendar();
+      plan = scheduleDay(getTasksForDate(calendar, taskDate), getAllTasks(calendar), taskDate, options);
+    } else {
+      plan = await this.update(calendar => {
+        materializeInstances(calendar, taskDate);
+        const plan = scheduleDay(getTasksForDate(calendar, taskDate), getAllTasks(calendar), taskDate, options);
+        for (const assignment of plan.assignments) {
+          findTask(calendar, assignment.taskId).timeSlot = assignment.timeSlot;
+        }
+        return plan;
+      });
+    }
+
+    const count = plan.assignments.length;
+    const lines = [
+      `${dryRun ? 'Would assign' : 'Assigned'} ${count} task${count !== 1 ? 's' : ''} to time slots for ${taskDate}${dryRun ? ' (dry run, nothing saved)' : ''}`,
+      ...plan.assignments.map(a => `- ${a.text}: ${a.timeSlot} (${a.reasons.join('; ')})`),
+      `Load: ${Object.entries(plan.load).map(([slot, l]) => `${slot} ${l.scheduledMinutes}/${l.capacityMinutes} min`).join(', ')}`,
+    ];
+    return {
+      ...textResult(lines.join('\n')),
+      structuredContent: { ...plan, dryRun },
+    };
+  }
+
+  private async archiveTask(args: Record<string, any>): Promise<CallToolResult> {
+    const task = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      if (!task.completed) {
+        throw new Error(`Task must be completed before archiving: ${task.text}`);
+      }
+      setArchived(task, true);
+      return task;
+    });
+    return textResult(`Archived task: ${task.text}`);
+  }
+
+  private async unarchiveTask(args: Record<string, any>): Promise<CallToolResult> {
+    const task = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      if (!task.archived) {
+        throw new Error(`Task is not archived: ${task.text}`);
+      }
+      setArchived(task, false);
+      return task;
+    });
+    const compacted = task.compacted ? ' (compacted: its subtasks, time entries and pomodoros were dropped)' : '';
+    return textResult(`Unarchived task: ${task.text} on ${task.date}${compacted}`);
+  }
+
+  private async updateTask(args: Record<string, any>): Promise<CallToolResult> {
+    const patch = parseTaskPatch(args);
+    const { task, changed } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      const before: Task = { ...task };
+      const { date, timeSlot, startTime, endTime, durationMinutes, blockedBy, ...fields } = patch;
+
+      Object.assign(task, fields);
+      // null clears an optional field
+      for (const [field, value] of Object.entries(fields)) {
+        if (value === null) {
+          delete (task as Partial<Task>)[field as keyof Task];
+        }
+      }
+      if (timeSlot !== undefined) {
+        setTimeSlot(task, timeSlot, this.slotBoundaries);
+      }
+      if (startTime !== undefined || endTime !== undefined || durationMinutes !== undefined) {
+        const times: TaskTimes = { startTime: task.startTime, endTime: task.endTime, durationMinutes: task.durationMinutes };
+        // A new start or duration moves the end with it, a new end changes the
+        // duration, and a new end plus duration moves the start
+        if (startTime !== undefined || durationMinutes !== undefined) {
+          delete times.endTime;
+        }
+        if (endTime !== undefined) {
+          delete times[durationMinutes !== undefined && startTime === undefined ? 'startTime' : 'durationMinutes'];
+        }
+        if (startTime !== undefined) {
+          times.startTime = startTime ?? undefined;
+        }
+        if (endTime !== undefined) {
+          times.endTime = endTime ?? undefined;
+        }
+        if (durationMinutes !== undefined) {
+          times.durationMinutes = durationMinutes ?? undefined;
+        }
+        setTaskTimes(task, times, this.slotBoundaries);
+        if (timeSlot !== undefined && task.timeSlot !== (timeSlot ?? undefined)) {
+          throw new Error(`timeSlot ${timeSlot} does not match startTime ${task.startTime}`);
+        }
+      }
+      if (blockedBy !== undefined) {
+        setBlockedBy(calendar, task, blockedBy);
+      }
+      if (Boolean(before.archived) !== Boolean(task.archived)) {
+        setArchived(task, Boolean(task.archived));
+      }
+      assertValidTask(task);
+      if (date) {
+        moveTask(calendar, task, date);
+      }
+
+      const fieldNames = new Set([...Object.keys(before), ...Object.keys(task)] as (keyof Task)[]);
+      const changed = [...fieldNames].filter(field => JSON.stringify(before[field]) !== JSON.stringify(task[field]));
+      return { task, changed };
+    });
+
+    const changedText = changed.length > 0 ? ` (changed ${changed.join(', ')})` : ' (no changes)';
+    return textResult(`Updated task: ${task.text}${changedText}`);
+  }
+
+  private async deleteTask(args: Record<string, any>): Promise<CallToolResult> {
+    const { task, deletedSeries } = await this.update(calendar => {
+      const task = findTask(calendar, args.taskId);
+      removeTask(calendar, task);
+      dropOrphanedSessions(calendar);
+      // Tasks it blocked no longer wait for it
+      for (const other of getAllTasks(calendar)) {
+        if (other.blockedBy?.includes(task.id)) {
+          other.blockedBy = other.blockedBy.filter(id => id !== task.id);
+          if (other.blockedBy.length === 0) {
+            delete other.blockedBy;
+          }
+        }
+      }
+
+      const series = task.recurrenceId ? calendar.recurring?.[task.recurrenceId] : undefined;
+      if (!series) {
+        return { task, deletedSeries: false };
+      }
+
+      if (args.series) {
+        // End the series the day before this occurrence and drop its open instances from here on;
+        // earlier occurrences and completed history stay
+        const until = addDays(task.date, -1);
+        if (until < series.date) {
+          delete calendar.recurring![series.id];
+        } else {
+          series.recurrence = { ...series.recurrence!, until };
+        }
+        for (const plan of Object.values(calendar.plans)) {
+          if (plan.date >= task.date) {
+            plan.tasks = plan.tasks.filter(t => t.recurrenceId !== series.id || t.completed);
+          }
+        }
+        dropOrphanedSessions(calendar);
+        return { task, deletedSeries: true };
+      }
+
+      // Otherwise skip just this occurrence so it isn't generated again
+      series.recurrence = {
+        ...series.recurrence!,
+        exceptDates: [...(series.recurrence!.exceptDates || []), task.date],
+      };
+      return { task, deletedSeries: false };
+    });
+
+    if (deletedSeries) {
+      return textResult(`Deleted recurring task: ${task.text} (from ${task.date} on)`);
+    }
+    return textResult(`Deleted task: ${task.text}${task.recurrenceId ? ` (occurrence on ${task.date})` : ''}`);
+  }
+
+  private async archiveCompleted(args: Record<string, any>): Promise<CallToolResult> {
+    // Without a date, every day is swept
+    const taskDate = args.date ? parseDateArg(args.date) : null;
+    const results = await this.update(calendar => {
+      const tasks = taskDate ? calendar.plans[taskDate]?.tasks || [] : getAllTasks(calendar);
+      return tasks
+        .filter(t => t.completed && !t.archived)
+        .map((task): BulkTaskResult => {
+          setArchived(task, true);
+          return { taskId: task.id, text: task.text, status: 'changed', message: 'archived' };
+        });
+    });
+
+    const scope = taskDate ? ` for ${taskDate}` : '';
+    if (results.length === 0) {
+      return bulkResult(`No completed tasks to archive${scope}`, results);
+    }
+    return bulkResult(`Archived ${results.length} completed task${results.length !== 1 ? 's' : ''}${scope}`, results);
+  }
+
+  private async bulkComplete(args: Record<string, any>): Promise<CallToolResult> {
+    const results = await this.update(calendar =>
+      resolveTasks(calendar, args.taskIds).map((task): BulkTaskResult => {
+        if (task.completed) {
+          return { taskId: task.id, text: task.text, status: 'unchanged', message: 'already completed' };
+        }
+        task.completed = true;
+        if (calendar.focusSession?.taskId === task.id) {
+          delete calendar.focusSession;
+        }
+        if (calendar.activeTimer?.taskId === task.id) {
+          stopActiveTimer(calendar, new Date());
+          return { taskId: task.id, text: task.text, status: 'changed', message: 'completed, timer stopped' };
+        }
+        return { taskId: task.id, text: task.text, status: 'changed', message: 'completed' };
+      })
+    );
+
+    const completed = results.filter(r => r.status === 'changed').length;
+    return bulkResult(`Completed ${completed} of ${results.length} tasks`, results);
+  }
+
+  private async moveTasks(args: Record<string, any>): Promise<CallToolResult> {
+    if (args.date === undefined && args.timeSlot === undefined) {
+      throw new Error('move_tasks needs a date, a timeSlot or both');
+    }
+    const { date, timeSlot } = parseTaskPatch({ date: args.date, timeSlot: args.timeSlot });
+
+    const results = await this.update(calendar =>
+      resolveTasks(calendar, args.taskIds).map((task): BulkTaskResult => {
+        const from = `${task.date} ${task.timeSlot || 'unscheduled'}`;
+        if (timeSlot !== undefined) {
+          setTimeSlot(task, timeSlot, this.slotBoundaries);
+        }
+        if (date) {
+          moveTask(calendar, task, date);
+        }
+        const to = `${task.date} ${task.timeSlot || 'unscheduled'}`;
+
+        return from === to
+          ? { taskId: task.id, text: task.text, status: 'unchanged', message: `already in ${to}` }
+          : { taskId: task.id, text: task.text, status: 'changed', message: `moved from ${from} to ${to}` };
+      })
+    );
+
+    const moved = results.filter(r => r.status === 'changed').length;
+    return bulkResult(`Moved ${moved} of ${results.length} tasks`, results);
+  }
+
+  /**
+   * Roll unfinished tasks over to today right away, with the configured
+   * policy or another one (useful when the automatic rollover is off)
+   */
+  private async rolloverTasks(args: Record<string, any>): Promise<CallToolResult> {
+    const policy = args.policy !== undefined ? parseRolloverPolicy(args.policy) : this.rolloverPolicy;
+    if (policy === 'off') {
+      throw new Error('Pass policy "move" or "unschedule" to roll tasks over while the automatic rollover is off');
+    }
+    const today = getToday();
+    const record = await this.update(calendar => rollOver(calendar, today, policy));
+    return textResult(record ? formatRollover(record).join('\n') : 'No unfinished tasks from earlier days to roll over');
+  }
+
+  /**
+   * Apply the archive retention policy right away, with the configured
+   * policy or another one
+   */
+  private async applyRetentionNow(args: Record<string, any>): Promise<CallToolResult> {
+    const retention = args.retention !== undefined ? parseArchiveRetention(args.retention) : this.archiveRetention;
+    if (!retention.compactAfterDays && !retention.purgeAfterDays) {
+      throw new Error('Pass a retention like "compact:30,purge:365" to clean up the archive while no policy is configured');
+    }
+    const today = getToday();
+    const result = await this.update(calendar => {
+      const result = applyRetention(calendar, today, retention);
+      dropOrphanedSessions(calendar);
+      return result;
+    });
+    if (result.compacted.length === 0 && result.purged.length === 0) {
+      return textResult(`No archived tasks to clean up (${describeArchiveRetention(retention)})`);
+    }
+    return textResult(formatRetention(result).join('\n'));
+  }
+
+  private async searchTasks(args: Record<string, any>): Promise<CallToolResult> {
+    const search = parseTaskSearch(args);
+    const hits = await this.search(search);
+    if (hits.length === 0) {
+      return { ...textResult(`No tasks match "${search.query}"`), structuredContent: { results: [] } };
+    }
+    const summary = `Found ${hits.length} task${hits.length !== 1 ? 's' : ''} matching "${search.query}", best match first`;
+    return {
+      ...textResult([summary, ...hits.map(formatSearchHit)].join('\n')),
+      structuredContent: { results: hits },
+    };
+  }
+
+  /**
+   * Write the end-of-day review of a date; only the fields given change and
+   * null clears one
+   */
+  private async saveJournal(args: Record<string, any>): Promise<CallToolResult> {
+    const date = parseDateArg(args.date);
+    if (['note', 'mood', 'energy', 'slipReasons'].every(field => args[field] === undefined)) {
+      throw new Error('save_journal needs a note, mood, energy or slipReasons');
+    }
+    const reasons = args.slipReasons ?? {};
+    if (typeof reasons !== 'object' || Array.isArray(reasons)) {
+      throw new Error('slipReasons must map task IDs or #handles to reasons');
+    }
+
+    const entry = await this.update(calendar => {
+      const entry: JournalEntry = { ...calendar.journal?.[date], date, updatedAt: new Date().toISOString() };
+      const note = args.note === null ? '' : args.note !== undefined ? parseJournalNote(args.note) : entry.note;
+      if (note) {
+        entry.note = note;
+      } else {
+        delete entry.note;
+      }
+      for (const field of ['mood', 'energy'] as const) {
+        if (args[field] === null) {
+          delete entry[field];
+        } else if (args[field] !== undefined) {
+          entry[field] = parseRating(args[field], field);
+        }
+      }
+      const slipReasons = { ...entry.slipReasons };
+      for (const [taskId, reason] of Object.entries(reasons)) {
+        const task = findTask(calendar, taskId);
+        const text = reason === null ? '' : parseSlipReason(reason);
+        if (text) {
+          slipReasons[task.id] = text;
+        } else {
+          delete slipReasons[task.id];
+        }
+      }
+      if (Object.keys(slipReasons).length > 0) {
+        entry.slipReasons = slipReasons;
+      } else {
+        delete entry.slipReasons;
+      }
+      calendar.journal = { ...calendar.journal, [date]: entry };
+      return entry;
+    });
+
+    const saved = [
+      entry.mood && `mood ${entry.mood}/5`,
+      entry.energy && `energy ${entry.energy}/5`,
+      entry.note && 'a note',
+      entry.slipReasons && `${Object.keys(entry.slipReasons).length} slip reason${Object.keys(entry.slipReasons).length !== 1 ? 's' : ''}`,
+    ].filter(Boolean);
+    return textResult(`Saved the journal for ${date}${saved.length > 0 ? `: ${saved.join(', ')}` : ' (now empty)'}`);
+  }
+
+  /**
+   * Move a day's open tasks (or the ones given) to a later day, recorded in
+   * the rollover log like the daily rollover
+   */
+  private async rollForward(args: Record<string, any>): Promise<CallToolResult> {
+    const date = parseDateArg(args.date);
+    const to = args.to !== undefined ? parseDateArg(args.to) : addDays(date, 1);
+    if (to <= date) {
+      throw new Error(`roll_forward moves tasks to a later day, but ${to} is not after ${date}`);
+    }
+
+    const results = await this.update(calendar => {
+      const explicit = args.taskIds !== undefined;
+      const candidates = explicit ? resolveTasks(calendar, args.taskIds) : calendar.plans[date]?.tasks || [];
+      const results: BulkTaskResult[] = [];
+      const moving: Task[] = [];
+      for (const task of candidates) {
+        const skip = task.date !== date ? `planned for ${task.date}, not ${date}`
+          : task.completed ? 'already completed'
+          : task.archived ? 'archived'
+          : task.recurrenceId ? 'repeats anyway'
+          : null;
+        if (!skip) {
+          moving.push(task);
+          results.push({ taskId: task.id, text: task.text, status: 'changed', message: `rolled forward to ${to}` });
+        } else if (explicit) {
+          results.push({ taskId: task.id, text: task.text, status: 'unchanged', message: skip });
+        }
+      }
+      carryOver(calendar, moving, to, 'move');
+      return results;
+    });
+
+    const moved = results.filter(r => r.status === 'changed').length;
+    if (results.length === 0) {
+      return bulkResult(`No open tasks on ${date} to roll forward`, results);
+    }
+    return bulkResult(`Rolled ${moved} open task${moved !== 1 ? 's' : ''} from ${date} forward to ${to}`, results);
+  }
+
+  private async smartAddTask(args: Record<string, any>): Promise<CallToolResult> {
+    parseNewTask({ text: args.text });
+    const dayCommand = parseDayCommand(args.text);
+    const parsed = parseTimeText(dayCommand?.taskText || args.text);
+    const prioritized = parsePriorityText(parsed.text);
+    const labeled = parseTagText(prioritized.text);
+    const due = parseDueText(labeled.text, getToday());
+    const taskDate = dayCommand?.date || parseDateArg(args.date);
+    if (!due.text.trim()) {
+      throw new Error(`Invalid task: text: "${args.text}" has no task left once its time, priority, labels and due date are taken out`);
+    }
+    const newTask: Task = {
+      id: createTaskId(),
+      text: due.text,
+      completed: false,
+      timeSlot: dayCommand?.timeSlot || categorizeTask(args.text, this.slotBoundaries),
+      date: taskDate,
+    };
+    // Times in the task text win over times in the day part of a command
+    setTaskTimes(newTask, {
+      startTime: parsed.startTime || dayCommand?.startTime,
+      endTime: parsed.startTime ? parsed.endTime : dayCommand?.endTime,
+      durationMinutes: parsed.durationMinutes || dayCommand?.durationMinutes,
+    }, this.slotBoundaries);
+    // Explicit arguments win over a priority, project or due date named in the text; tags add up
+    const options = parseTaskOptions({
+      priority: prioritized.priority,
+      project: labeled.project,
+      dueDate: due.dueDate,
+      ...args,
+      tags: [...labeled.tags, ...(args.tags ? parseTagsArg(args.tags) : [])],
+    });
+    Object.assign(newTask, options);
+    await this.update(calendar => {
+      getPlan(calendar, taskDate).tasks.push(newTask);
+    });
+
+    const timeSlotText = newTask.timeSlot ? ` (automatically categorized as ${newTask.timeSlot})` : ' (no specific time detected)';
+    const dateText = taskDate !== getToday() ? ` for ${taskDate}` : '';
+    return textResult(`Added task ${formatTaskRef(newTask)}: ${newTask.text}${formatPriority(newTask)}${formatLabels(newTask)}${formatTimes(newTask)}${timeSlotText}${dateText}${formatDue(newTask)}`);
+  }
+
+  private async analyzeIntent(args: Record<string, any>): Promise<CallToolResult> {
+    if (!this.anthropic) {
+      throw new Error('Anthropic API not available for intent analysis');
+    }
+
+    const response = await this.anthropic.messages.create({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 200,
+      system: INTENT_SYSTEM_PROMPT,
+      messages: [
+        {
+          role: 'user',
+          content: args.message,
+        },
+      ],
+    });
+
+    return textResult(response.content[0]?.type === 'text' ? response.content[0].text : '');
+  }
+}
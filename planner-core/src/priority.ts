@@ -0,0 +1,82 @@
+import type { EisenhowerQuadrant, Priority } from './types';
+
+export const PRIORITIES: Priority[] = [1, 2, 3, 4];
+
+export const QUADRANT_PRIORITIES: Record<EisenhowerQuadrant, Priority> = {
+  do: 1, // urgent and important
+  schedule: 2, // important, not urgent
+  delegate: 3, // urgent, not important
+  eliminate: 4, // neither
+};
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  1: 'Urgent & important',
+  2: 'Important',
+  3: 'Urgent',
+  4: 'Neither urgent nor important',
+};
+
+export const quadrantFor = (priority: Priority = 4): EisenhowerQuadrant =>
+  (Object.keys(QUADRANT_PRIORITIES) as EisenhowerQuadrant[]).find(q => QUADRANT_PRIORITIES[q] === priority)!;
+
+/**
+ * Order tasks from P1 to P4; tasks without a priority rank with P4
+ */
+export const comparePriority = (a: { priority?: Priority }, b: { priority?: Priority }): number =>
+  (a.priority ?? 4) - (b.priority ?? 4);
+
+/**
+ * Validate a priority argument: 1-4, "p1"-"p4", an Eisenhower quadrant name
+ * or `{ urgent, important }`
+ */
+export function parsePriorityArg(value: unknown): Priority {
+  if (typeof value === 'number' && PRIORITIES.includes(value as Priority)) {
+    return value as Priority;
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    const match = /^p?([1-4])$/.exec(normalized);
+    if (match) {
+      return Number(match[1]) as Priority;
+    }
+    if (normalized in QUADRANT_PRIORITIES) {
+      return QUADRANT_PRIORITIES[normalized as EisenhowerQuadrant];
+    }
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const { urgent = false, important = false, ...rest } = value as Record<string, unknown>;
+    if (typeof urgent === 'boolean' && typeof important === 'boolean' && Object.keys(rest).length === 0) {
+      if (important) {
+        return urgent ? 1 : 2;
+      }
+      return urgent ? 3 : 4;
+    }
+  }
+  throw new Error(`Invalid priority: ${JSON.stringify(value)}. Use 1-4, "p1"-"p4", a quadrant (do, schedule, delegate, eliminate) or { urgent, important }`);
+}
+
+// A null priority is read from the phrase's number
+const PRIORITY_PHRASES: [RegExp, Priority | null][] = [
+  [/\b(?:p|priority\s*)([1-4])\b/i, null],
+  [/\bhigh(?:est)?[\s-]priority\b/i, 1],
+  [/\bmedium[\s-]priority\b/i, 2],
+  [/\blow(?:est)?[\s-]priority\b/i, 4],
+];
+
+/**
+ * Pull an explicit priority out of natural language ("p1", "priority 2",
+ * "high priority"), returning the text without it
+ */
+export function parsePriorityText(input: string): { text: string; priority?: Priority } {
+  for (const [pattern, priority] of PRIORITY_PHRASES) {
+    const match = pattern.exec(input);
+    if (match) {
+      // Drop separators around the phrase too ("high priority: taxes", "bank, p2")
+      const before = input.slice(0, match.index).replace(/[,;:–-]?\s*$/, '');
+      const after = input.slice(match.index + match[0].length).replace(/^\s*[,;:–-]?/, '');
+      const text = `${before} ${after}`.replace(/\s+/g, ' ').replace(/\s+([,.!?])/g, '$1').trim();
+      return { text: text || input, priority: priority ?? Number(match[1]) as Priority };
+    }
+  }
+  return { text: input };
+}
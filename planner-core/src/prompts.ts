@@ -0,0 +1,294 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+export const PROMPT_DEFINITIONS: Prompt[] = [
+  {
+    name: 'custom_assistant',
+    description: 'Interactive AI assistant for any question or task, aware of your recent end-of-day reviews',
+    arguments: [
+      {
+        name: 'message',
+        description: 'Your question or request for the AI assistant',
+        required: true,
+      },
+      {
+        name: 'context',
+        description: 'Additional context or conversation history',
+        required: false,
+      },
+      {
+        name: 'role',
+        description: 'AI assistant role (productivity_coach, task_planner, creative_helper, etc.)',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'suggest_tasks',
+    description: 'Get AI-powered task suggestions for your day',
+    arguments: [
+      {
+        name: 'context',
+        description: 'Additional context about your day, goals, or priorities',
+        required: false,
+      },
+      {
+        name: 'focus_area',
+        description: 'Specific area to focus on (work, personal, health, etc.)',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'optimize_schedule',
+    description: 'Get suggestions to optimize your daily schedule, drawing on your recent end-of-day reviews',
+    arguments: [
+      {
+        name: 'current_tasks',
+        description: 'Your current task list in JSON format',
+        required: true,
+      },
+      {
+        name: 'preferences',
+        description: 'Your scheduling preferences (e.g., when you work best)',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'productivity_tips',
+    description: 'Get personalized productivity tips based on your tasks',
+    arguments: [
+      {
+        name: 'task_types',
+        description: 'Types of tasks you typically work on',
+        required: false,
+      },
+    ],
+  },
+];
+
+export const INTENT_SYSTEM_PROMPT = `You are an intent analyzer for a task management system. Analyze the user's message and determine their intent.
+
+Return a JSON object with:
+- intent: one of "add_task", "complete_task", "delete_task", "plan_day", "archive_completed", "undo", "redo", "search_tasks", "list_tasks", "help", or "conversation"
+- params: object containing extracted parameters
+
+For "add_task": extract taskText, keeping any time, duration, deadline, "#project" or "@tag" in it ("at 3pm", "9-10am", "for 30 minutes", "due friday", "#work", "@errands"), and priority (1-4) only when the user says how urgent or important it is (1 = urgent and important, 2 = important, 3 = urgent, 4 = neither)
+For "complete_task": extract taskId (if mentioned, including handles like "#42", which are never projects), taskName (for partial matches), or taskNumber (for numbered references like "task 1")  
+For "delete_task": extract taskId, taskName or taskNumber, like "complete_task"
+For "archive_completed": extract date (YYYY-MM-DD) only if a specific day is mentioned
+For "search_tasks": extract query (the words that identify the task, without filler like "that thing about")
+For other intents: extract any relevant parameters
+
+Examples:
+- "buy groceries" → {"intent": "add_task", "params": {"taskText": "buy groceries"}}
+- "add clean kitchen" → {"intent": "add_task", "params": {"taskText": "clean kitchen"}}  
+- "I need to call the bank at 2pm for 15 minutes" → {"intent": "add_task", "params": {"taskText": "call the bank at 2pm for 15 minutes"}}
+- "urgent and important: renew my passport" → {"intent": "add_task", "params": {"taskText": "renew my passport", "priority": 1}}
+- "complete presentation" → {"intent": "complete_task", "params": {"taskName": "presentation"}}
+- "mark task 2 as done" → {"intent": "complete_task", "params": {"taskNumber": "2"}}
+- "I finished #42" → {"intent": "complete_task", "params": {"taskId": "#42"}}
+- "delete the dentist task" → {"intent": "delete_task", "params": {"taskName": "dentist"}}
+- "plan my day" → {"intent": "plan_day", "params": {}}
+- "archive all completed tasks" → {"intent": "archive_completed", "params": {}}
+- "undo that" → {"intent": "undo", "params": {}}
+- "redo" → {"intent": "redo", "params": {}}
+- "find that thing about the dentist" → {"intent": "search_tasks", "params": {"query": "dentist"}}
+- "show my tasks" → {"intent": "list_tasks", "params": {}}
+- "help me" → {"intent": "help", "params": {}}
+- "how's the weather?" → {"intent": "conversation", "params": {}}
+
+Respond with ONLY the JSON object, no other text.`;
+
+// Recent end-of-day reviews for a system prompt, or nothing without any
+const reflectionsBlock = (reflections: string[]): string =>
+  reflections.length > 0
+    ? `Recent end-of-day reviews (what got done, what slipped and why, mood and energy from 1 to 5), newest first:
+
+${reflections.join('\n\n')}
+
+`
+    : '';
+
+/**
+ * Run one of the AI prompts against the Anthropic API
+ */
+export async function runPrompt(
+  anthropic: Anthropic,
+  name: string,
+  args: Record<string, string | undefined> = {},
+  reflections: string[] = []
+): Promise<GetPromptResult> {
+  if (name === 'custom_assistant') {
+    const message = args.message || '';
+    const context = args.context || '';
+    const role = args.role || 'helpful assistant';
+
+    if (!message) {
+      throw new Error('Message is required for custom_assistant prompt');
+    }
+
+    const systemPrompt = `You are a ${role} helping with productivity and task management. 
+
+${context ? `Previous conversation and current context: ${context}` : ''}
+
+${reflectionsBlock(reflections)}When the user mentions "my tasks", "my day", "current tasks", or similar references, use the task information provided in the context above. Be specific about their actual tasks when giving advice.
+
+Provide helpful, practical, and actionable responses. Be conversational and engaging while staying focused on productivity and planning topics. When you can see their actual tasks, reference them specifically in your advice. When end-of-day reviews are listed, draw on the patterns in them (what keeps slipping, and why) but don't recite them.`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 500,
+      messages: [
+        {
+          role: 'user',
+          content: message,
+        },
+      ],
+      system: systemPrompt,
+    });
+
+    return {
+      description: 'Interactive AI assistant response',
+      messages: [
+        {
+          role: 'assistant',
+          content: {
+            type: 'text',
+            text: response.content[0].type === 'text' ? response.content[0].text : 'Error generating response',
+          },
+        },
+      ],
+    };
+  }
+
+  if (name === 'suggest_tasks') {
+    const context = args.context || '';
+    const focusArea = args.focus_area || '';
+    
+    const systemPrompt = `You are a helpful productivity assistant. Generate 3-5 practical, actionable task suggestions for today.
+
+${context ? `Context: ${context}` : ''}
+${focusArea ? `Focus area: ${focusArea}` : ''}
+
+Provide tasks that are:
+- Specific and actionable
+- Achievable in a day
+- Relevant to the context/focus area
+- Varied in scope (mix of quick wins and deeper work)
+
+Format as a simple numbered list.`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 300,
+      messages: [
+        {
+          role: 'user',
+          content: 'Please suggest some tasks for my day.',
+        },
+      ],
+      system: systemPrompt,
+    });
+
+    return {
+      description: 'AI-generated task suggestions for your day',
+      messages: [
+        {
+          role: 'assistant',
+          content: {
+            type: 'text',
+            text: response.content[0].type === 'text' ? response.content[0].text : 'Error generating suggestions',
+          },
+        },
+      ],
+    };
+  }
+
+  if (name === 'optimize_schedule') {
+    const currentTasks = args.current_tasks || '[]';
+    const preferences = args.preferences || '';
+
+    const systemPrompt = `You are a productivity expert specializing in schedule optimization. 
+
+Current tasks: ${currentTasks}
+${preferences ? `Preferences: ${preferences}` : ''}
+
+${reflectionsBlock(reflections)}Analyze the current tasks and provide specific suggestions to optimize the schedule:
+- Best time slots for different types of tasks
+- Task sequencing recommendations
+- Energy management tips
+- Potential time blocks or groupings
+${reflections.length > 0 ? '- What the reviews show: tasks that keep slipping, and days with low energy\n' : ''}
+Be concise and practical.`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 400,
+      messages: [
+        {
+          role: 'user',
+          content: 'Please analyze my schedule and suggest optimizations.',
+        },
+      ],
+      system: systemPrompt,
+    });
+
+    return {
+      description: 'Schedule optimization suggestions',
+      messages: [
+        {
+          role: 'assistant',
+          content: {
+            type: 'text',
+            text: response.content[0].type === 'text' ? response.content[0].text : 'Error generating optimization suggestions',
+          },
+        },
+      ],
+    };
+  }
+
+  if (name === 'productivity_tips') {
+    const taskTypes = args.task_types || '';
+
+    const systemPrompt = `You are a productivity coach. Provide 3-4 specific, actionable productivity tips.
+
+${taskTypes ? `Focus on tasks related to: ${taskTypes}` : ''}
+
+Tips should be:
+- Immediately applicable
+- Evidence-based
+- Practical for daily use
+- Specific rather than generic
+
+Format as a clear, numbered list.`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 300,
+      messages: [
+        {
+          role: 'user',
+          content: 'Please give me some productivity tips.',
+        },
+      ],
+      system: systemPrompt,
+    });
+
+    return {
+      description: 'Personalized productivity tips',
+      messages: [
+        {
+          role: 'assistant',
+          content: {
+            type: 'text',
+            text: response.content[0].type === 'text' ? response.content[0].text : 'Error generating productivity tips',
+          },
+        },
+      ],
+    };
+  }
+
+  throw new Error(`Unknown prompt: ${name}`);
+}
@@ -0,0 +1,198 @@
+import { Recurrence, RecurrenceFrequency, Task } from './types';
+import { parseDateArg } from './dates';
+import { resetSubtasks } from './subtasks';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Safety net for `count` rules whose occurrences are far apart
+const MAX_COUNT_SCAN_DAYS = 366 * 20;
+
+// Dates are plain YYYY-MM-DD strings in UTC, like the rest of the planner
+const toUtc = (date: string): Date => new Date(`${date}T00:00:00Z`);
+const fromUtc = (date: Date): string => date.toISOString().split('T')[0];
+
+export const addDays = (date: string, days: number): string =>
+  fromUtc(new Date(toUtc(date).getTime() + days * DAY_MS));
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((toUtc(to).getTime() - toUtc(from).getTime()) / DAY_MS);
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Instances of a recurring task are identified by the series ID and the date
+ * they fall on, so a materialized instance can always be matched back to its
+ * generated counterpart.
+ */
+export const instanceId = (seriesId: string, date: string): string => `${seriesId}:${date}`;
+
+export function parseInstanceId(taskId: string): { seriesId: string; date: string } | null {
+  const match = /^(.+):(\d{4}-\d{2}-\d{2})$/.exec(taskId);
+  return match ? { seriesId: match[1], date: match[2] } : null;
+}
+
+/**
+ * Whether the rule matches a date, ignoring `count`, `until` and exceptions
+ */
+function matchesPattern(recurrence: Recurrence, start: string, date: string): boolean {
+  const interval = recurrence.interval || 1;
+  const startDate = toUtc(start);
+  const current = toUtc(date);
+  const weekday = current.getUTCDay();
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      return daysBetween(start, date) % interval === 0;
+    case 'weekdays':
+      return weekday >= 1 && weekday <= 5;
+    case 'weekly': {
+      const days = recurrence.daysOfWeek?.length ? recurrence.daysOfWeek : [startDate.getUTCDay()];
+      if (!days.includes(weekday)) {
+        return false;
+      }
+      // Count whole weeks from the Sunday of the start week
+      const weeks = Math.floor((daysBetween(start, date) + startDate.getUTCDay()) / 7);
+      return weeks % interval === 0;
+    }
+    case 'monthly': {
+      const months = (current.getUTCFullYear() - startDate.getUTCFullYear()) * 12
+        + current.getUTCMonth() - startDate.getUTCMonth();
+      if (months % interval !== 0) {
+        return false;
+      }
+      // The 31st falls on the last day of shorter months
+      const day = Math.min(startDate.getUTCDate(), daysInMonth(current.getUTCFullYear(), current.getUTCMonth()));
+      return current.getUTCDate() === day;
+    }
+  }
+}
+
+/**
+ * Whether a recurring task has an occurrence on the given date
+ */
+export function occursOn(series: Task, date: string): boolean {
+  const recurrence = series.recurrence;
+  if (!recurrence || date < series.date) {
+    return false;
+  }
+  if (recurrence.until && date > recurrence.until) {
+    return false;
+  }
+  if (recurrence.exceptDates?.includes(date) || !matchesPattern(recurrence, series.date, date)) {
+    return false;
+  }
+
+  if (recurrence.count) {
+    // Like RRULE, skipped dates still count towards the limit
+    let seen = 0;
+    for (let day = series.date, scanned = 0; day < date && scanned < MAX_COUNT_SCAN_DAYS; day = addDays(day, 1), scanned++) {
+      if (matchesPattern(recurrence, series.date, day) && ++seen >= recurrence.count) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+/**
+ * Build the (unsaved) instance of a recurring task for a date
+ */
+export function createInstance(series: Task, date: string): Task {
+  const { recurrence, archived, ...fields } = series;
+  return {
+    ...fields,
+    ...(series.subtasks && { subtasks: resetSubtasks(series.subtasks) }),
+    id: instanceId(series.id, date),
+    completed: false,
+    date,
+    recurrenceId: series.id,
+  };
+}
+
+const parsePositiveInt = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`Invalid recurrence: ${field} must be a positive integer`);
+  }
+  return value;
+};
+
+/**
+ * Validate a recurrence argument. Accepts a frequency name as shorthand
+ * (`"daily"`) or a full rule object.
+ */
+export function parseRecurrenceArg(value: unknown): Recurrence {
+  const rule: Record<string, any> = typeof value === 'string' ? { frequency: value } : value as Record<string, any>;
+  if (!rule || typeof rule !== 'object') {
+    throw new Error('Invalid recurrence: expected a frequency name or a rule object');
+  }
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    throw new Error(`Invalid recurrence: frequency must be one of ${RECURRENCE_FREQUENCIES.join(', ')}`);
+  }
+
+  const recurrence: Recurrence = { frequency: rule.frequency };
+
+  const interval = parsePositiveInt(rule.interval, 'interval');
+  if (interval && interval > 1 && rule.frequency === 'weekdays') {
+    throw new Error('Invalid recurrence: interval does not apply to weekdays rules');
+  }
+  if (interval && interval > 1) {
+    recurrence.interval = interval;
+  }
+
+  if (rule.daysOfWeek !== undefined) {
+    if (rule.frequency !== 'weekly') {
+      throw new Error('Invalid recurrence: daysOfWeek only applies to weekly rules');
+    }
+    if (!Array.isArray(rule.daysOfWeek) || rule.daysOfWeek.length === 0) {
+      throw new Error('Invalid recurrence: daysOfWeek must be a non-empty array');
+    }
+    recurrence.daysOfWeek = [...new Set(rule.daysOfWeek.map((day: unknown) => {
+      const index = typeof day === 'string' ? WEEKDAY_NAMES.indexOf(day.toLowerCase()) : day;
+      if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index > 6) {
+        throw new Error(`Invalid recurrence: unknown day of week ${day}. Use 0-6 (Sunday = 0) or a day name`);
+      }
+      return index;
+    }))].sort((a, b) => (a as number) - (b as number)) as number[];
+  }
+
+  if (rule.until !== undefined && rule.until !== null) {
+    try {
+      recurrence.until = parseDateArg(rule.until);
+    } catch {
+      throw new Error('Invalid recurrence: until must be a YYYY-MM-DD date');
+    }
+  }
+
+  const count = parsePositiveInt(rule.count, 'count');
+  if (count) {
+    recurrence.count = count;
+  }
+
+  return recurrence;
+}
+
+/**
+ * Human-readable summary such as "every 2 weeks on monday, friday"
+ */
+export function describeRecurrence(recurrence: Recurrence): string {
+  const interval = recurrence.interval || 1;
+  const unit = { daily: 'day', weekdays: 'weekday', weekly: 'week', monthly: 'month' }[recurrence.frequency];
+  let text = interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+
+  if (recurrence.daysOfWeek?.length) {
+    text += ` on ${recurrence.daysOfWeek.map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (recurrence.until) {
+    text += ` until ${recurrence.until}`;
+  }
+  if (recurrence.count) {
+    text += `, ${recurrence.count} times`;
+  }
+  return text;
+}
@@ -0,0 +1,32 @@
+import type { PlanCalendar, Task } from './types';
+
+// "#42"; tags and projects start with a letter, so the two never clash
+const TASK_REF_PATTERN = /^#(\d+)$/;
+
+/**
+ * The number of a "#42" handle, or null for anything else (like a task ID)
+ */
+export function parseTaskRef(value: string): number | null {
+  const match = TASK_REF_PATTERN.exec(value.trim());
+  return match ? Number(match[1]) : null;
+}
+
+export const formatTaskRef = (task: Task): string => (task.ref !== undefined ? `#${task.ref}` : '');
+
+/**
+ * Give every saved task without a handle the next one, oldest day first.
+ * Handles are never reused, not even after their task is deleted. The
+ * coming week's recurring occurrences are saved once a day so they have
+ * handles too.
+ */
+export function assignTaskRefs(calendar: PlanCalendar): void {
+  const dates = Object.keys(calendar.plans).sort();
+  for (const date of dates) {
+    for (const task of calendar.plans[date].tasks) {
+      if (task.ref === undefined) {
+        calendar.lastRef = (calendar.lastRef ?? 0) + 1;
+        task.ref = calendar.lastRef;
+      }
+    }
+  }
+}
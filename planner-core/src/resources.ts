@@ -0,0 +1,133 @@
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+export const RESOURCE_DEFINITIONS: Resource[] = [
+  {
+    uri: 'today-tasks',
+    name: 'Today\'s Tasks',
+    description: 'Current day\'s tasks',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'schedule',
+    name: 'Time Slots',
+    description: 'Morning, afternoon, and evening time slots for every planned day, with recurring tasks for the coming week. `actionable` lists the IDs of open tasks not waiting on another task',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'overdue',
+    name: 'Overdue Tasks',
+    description: 'Open tasks past their due date, or still open after the day they were planned for, oldest first',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'rollovers',
+    name: 'Rollover Log',
+    description: 'The rollover policy and every rollover of unfinished tasks to a new day, newest first',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'timer',
+    name: 'Running Timer',
+    description: 'The running timer with its task, minutes elapsed and minutes tracked before, or null when no timer runs',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'focus',
+    name: 'Current Focus',
+    description: 'What the user is focusing on right now: the Pomodoro session\'s task, phase (work or break), when the phase ends and how many pomodoros are done; null when not focusing',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'time-report',
+    name: 'Time Report',
+    description: 'Tracked time against durationMinutes estimates, in total, per tag and per slot. `ratio` is actual over estimated minutes for tasks with both',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'analytics',
+    name: 'Productivity Analytics',
+    description: 'The last 365 days: completion rate per day and week, per-slot completion, streaks of days with a completed task, average tasks per day and tasks carried over to a later day',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'history',
+    name: 'Change History',
+    description: 'The latest task changes from every client, newest first, with what undo and redo would revert next',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'journal',
+    name: 'Journal',
+    description: 'The 30 most recent end-of-day journal entries, newest first: note, mood and energy (1-5) and slip reasons by task ID',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'archive',
+    name: 'Archive',
+    description: 'The first page of archived tasks, most recently planned first, with the page count and the retention policy',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'projects',
+    name: 'Projects and Tags',
+    description: 'Every project and tag in use, with open and completed task counts',
+    mimeType: 'application/json',
+  },
+];
+
+export const RESOURCE_TEMPLATE_DEFINITIONS: ResourceTemplate[] = [
+  {
+    uriTemplate: 'tasks://{date}',
+    name: 'Tasks for Date',
+    description: 'Active tasks planned for a specific day (YYYY-MM-DD)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'schedule://{date}',
+    name: 'Time Slots for Date',
+    description: 'Morning, afternoon, and evening time slots for a specific day (YYYY-MM-DD), with the IDs of its actionable tasks',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'tasks://tag/{tag}',
+    name: 'Tasks by Tag',
+    description: 'Active tasks with a tag across all days (recurring tasks for the coming week), sorted by date',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'tasks://project/{name}',
+    name: 'Tasks by Project',
+    description: 'Active tasks in a project across all days (recurring tasks for the coming week), sorted by date; the name is matched case-insensitively',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'history://{taskId}',
+    name: 'Task History',
+    description: 'Every change to one task (by ID or #handle, even once deleted), newest first: when, which tool and client, and the old and new values of the changed fields',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'search://{query}{?from,to,status,timeSlot,archived,limit}',
+    name: 'Task Search',
+    description: 'Tasks matching a query across all days, archived ones included, best match first, with the fields that matched. The parameters are the filters of the search_tasks tool',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'analytics://{from}/{to}',
+    name: 'Analytics for Dates',
+    description: 'Productivity analytics for the days from one date to another (YYYY-MM-DD, inclusive; up to five years)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'journal://{date}',
+    name: 'Day Review',
+    description: 'The end-of-day review of a date (YYYY-MM-DD): tasks done, tasks that slipped or were rolled to a later day with the reasons given, and the journal entry',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'archive://{from}/{to}/{page}',
+    name: 'Archived Tasks by Date',
+    description: 'Archived tasks planned between two days (YYYY-MM-DD, inclusive; "-" for no limit), 50 per page; the page defaults to 1',
+    mimeType: 'application/json',
+  },
+];
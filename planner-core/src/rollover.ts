@@ -0,0 +1,60 @@
+import { PlanCalendar, RolloverPolicy, RolloverRecord, Task } from './types';
+import { getAllTasks, moveTask } from './calendar';
+
+export const ROLLOVER_POLICIES: RolloverPolicy[] = ['off', 'move', 'unschedule'];
+
+// Older rollover records are dropped beyond this many
+const ROLLOVER_LOG_LIMIT = 100;
+
+export function parseRolloverPolicy(value: unknown): RolloverPolicy {
+  if (!ROLLOVER_POLICIES.includes(value as RolloverPolicy)) {
+    throw new Error(`Invalid rollover policy: ${value}. Expected one of ${ROLLOVER_POLICIES.join(', ')}`);
+  }
+  return value as RolloverPolicy;
+}
+
+/**
+ * Read `PLANNER_ROLLOVER`; open tasks are moved to today by default
+ */
+export function rolloverPolicyFromEnv(env: Record<string, string | undefined>): RolloverPolicy {
+  return env.PLANNER_ROLLOVER ? parseRolloverPolicy(env.PLANNER_ROLLOVER) : 'move';
+}
+
+/**
+ * Move open one-off tasks from earlier days to `today` and record the move.
+ * `unschedule` also takes them out of their slot (keeping their duration) so
+ * plan_day can place them again. Recurring occurrences are left where they are.
+ */
+export function rollOver(calendar: PlanCalendar, today: string, policy: RolloverPolicy): RolloverRecord | null {
+  calendar.lastRolloverDate = today;
+  if (policy === 'off') {
+    return null;
+  }
+
+  const tasks = getAllTasks(calendar).filter(t => t.date < today && !t.completed && !t.archived && !t.recurrenceId);
+  return carryOver(calendar, tasks, today, policy);
+}
+
+/**
+ * Move tasks to `date` and record the move in the rollover log, like the
+ * daily rollover does; the end-of-day review uses it to roll tasks forward
+ */
+export function carryOver(calendar: PlanCalendar, tasks: Task[], date: string, policy: Exclude<RolloverPolicy, 'off'>): RolloverRecord | null {
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  const record: RolloverRecord = { date, policy, at: new Date().toISOString(), tasks: [] };
+  for (const task of tasks) {
+    record.tasks.push({ taskId: task.id, text: task.text, from: task.date });
+    task.rolledOverFrom = task.rolledOverFrom ?? task.date;
+    if (policy === 'unschedule') {
+      delete task.timeSlot;
+      delete task.startTime;
+      delete task.endTime;
+    }
+    moveTask(calendar, task, date);
+  }
+  calendar.rollovers = [...(calendar.rollovers || []), record].slice(-ROLLOVER_LOG_LIMIT);
+  return record;
+}
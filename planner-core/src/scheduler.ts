@@ -0,0 +1,272 @@
+import { Task, TimeSlot } from './types';
+import { DEFAULT_SLOT_BOUNDARIES, SlotBoundaries, toMinutes } from './times';
+import { categorizeTask } from './categorize';
+import { indexTasks, openBlockers, orderByDependencies } from './dependencies';
+import { comparePriority } from './priority';
+import { TIME_SLOTS } from './validation';
+
+/**
+ * Minutes of work each slot can hold
+ */
+export type SlotCapacity = Record<TimeSlot, number>;
+
+/**
+ * "deep work in the morning": tasks matching `phrase` (in their text, as a
+ * tag or as their project) go into `slot` when it has room
+ */
+export interface EnergyPreference {
+  phrase: string;
+  slot: TimeSlot;
+}
+
+export interface SchedulerOptions {
+  capacity: SlotCapacity;
+  /** Earlier preferences win when a task matches several */
+  preferences: EnergyPreference[];
+  boundaries: SlotBoundaries;
+}
+
+export interface PlanAssignment {
+  taskId: string;
+  text: string;
+  timeSlot: TimeSlot;
+  durationMinutes: number;
+  /** True when the task has no duration and DEFAULT_TASK_MINUTES was assumed */
+  estimated: boolean;
+  /** Why the task went where it did, most important first */
+  reasons: string[];
+}
+
+export interface DayPlan {
+  date: string;
+  assignments: PlanAssignment[];
+  /** Open minutes per slot after the plan, against each slot's capacity */
+  load: Record<TimeSlot, { scheduledMinutes: number; capacityMinutes: number }>;
+}
+
+// Planned length of a task without a duration
+export const DEFAULT_TASK_MINUTES = 30;
+// The working day the slot boundaries split into morning, afternoon and evening
+const DAY_START = '08:00';
+const DAY_END = '22:00';
+const MAX_CAPACITY_MINUTES = 24 * 60;
+
+const PREFERENCE_PATTERN = /^(.+?)\s*(?:(?:in|during)\s+(?:the\s+)?|[:=]\s*)(morning|afternoon|evening)s?$/i;
+
+/**
+ * Every slot holds as many minutes as it spans between 08:00 and 22:00
+ * (240, 300 and 300 with the default boundaries)
+ */
+export function defaultSlotCapacity(boundaries: SlotBoundaries = DEFAULT_SLOT_BOUNDARIES): SlotCapacity {
+  const afternoon = toMinutes(boundaries.afternoon);
+  const evening = toMinutes(boundaries.evening);
+  return {
+    morning: Math.max(0, afternoon - toMinutes(DAY_START)),
+    afternoon: evening - afternoon,
+    evening: Math.max(0, toMinutes(DAY_END) - evening),
+  };
+}
+
+/**
+ * Override some slots' capacity with `{ morning: 180 }` or "morning=180,evening=60"
+ */
+export function parseSlotCapacity(value: unknown, base: SlotCapacity): SlotCapacity {
+  const entries = typeof value === 'string'
+    ? value.split(',').filter(part => part.trim()).map(part => part.split('=').map(s => s.trim()))
+    : value && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : null;
+  if (!entries) {
+    throw new Error('Invalid capacity: expected minutes per slot, e.g. { "morning": 180 }');
+  }
+
+  const capacity = { ...base };
+  for (const [slot, minutes] of entries) {
+    const parsed = typeof minutes === 'string' && minutes.trim() ? Number(minutes) : minutes;
+    if (!TIME_SLOTS.includes(slot as TimeSlot)) {
+      throw new Error(`Invalid capacity: unknown slot "${slot}" (expected ${TIME_SLOTS.join(', ')})`);
+    }
+    if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 0 || parsed > MAX_CAPACITY_MINUTES) {
+      throw new Error(`Invalid capacity for ${slot}: expected whole minutes between 0 and ${MAX_CAPACITY_MINUTES}`);
+    }
+    capacity[slot as TimeSlot] = parsed;
+  }
+  return capacity;
+}
+
+/**
+ * Parse "deep work in the morning", "errands during the afternoon" or
+ * "calls: afternoon"
+ */
+export function parseEnergyPreference(value: string): EnergyPreference {
+  const match = value.trim().match(PREFERENCE_PATTERN);
+  const phrase = match?.[1].trim().replace(/^[@#]/, '').replace(/\s+/g, ' ').toLowerCase();
+  if (!match || !phrase) {
+    throw new Error(`Invalid energy preference: "${value}". Expected something like "deep work in the morning"`);
+  }
+  return { phrase, slot: match[2].toLowerCase() as TimeSlot };
+}
+
+/**
+ * An array of preferences, or one string with preferences separated by ";"
+ */
+export function parseEnergyPreferencesArg(value: unknown): EnergyPreference[] {
+  const values = typeof value === 'string' ? value.split(';').filter(part => part.trim()) : value;
+  if (!Array.isArray(values) || !values.every(v => typeof v === 'string')) {
+    throw new Error('Invalid energy preferences: expected an array of phrases like "deep work in the morning"');
+  }
+  return values.map(parseEnergyPreference);
+}
+
+/**
+ * Read `PLANNER_SLOT_CAPACITY` ("morning=180,evening=60") on top of the
+ * capacity the slot boundaries give
+ */
+export function slotCapacityFromEnv(env: Record<string, string | undefined>, boundaries: SlotBoundaries): SlotCapacity {
+  const base = defaultSlotCapacity(boundaries);
+  return env.PLANNER_SLOT_CAPACITY ? parseSlotCapacity(env.PLANNER_SLOT_CAPACITY, base) : base;
+}
+
+/**
+ * Read `PLANNER_ENERGY_PREFERENCES` ("deep work in the morning; errands in the afternoon")
+ */
+export function energyPreferencesFromEnv(env: Record<string, string | undefined>): EnergyPreference[] {
+  return env.PLANNER_ENERGY_PREFERENCES ? parseEnergyPreferencesArg(env.PLANNER_ENERGY_PREFERENCES) : [];
+}
+
+function matchesPreference(task: Task, { phrase }: EnergyPreference): boolean {
+  // "deep work" matches the text "deep work on chapter 3", @deep-work, @deep or #Deep work
+  const tagNames = [phrase.replace(/ /g, '-'), phrase.split(' ')[0]];
+  return task.text.toLowerCase().includes(phrase)
+    || !!task.tags?.some(tag => tagNames.includes(tag))
+    || task.project?.toLowerCase() === phrase;
+}
+
+const describeDue = (task: Task, date: string): string =>
+  task.dueDate === date ? 'due today' : `overdue (was due ${task.dueDate})`;
+
+/**
+ * Put a day's unscheduled open tasks into slots. Tasks due by the day go
+ * first, then higher priorities, then longer tasks. A task only goes into
+ * a slot no earlier than its blockers and no later than the tasks it blocks
+ * that already have one. Each task takes the best slot in that range with
+ * enough minutes left, preferring its energy preference, then the slot its
+ * text suggests; urgent tasks lean hard towards the earliest slot, others
+ * towards free room. When nothing in range has room, the slot in range with
+ * the most room left takes it; when the range is empty (a blocker comes after
+ * a dependent already), the order can't be kept and the reasons say so.
+ *
+ * `tasks` are the day's tasks; blockers are looked up in `allTasks`. Nothing
+ * is changed: the caller applies the assignments.
+ */
+export function scheduleDay(tasks: Task[], allTasks: Task[], date: string, options: SchedulerOptions): DayPlan {
+  const { capacity, preferences, boundaries } = options;
+  const openTasks = tasks.filter(t => !t.completed && !t.archived);
+  const minutesOf = (task: Task) => task.durationMinutes ?? DEFAULT_TASK_MINUTES;
+  const isDue = (task: Task) => !!task.dueDate && task.dueDate <= date;
+
+  // Already scheduled open tasks count against their slot
+  const load = Object.fromEntries(TIME_SLOTS.map(slot => [
+    slot,
+    openTasks.filter(t => t.timeSlot === slot).reduce((sum, t) => sum + minutesOf(t), 0),
+  ])) as Record<TimeSlot, number>;
+
+  const tasksById = indexTasks([...allTasks, ...tasks]);
+  const assigned = new Map<string, TimeSlot>();
+  const slotOf = (task: Task) => assigned.get(task.id) ?? task.timeSlot;
+
+  const unscheduled = orderByDependencies(
+    openTasks
+      .filter(t => !t.timeSlot)
+      .sort((a, b) =>
+        Number(isDue(b)) - Number(isDue(a))
+        || comparePriority(a, b)
+        || (a.dueDate || '9999').localeCompare(b.dueDate || '9999')
+        || minutesOf(b) - minutesOf(a))
+  );
+
+  const assignments = unscheduled.map((task): PlanAssignment => {
+    const minutes = minutesOf(task);
+    const reasons: string[] = [];
+    const room = (slot: TimeSlot) => capacity[slot] - load[slot];
+
+    // Never before a blocker or after a dependent that has a slot on the same day
+    const blockers = openBlockers(task, tasksById).filter(b => b.date === date && slotOf(b));
+    const dependents = openTasks.filter(d => d.id !== task.id && d.blockedBy?.includes(task.id) && slotOf(d));
+    const earliest = Math.max(0, ...blockers.map(b => TIME_SLOTS.indexOf(slotOf(b)!)));
+    const latest = Math.min(TIME_SLOTS.length - 1, ...dependents.map(d => TIME_SLOTS.indexOf(slotOf(d)!)));
+    const conflict = earliest > latest;
+    // With no slot between them, the blockers win: the task still can't start before them
+    const allowed = conflict ? TIME_SLOTS.slice(earliest) : TIME_SLOTS.slice(earliest, latest + 1);
+
+    const urgent = isDue(task) || task.priority === 1;
+    const preference = preferences.find(p => matchesPreference(task, p));
+    const suggested = categorizeTask(task.text, boundaries);
+    const score = (slot: TimeSlot) =>
+      (preference?.slot === slot ? 100 : 0)
+      + (suggested === slot ? 20 : 0)
+      - TIME_SLOTS.indexOf(slot) * (urgent ? 30 : 5)
+      + ((room(slot) - minutes) / Math.max(capacity[slot], 1)) * 10;
+
+    const fitting = allowed.filter(slot => room(slot) >= minutes);
+    const slot = fitting.length > 0
+      ? fitting.reduce((best, s) => (score(s) > score(best) ? s : best))
+      : allowed.reduce((best, s) => (room(s) > room(best) ? s : best));
+
+    if (isDue(task)) {
+      reasons.push(`${describeDue(task, date)}, so as early as possible`);
+    } else if (task.priority === 1) {
+      reasons.push('P1, so as early as possible');
+    }
+    const describeAll = (related: Task[]) => related.map(t => `"${t.text}" (${slotOf(t)})`).join(', ');
+    if (conflict) {
+      reasons.push(`has to come after ${describeAll(blockers)} but before ${describeAll(dependents)}, which no slot allows; move the tasks it blocks to a later slot`);
+    } else {
+      if (blockers.length > 0) {
+        reasons.push(`after ${describeAll(blockers)}`);
+      }
+      if (dependents.length > 0) {
+        reasons.push(`before ${describeAll(dependents)}, which wait for it`);
+      }
+    }
+    if (preference) {
+      const preferenceText = `"${preference.phrase} in the ${preference.slot}"`;
+      if (preference.slot === slot) {
+        reasons.push(`matches your preference ${preferenceText}`);
+      } else if (!allowed.includes(preference.slot)) {
+        reasons.push(`matches ${preferenceText}, but its blockers or the tasks it blocks rule that slot out`);
+      } else {
+        reasons.push(`matches ${preferenceText}, but the ${preference.slot} has no room for it`);
+      }
+    } else if (suggested === slot) {
+      reasons.push(`its text suggests the ${slot}`);
+    }
+
+    const estimate = `${minutes} min${task.durationMinutes ? '' : ' (estimated)'}`;
+    if (fitting.length > 0) {
+      reasons.push(`${estimate} fits (${room(slot) - minutes} of ${capacity[slot]} min left)`);
+    } else if (allowed.length < TIME_SLOTS.length) {
+      reasons.push(`no slot it can go in (${allowed.join(', ')}) has room for ${estimate}; the ${slot} had the most left and is now over by ${minutes - room(slot)} min`);
+    } else {
+      reasons.push(`no slot has room for ${estimate}; the ${slot} had the most left and is now over by ${minutes - room(slot)} min`);
+    }
+
+    load[slot] += minutes;
+    assigned.set(task.id, slot);
+    return {
+      taskId: task.id,
+      text: task.text,
+      timeSlot: slot,
+      durationMinutes: minutes,
+      estimated: !task.durationMinutes,
+      reasons,
+    };
+  });
+
+  return {
+    date,
+    assignments,
+    load: Object.fromEntries(TIME_SLOTS.map(slot => [
+      slot,
+      { scheduledMinutes: load[slot], capacityMinutes: capacity[slot] },
+    ])) as DayPlan['load'],
+  };
+}
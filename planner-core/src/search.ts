@@ -0,0 +1,161 @@
+import type { Subtask, Task, TimeSlot } from './types';
+
+export type SearchStatus = 'open' | 'completed' | 'any';
+export type ArchivedFilter = 'exclude' | 'include' | 'only';
+export type SearchField = 'text' | 'project' | 'tags' | 'subtasks';
+
+/**
+ * A search_tasks query: every term has to match the text, project, tags or
+ * subtasks; the other fields narrow the tasks searched
+ */
+export interface TaskSearch {
+  query: string;
+  from?: string;
+  to?: string;
+  status?: SearchStatus;
+  timeSlot?: TimeSlot | 'unscheduled';
+  archived?: ArchivedFilter;
+  limit?: number;
+}
+
+export interface SearchHit {
+  task: Task;
+  score: number;
+  // Where the terms matched, best match first
+  fields: SearchField[];
+}
+
+/**
+ * A piece of text for display, marked when it matched a search term
+ */
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export const SEARCH_STATUSES: SearchStatus[] = ['open', 'completed', 'any'];
+export const ARCHIVED_FILTERS: ArchivedFilter[] = ['exclude', 'include', 'only'];
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Points for the best match of one term in each field
+const WHOLE_WORD = 12;
+const WORD_PREFIX = 6;
+const SUBSTRING = 3;
+const LABEL = 8;
+const LABEL_PREFIX = 4;
+const SUBTASK = 2;
+// Extra points when the whole query appears as typed in the task text
+const PHRASE_BONUS = 10;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+
+/**
+ * Split a query into lowercase terms; "quoted phrases" stay one term
+ */
+export function searchTerms(query: string): string[] {
+  const terms = [...query.matchAll(/"([^"]*)"|(\S+)/g)]
+    .map(match => (match[1] ?? match[2]).trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(terms)];
+}
+
+// How well one term matches a piece of text: whole word, word start or anywhere
+function scoreText(text: string, term: string): number {
+  const lower = text.toLowerCase();
+  let best = 0;
+  for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + 1)) {
+    const startsWord = !isWordChar(lower[index - 1]);
+    const endsWord = !isWordChar(lower[index + term.length]);
+    best = Math.max(best, startsWord && endsWord ? WHOLE_WORD : startsWord ? WORD_PREFIX : SUBSTRING);
+  }
+  return best;
+}
+
+function scoreLabel(label: string, term: string): number {
+  const lower = label.toLowerCase();
+  const bare = term.replace(/^[#@]/, '');
+  return lower === bare ? LABEL : lower.startsWith(bare) ? LABEL_PREFIX : 0;
+}
+
+const subtaskTexts = (subtasks: Subtask[] = []): string[] =>
+  subtasks.flatMap(subtask => [subtask.text, ...subtaskTexts(subtask.subtasks)]);
+
+/**
+ * Score a task against the terms, or null when a term matches nowhere
+ */
+export function scoreTask(task: Task, terms: string[]): { score: number; fields: SearchField[] } | null {
+  const fieldScores: Record<SearchField, number> = { text: 0, project: 0, tags: 0, subtasks: 0 };
+  for (const term of terms) {
+    const scores: Record<SearchField, number> = {
+      text: scoreText(task.text, term),
+      project: task.project ? scoreLabel(task.project, term) : 0,
+      tags: Math.max(0, ...(task.tags || []).map(tag => scoreLabel(tag, term))),
+      subtasks: subtaskTexts(task.subtasks).some(text => text.toLowerCase().includes(term)) ? SUBTASK : 0,
+    };
+    if (Object.values(scores).every(score => score === 0)) {
+      return null;
+    }
+    for (const field of Object.keys(scores) as SearchField[]) {
+      fieldScores[field] += scores[field];
+    }
+  }
+
+  const phraseBonus = terms.length > 1 && task.text.toLowerCase().includes(terms.join(' ')) ? PHRASE_BONUS : 0;
+  const fields = (Object.keys(fieldScores) as SearchField[])
+    .filter(field => fieldScores[field] > 0)
+    .sort((a, b) => fieldScores[b] - fieldScores[a]);
+  const score = Object.values(fieldScores).reduce((sum, value) => sum + value, 0) + phraseBonus;
+  return { score, fields };
+}
+
+function matchesSearchFilters(task: Task, search: TaskSearch): boolean {
+  const archived = search.archived ?? 'include';
+  if ((archived === 'exclude' && task.archived) || (archived === 'only' && !task.archived)) {
+    return false;
+  }
+  if ((search.status === 'open' && task.completed) || (search.status === 'completed' && !task.completed)) {
+    return false;
+  }
+  if (search.timeSlot && (task.timeSlot || 'unscheduled') !== search.timeSlot) {
+    return false;
+  }
+  return (!search.from || task.date >= search.from) && (!search.to || task.date <= search.to);
+}
+
+/**
+ * The tasks matching a search, most relevant first; ties go to the most
+ * recently planned task
+ */
+export function searchTasks(tasks: Task[], search: TaskSearch): SearchHit[] {
+  const terms = searchTerms(search.query);
+  if (terms.length === 0) {
+    return [];
+  }
+  const hits: SearchHit[] = [];
+  for (const task of tasks) {
+    const scored = matchesSearchFilters(task, search) ? scoreTask(task, terms) : null;
+    if (scored) {
+      hits.push({ task, ...scored });
+    }
+  }
+  return hits
+    .sort((a, b) => b.score - a.score || b.task.date.localeCompare(a.task.date))
+    .slice(0, search.limit ?? DEFAULT_SEARCH_LIMIT);
+}
+
+/**
+ * Cut text into parts so every occurrence of a search term can be marked
+ */
+export function highlightMatches(text: string, terms: string[]): HighlightPart[] {
+  const pattern = terms.filter(Boolean).map(escapeRegExp).join('|');
+  if (!pattern) {
+    return [{ text, match: false }];
+  }
+  // The capture group keeps the matches in split's output, at odd indexes
+  return text
+    .split(new RegExp(`(${pattern})`, 'gi'))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter(part => part.text);
+}
@@ -0,0 +1,49 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { PlannerCore } from './planner';
+
+/**
+ * Create an MCP server that exposes the planner core. Each transport
+ * connection needs its own Server instance; they can all share one core.
+ */
+export function createPlannerServer(core: PlannerCore): Server {
+  const server = new Server(
+    {
+      name: 'planner-mcp-server',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        resources: {},
+        tools: {},
+        prompts: {},
+      },
+    }
+  );
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => core.listResources());
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => core.listResourceTemplates());
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => core.readResource(request.params.uri));
+  server.setRequestHandler(ListToolsRequestSchema, async () => core.listTools());
+  // Clients can name the part of their UI that made a call in `_meta.source`
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const source = request.params._meta?.source;
+    return core.callTool(request.params.name, request.params.arguments, {
+      source: typeof source === 'string' ? source : server.getClientVersion()?.name,
+    });
+  });
+  server.setRequestHandler(ListPromptsRequestSchema, async () => core.listPrompts());
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    core.getPrompt(request.params.name, request.params.arguments)
+  );
+
+  return server;
+}
@@ -0,0 +1,53 @@
+import { JsonFilePlanStore } from './jsonFileStore';
+import { MemoryPlanStore } from './memoryStore';
+import { SqlitePlanStore } from './sqliteStore';
+import { PlanStore, PlanStoreConfig, PlanStoreDriver } from './planStore';
+
+export * from './planStore';
+export { JsonFilePlanStore } from './jsonFileStore';
+export { MemoryPlanStore } from './memoryStore';
+export { SqlitePlanStore } from './sqliteStore';
+export { Mutex } from './mutex';
+
+const DRIVERS: PlanStoreDriver[] = ['json', 'memory', 'sqlite'];
+
+export function createPlanStore(config: PlanStoreConfig): PlanStore {
+  switch (config.driver) {
+    case 'json':
+      if (!config.dataFile) {
+        throw new Error('The json plan store requires a dataFile path');
+      }
+      return new JsonFilePlanStore(config.dataFile);
+    case 'memory':
+      return new MemoryPlanStore();
+    case 'sqlite':
+      if (!config.sqliteFile) {
+        throw new Error('The sqlite plan store requires a sqliteFile path');
+      }
+      return new SqlitePlanStore(config.sqliteFile);
+    default:
+      throw new Error(`Unknown plan store driver: ${config.driver}`);
+  }
+}
+
+/**
+ * Resolve the store configuration from environment variables:
+ * - PLANNER_STORE: json (default), memory or sqlite
+ * - PLANNER_DATA_FILE: JSON file path
+ * - PLANNER_SQLITE_FILE: SQLite database path
+ */
+export function planStoreConfigFromEnv(
+  env: NodeJS.ProcessEnv,
+  defaults: { dataFile: string; sqliteFile: string }
+): PlanStoreConfig {
+  const driver = (env.PLANNER_STORE || 'json') as PlanStoreDriver;
+  if (!DRIVERS.includes(driver)) {
+    throw new Error(`Unknown PLANNER_STORE driver: ${driver}. Expected one of ${DRIVERS.join(', ')}`);
+  }
+
+  return {
+    driver,
+    dataFile: env.PLANNER_DATA_FILE || defaults.dataFile,
+    sqliteFile: env.PLANNER_SQLITE_FILE || defaults.sqliteFile,
+  };
+}
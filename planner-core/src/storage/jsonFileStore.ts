@@ -0,0 +1,191 @@
+import fs from 'fs/promises';
+import { DailyPlan, PlanCalendar } from '../types';
+import { createEmptyCalendar, pruneEmptyPlans } from '../calendar';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, migrateCalendar, schemaVersionOf } from '../migrations';
+import { CalendarMutator, PlanStore } from './planStore';
+import { Mutex } from './mutex';
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+// A lock older than this is assumed to belong to a crashed process
+const LOCK_STALE_MS = 10000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Stores the calendar as a single pretty-printed JSON document.
+ *
+ * Writes go to a temp file that is renamed over the data file, so readers
+ * never see a half-written document. The previous version is kept as
+ * `<file>.bak` and restored if the data file turns out to be corrupt.
+ * Migrating to a new schema version keeps the old document as
+ * `<file>.v<version>.bak`.
+ * Mutations hold an in-process mutex plus a `<file>.lock` file, which keeps
+ * the dashboard and a separately running MCP server from interleaving.
+ */
+export class JsonFilePlanStore implements PlanStore {
+  private mutex = new Mutex();
+
+  constructor(private readonly filePath: string) {}
+
+  private get backupPath(): string {
+    return `${this.filePath}.bak`;
+  }
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  private async ensureDataFile(): Promise<void> {
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeCalendar(createEmptyCalendar());
+    }
+  }
+
+  private async acquireFileLock(): Promise<void> {
+    const startedAt = Date.now();
+
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      try {
+        const stats = await fs.stat(this.lockPath);
+        if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+          await fs.rm(this.lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Lock disappeared between open and stat; try again
+        continue;
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for plan file lock: ${this.lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  private async releaseFileLock(): Promise<void> {
+    await fs.rm(this.lockPath, { force: true });
+  }
+
+  private async readDocument(filePath: string): Promise<any> {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  }
+
+  /**
+   * Fall back to the last good backup when the data file cannot be parsed.
+   * The corrupt file is kept next to it for inspection.
+   */
+  private async recoverFromBackup(parseError: unknown): Promise<any> {
+    let backup: any;
+    try {
+      backup = await this.readDocument(this.backupPath);
+    } catch {
+      throw new Error(
+        `Plan file ${this.filePath} is corrupt and no usable backup exists: ${parseError instanceof Error ? parseError.message : parseError}`
+      );
+    }
+
+    const corruptPath = `${this.filePath}.corrupt-${Date.now()}`;
+    await fs.rename(this.filePath, corruptPath);
+    await this.writeAtomically(this.filePath, JSON.stringify(backup, null, 2));
+    console.error(`Plan file ${this.filePath} was corrupt; restored last backup (corrupt copy saved to ${corruptPath})`);
+    return backup;
+  }
+
+  private async writeAtomically(filePath: string, contents: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  }
+
+  private async readStoredDocument(): Promise<any> {
+    await this.ensureDataFile();
+
+    try {
+      return await this.readDocument(this.filePath);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      return this.recoverFromBackup(error);
+    }
+  }
+
+  async readCalendar(): Promise<PlanCalendar> {
+    return migrateCalendar(await this.readStoredDocument()).calendar;
+  }
+
+  async writeCalendar(calendar: PlanCalendar): Promise<void> {
+    // The current file was itself written atomically, so it is the last good version
+    try {
+      await fs.copyFile(this.filePath, this.backupPath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    await this.writeAtomically(this.filePath, JSON.stringify(pruneEmptyPlans(calendar), null, 2));
+  }
+
+  async readPlan(date: string): Promise<DailyPlan> {
+    const calendar = await this.readCalendar();
+    return calendar.plans[date] || { date, tasks: [] };
+  }
+
+  async update<T>(mutator: CalendarMutator<T>): Promise<T> {
+    return this.mutex.runExclusive(async () => {
+      await this.acquireFileLock();
+      try {
+        const calendar = await this.readCalendar();
+        const result = await mutator(calendar);
+        await this.writeCalendar(calendar);
+        return result;
+      } finally {
+        await this.releaseFileLock();
+      }
+    });
+  }
+
+  async migrate(): Promise<MigrationReport> {
+    return this.mutex.runExclusive(async () => {
+      await this.acquireFileLock();
+      try {
+        const data = await this.readStoredDocument();
+        const from = schemaVersionOf(data);
+        if (from === CURRENT_SCHEMA_VERSION) {
+          return { from, to: from, applied: [], backupPath: null };
+        }
+
+        const backupPath = `${this.filePath}.v${from}.bak`;
+        await fs.copyFile(this.filePath, backupPath);
+        const { calendar, applied } = migrateCalendar(data);
+        await this.writeCalendar(calendar);
+        return { from, to: CURRENT_SCHEMA_VERSION, applied: applied.map(m => m.description), backupPath };
+      } finally {
+        await this.releaseFileLock();
+      }
+    });
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,53 @@
+import { DailyPlan, PlanCalendar } from '../types';
+import { createEmptyCalendar, pruneEmptyPlans } from '../calendar';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, migrateCalendar, schemaVersionOf } from '../migrations';
+import { CalendarMutator, PlanStore } from './planStore';
+import { Mutex } from './mutex';
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Keeps the calendar in process memory. Nothing survives a restart, which
+ * makes it the driver of choice for tests and throwaway demos.
+ */
+export class MemoryPlanStore implements PlanStore {
+  private calendar: PlanCalendar;
+  private mutex = new Mutex();
+
+  constructor(initial: PlanCalendar = createEmptyCalendar()) {
+    this.calendar = clone(initial);
+  }
+
+  async readCalendar(): Promise<PlanCalendar> {
+    return migrateCalendar(clone(this.calendar)).calendar;
+  }
+
+  async writeCalendar(calendar: PlanCalendar): Promise<void> {
+    this.calendar = pruneEmptyPlans(clone(calendar));
+  }
+
+  async readPlan(date: string): Promise<DailyPlan> {
+    return clone(this.calendar.plans[date] || { date, tasks: [] });
+  }
+
+  async update<T>(mutator: CalendarMutator<T>): Promise<T> {
+    return this.mutex.runExclusive(async () => {
+      const calendar = await this.readCalendar();
+      const result = await mutator(calendar);
+      await this.writeCalendar(calendar);
+      return result;
+    });
+  }
+
+  // Nothing outlives the process, so there is nothing to back up
+  async migrate(): Promise<MigrationReport> {
+    return this.mutex.runExclusive(async () => {
+      const from = schemaVersionOf(this.calendar);
+      const { calendar, applied } = migrateCalendar(clone(this.calendar));
+      this.calendar = calendar;
+      return { from, to: CURRENT_SCHEMA_VERSION, applied: applied.map(m => m.description), backupPath: null };
+    });
+  }
+
+  async close(): Promise<void> {}
+}
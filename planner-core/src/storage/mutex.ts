@@ -0,0 +1,19 @@
+/**
+ * Minimal promise-based mutex: callers run one at a time, in arrival order
+ */
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  async runExclusive<T>(fn: () => T | Promise<T>): Promise<T> {
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise(resolve => (release = resolve));
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+}
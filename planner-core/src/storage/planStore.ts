@@ -0,0 +1,37 @@
+import { DailyPlan, PlanCalendar } from '../types';
+import { MigrationReport } from '../migrations';
+
+export type CalendarMutator<T> = (calendar: PlanCalendar) => T | Promise<T>;
+
+/**
+ * Storage backend for the planner calendar. Drivers persist the whole
+ * calendar; mutations go through `update` so concurrent read-modify-write
+ * cycles cannot overwrite each other.
+ */
+export interface PlanStore {
+  readCalendar(): Promise<PlanCalendar>;
+  writeCalendar(calendar: PlanCalendar): Promise<void>;
+  readPlan(date: string): Promise<DailyPlan>;
+  /**
+   * Read the calendar, apply the mutator and write the result back while
+   * holding the store's lock. Nothing is written if the mutator throws.
+   */
+  update<T>(mutator: CalendarMutator<T>): Promise<T>;
+  /**
+   * Bring the stored data up to the current schema version, after saving a
+   * copy of it as it was. Run once at startup; reads migrate in memory too,
+   * but only this saves the result. Fails for data from a newer version.
+   */
+  migrate(): Promise<MigrationReport>;
+  close(): Promise<void>;
+}
+
+export type PlanStoreDriver = 'json' | 'memory' | 'sqlite';
+
+export interface PlanStoreConfig {
+  driver: PlanStoreDriver;
+  /** JSON file path for the `json` driver */
+  dataFile?: string;
+  /** Database file path for the `sqlite` driver */
+  sqliteFile?: string;
+}
@@ -0,0 +1,152 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import { DailyPlan, PlanCalendar, Task } from '../types';
+import { CURRENT_SCHEMA_VERSION, MigrationReport, migrateCalendar, schemaVersionOf } from '../migrations';
+import { CalendarMutator, PlanStore } from './planStore';
+import { Mutex } from './mutex';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    completed INTEGER NOT NULL DEFAULT 0,
+    archived INTEGER NOT NULL DEFAULT 0,
+    time_slot TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_date ON tasks (date, position);
+  CREATE INDEX IF NOT EXISTS idx_tasks_id ON tasks (id);
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+/**
+ * Stores one row per task so the plan can be queried with plain SQL
+ * (`SELECT * FROM tasks WHERE date = ...`). The full task is kept as JSON in
+ * `data`; the other columns mirror the fields worth filtering on. Any
+ * calendar-level data besides `plans` lives in the `meta` key/value table,
+ * `schemaVersion` included. Migrating to a new schema version keeps a copy
+ * of the old database as `<file>.v<version>.bak`.
+ */
+export class SqlitePlanStore implements PlanStore {
+  private db: BetterSqlite3.Database;
+  private mutex = new Mutex();
+
+  constructor(private readonly filePath: string) {
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = require('better-sqlite3');
+    } catch {
+      throw new Error('The sqlite plan store requires the better-sqlite3 package. Install it or choose another PLANNER_STORE driver.');
+    }
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+  }
+
+  // The calendar as stored, before migrations; a new database has no schemaVersion yet
+  private readDocument(): PlanCalendar & Record<string, unknown> {
+    const calendar: PlanCalendar & Record<string, unknown> = { plans: {} };
+
+    const metaRows = this.db.prepare('SELECT key, value FROM meta').all() as { key: string; value: string }[];
+    for (const row of metaRows) {
+      calendar[row.key] = JSON.parse(row.value);
+    }
+
+    const rows = this.db.prepare('SELECT date, data FROM tasks ORDER BY date, position').all() as { date: string; data: string }[];
+    for (const row of rows) {
+      if (!calendar.plans[row.date]) {
+        calendar.plans[row.date] = { date: row.date, tasks: [] };
+      }
+      calendar.plans[row.date].tasks.push(JSON.parse(row.data));
+    }
+
+    return calendar;
+  }
+
+  async readCalendar(): Promise<PlanCalendar> {
+    return migrateCalendar(this.readDocument()).calendar;
+  }
+
+  async writeCalendar(calendar: PlanCalendar): Promise<void> {
+    const { plans, ...meta } = calendar;
+    const insertTask = this.db.prepare(
+      'INSERT INTO tasks (id, date, position, text, completed, archived, time_slot, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertMeta = this.db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)');
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM tasks').run();
+      for (const plan of Object.values(plans)) {
+        plan.tasks.forEach((task: Task, position: number) => {
+          insertTask.run(
+            task.id,
+            plan.date,
+            position,
+            task.text,
+            task.completed ? 1 : 0,
+            task.archived ? 1 : 0,
+            task.timeSlot ?? null,
+            JSON.stringify(task)
+          );
+        });
+      }
+      // Keys deleted from the calendar (like a stopped timer) go too
+      this.db.prepare('DELETE FROM meta').run();
+      for (const [key, value] of Object.entries(meta)) {
+        if (value !== undefined) {
+          insertMeta.run(key, JSON.stringify(value));
+        }
+      }
+    })();
+  }
+
+  async readPlan(date: string): Promise<DailyPlan> {
+    const rows = this.db.prepare('SELECT data FROM tasks WHERE date = ? ORDER BY position').all(date) as { data: string }[];
+    return { date, tasks: rows.map(row => JSON.parse(row.data)) };
+  }
+
+  async update<T>(mutator: CalendarMutator<T>): Promise<T> {
+    // BEGIN IMMEDIATE takes SQLite's write lock up front, so other processes
+    // sharing the database wait instead of interleaving their own writes
+    return this.mutex.runExclusive(async () => {
+      this.db.exec('BEGIN IMMEDIATE');
+      try {
+        const calendar = await this.readCalendar();
+        const result = await mutator(calendar);
+        await this.writeCalendar(calendar);
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async migrate(): Promise<MigrationReport> {
+    const stored = this.readDocument();
+    const from = schemaVersionOf(stored);
+    if (from === CURRENT_SCHEMA_VERSION) {
+      return { from, to: from, applied: [], backupPath: null };
+    }
+
+    // A new, empty database only needs its version stamped
+    const empty = Object.keys(stored).length === 1 && Object.keys(stored.plans).length === 0;
+    const backupPath = empty ? null : `${this.filePath}.v${from}.bak`;
+    if (backupPath) {
+      await this.db.backup(backupPath);
+    }
+    // update() reads the calendar migrated and writes it back; list what that took
+    const applied = await this.update(() => migrateCalendar(this.readDocument()).applied.map(m => m.description));
+    return { from, to: CURRENT_SCHEMA_VERSION, applied, backupPath };
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -0,0 +1,57 @@
+import type { Subtask, Task } from './types';
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+}
+
+/**
+ * Every subtask of a task or subtask, depth first
+ */
+export function flattenSubtasks(subtasks: Subtask[] = []): Subtask[] {
+  return subtasks.flatMap(subtask => [subtask, ...flattenSubtasks(subtask.subtasks)]);
+}
+
+/**
+ * Completed and total steps at every depth, e.g. { completed: 2, total: 5 }
+ */
+export function subtaskProgress(task: Pick<Task, 'subtasks'>): SubtaskProgress {
+  const subtasks = flattenSubtasks(task.subtasks);
+  return { completed: subtasks.filter(s => s.completed).length, total: subtasks.length };
+}
+
+export function findSubtask(task: Task, subtaskId: string): Subtask {
+  const subtask = flattenSubtasks(task.subtasks).find(s => s.id === String(subtaskId));
+  if (!subtask) {
+    throw new Error(`Subtask not found: ${subtaskId} (in task ${task.text})`);
+  }
+  return subtask;
+}
+
+/**
+ * IDs are short counters, unique within their task, so they are easy to type
+ */
+export function nextSubtaskId(task: Task): string {
+  const ids = flattenSubtasks(task.subtasks).map(s => Number(s.id)).filter(Number.isInteger);
+  return String(Math.max(0, ...ids) + 1);
+}
+
+/**
+ * Complete or reopen a subtask list and everything nested in it
+ */
+export function setSubtasksCompleted(subtasks: Subtask[] = [], completed: boolean): void {
+  for (const subtask of flattenSubtasks(subtasks)) {
+    subtask.completed = completed;
+  }
+}
+
+/**
+ * A fresh, uncompleted copy of a checklist (for new occurrences of a recurring task)
+ */
+export function resetSubtasks(subtasks: Subtask[]): Subtask[] {
+  return subtasks.map(subtask => ({
+    ...subtask,
+    completed: false,
+    ...(subtask.subtasks && { subtasks: resetSubtasks(subtask.subtasks) }),
+  }));
+}
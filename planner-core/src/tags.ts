@@ -0,0 +1,103 @@
+import type { Task } from './types';
+
+/**
+ * Narrow a task list to one project and/or a set of tags (a task must carry
+ * every tag)
+ */
+export interface TaskFilter {
+  project?: string;
+  tags?: string[];
+}
+
+export interface TaskLabels {
+  projects: string[];
+  tags: string[];
+}
+
+const MAX_LABEL_LENGTH = 50;
+// A label starts with a letter, so "#42" stays free for task handles
+const LABEL_PATTERN = /^\p{L}[\p{L}\p{N}_\-/]*$/u;
+const PROJECT_IN_TEXT = /(^|\s)#(\p{L}[\p{L}\p{N}_\-/]*)/gu;
+const TAG_IN_TEXT = /(^|\s)@(\p{L}[\p{L}\p{N}_\-/]*)/gu;
+
+/**
+ * Tags are lowercase single words; a leading "@" or "#" is dropped
+ */
+export function normalizeTag(value: string): string {
+  const tag = value.trim().replace(/^[@#]/, '').toLowerCase();
+  if (!LABEL_PATTERN.test(tag) || tag.length > MAX_LABEL_LENGTH) {
+    throw new Error(`Invalid tag: "${value}". Tags are single words starting with a letter (up to ${MAX_LABEL_LENGTH} characters)`);
+  }
+  return tag;
+}
+
+/**
+ * Accepts an array of tags or a comma-separated string; duplicates are dropped
+ */
+export function parseTagsArg(value: unknown): string[] {
+  const values = typeof value === 'string' ? value.split(',').filter(tag => tag.trim()) : value;
+  if (!Array.isArray(values) || !values.every(tag => typeof tag === 'string')) {
+    throw new Error('Invalid tags: expected an array of strings');
+  }
+  return [...new Set(values.map(normalizeTag))];
+}
+
+/**
+ * Project names keep their case (and may contain spaces) but are matched
+ * case-insensitively; a leading "#" is dropped
+ */
+export function parseProjectArg(value: unknown): string {
+  const project = typeof value === 'string' ? value.trim().replace(/^#/, '').replace(/\s+/g, ' ') : '';
+  if (!project || project.length > MAX_LABEL_LENGTH) {
+    throw new Error(`Invalid project: expected a non-empty name (up to ${MAX_LABEL_LENGTH} characters)`);
+  }
+  return project;
+}
+
+export const sameProject = (a: string | undefined, b: string | undefined): boolean =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Pull "#project" and "@tag" markers out of natural language, e.g.
+ * "buy milk @errands #home". The first project wins.
+ */
+export function parseTagText(input: string): { text: string; project?: string; tags: string[] } {
+  const projects = [...input.matchAll(PROJECT_IN_TEXT)].map(match => match[2]);
+  const tags = [...new Set([...input.matchAll(TAG_IN_TEXT)].map(match => match[2].toLowerCase()))];
+  const text = input
+    .replace(PROJECT_IN_TEXT, '$1')
+    .replace(TAG_IN_TEXT, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    text: text || input,
+    ...(projects.length > 0 && { project: projects[0] }),
+    tags: tags.filter(tag => tag.length <= MAX_LABEL_LENGTH),
+  };
+}
+
+export function matchesTaskFilter(task: Task, filter: TaskFilter): boolean {
+  if (filter.project && !sameProject(task.project, filter.project)) {
+    return false;
+  }
+  return (filter.tags || []).every(tag => task.tags?.includes(tag.toLowerCase()));
+}
+
+/**
+ * Every project and tag used by the given tasks, sorted
+ */
+export function collectLabels(tasks: Task[]): TaskLabels {
+  const projects = new Map<string, string>();
+  const tags = new Set<string>();
+  for (const task of tasks) {
+    if (task.project && !projects.has(task.project.toLowerCase())) {
+      projects.set(task.project.toLowerCase(), task.project);
+    }
+    task.tags?.forEach(tag => tags.add(tag));
+  }
+  return {
+    projects: [...projects.values()].sort((a, b) => a.localeCompare(b)),
+    tags: [...tags].sort(),
+  };
+}
@@ -0,0 +1,83 @@
+import type { Task, TimeEntry } from './types';
+
+/**
+ * Actual against estimated time for a group of tasks with tracked time. Only
+ * tasks that also have a `durationMinutes` estimate count towards the
+ * comparison, so `ratio` compares like with like.
+ */
+export interface TimeReportRow {
+  name: string;
+  tasks: number;
+  actualMinutes: number;
+  estimatedTasks: number;
+  estimatedMinutes: number;
+  actualMinutesOnEstimated: number;
+  // Actual over estimated minutes; above 1 means tasks take longer than planned
+  ratio: number | null;
+}
+
+export interface TimeReport {
+  totals: TimeReportRow;
+  byTag: TimeReportRow[];
+  // Morning, afternoon, evening and unscheduled, in that order
+  bySlot: TimeReportRow[];
+}
+
+const REPORT_SLOTS = ['morning', 'afternoon', 'evening', 'unscheduled'];
+
+export const entryMinutes = (entry: TimeEntry): number =>
+  Math.max(0, Date.parse(entry.end) - Date.parse(entry.start)) / 60000;
+
+/**
+ * Minutes tracked on a task, not counting a timer that is still running
+ */
+export const trackedMinutes = (task: Task): number =>
+  (task.timeEntries || []).reduce((sum, entry) => sum + entryMinutes(entry), 0);
+
+// "4:05" or "1:02:03"
+export function formatElapsed(milliseconds: number): string {
+  const seconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const hours = Math.floor(seconds / 3600);
+  const rest = `${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+  return hours > 0 ? `${hours}:${rest}` : rest.replace(/^0/, '');
+}
+
+// "45m", "1h 20m"
+export function formatTrackedMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  return hours > 0 ? `${hours}h ${rounded % 60}m` : `${rounded}m`;
+}
+
+function summarize(name: string, tasks: Task[]): TimeReportRow {
+  const estimated = tasks.filter(t => t.durationMinutes);
+  const actualMinutes = tasks.reduce((sum, t) => sum + trackedMinutes(t), 0);
+  const estimatedMinutes = estimated.reduce((sum, t) => sum + t.durationMinutes!, 0);
+  const actualMinutesOnEstimated = estimated.reduce((sum, t) => sum + trackedMinutes(t), 0);
+  return {
+    name,
+    tasks: tasks.length,
+    actualMinutes: Math.round(actualMinutes),
+    estimatedTasks: estimated.length,
+    estimatedMinutes,
+    actualMinutesOnEstimated: Math.round(actualMinutesOnEstimated),
+    ratio: estimatedMinutes > 0 ? Math.round((actualMinutesOnEstimated / estimatedMinutes) * 100) / 100 : null,
+  };
+}
+
+/**
+ * Compare tracked time with estimates for every task with tracked time, per
+ * tag (untagged tasks only count in the totals) and per slot
+ */
+export function buildTimeReport(tasks: Task[]): TimeReport {
+  const tracked = tasks.filter(t => t.timeEntries?.length);
+  const tags = [...new Set(tracked.flatMap(t => t.tags || []))].sort();
+  return {
+    totals: summarize('all', tracked),
+    byTag: tags.map(tag => summarize(tag, tracked.filter(t => t.tags?.includes(tag)))),
+    bySlot: REPORT_SLOTS
+      .map(slot => summarize(slot, tracked.filter(t => (t.timeSlot || 'unscheduled') === slot)))
+      .filter(row => row.tasks > 0),
+  };
+}
@@ -0,0 +1,205 @@
+import type { TimeSlot } from './types';
+
+/**
+ * Start times (HH:MM) of the afternoon and evening slots; anything earlier
+ * than the afternoon is morning.
+ */
+export interface SlotBoundaries {
+  afternoon: string;
+  evening: string;
+}
+
+export const DEFAULT_SLOT_BOUNDARIES: SlotBoundaries = {
+  afternoon: '12:00',
+  evening: '17:00',
+};
+
+export interface TaskTimes {
+  startTime?: string;
+  endTime?: string;
+  durationMinutes?: number;
+}
+
+export interface ParsedTimeText extends TaskTimes {
+  /** The input with the time and duration phrases removed */
+  text: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (total: number): string =>
+  `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+
+/**
+ * Validate an HH:MM (24-hour) time. Single-digit hours are padded.
+ */
+export function parseTimeArg(value: unknown, field = 'time'): string {
+  const padded = typeof value === 'string' ? value.trim().replace(/^(\d):/, '0$1:') : value;
+  if (typeof padded !== 'string' || !TIME_PATTERN.test(padded)) {
+    throw new Error(`Invalid ${field}: ${value}. Expected HH:MM (24-hour)`);
+  }
+  return padded;
+}
+
+export function slotForTime(time: string, boundaries: SlotBoundaries = DEFAULT_SLOT_BOUNDARIES): TimeSlot {
+  const minutes = toMinutes(time);
+  if (minutes < toMinutes(boundaries.afternoon)) return 'morning';
+  if (minutes < toMinutes(boundaries.evening)) return 'afternoon';
+  return 'evening';
+}
+
+/**
+ * Read slot boundaries from PLANNER_AFTERNOON_START / PLANNER_EVENING_START
+ */
+export function slotBoundariesFromEnv(env: Record<string, string | undefined>): SlotBoundaries {
+  const boundaries: SlotBoundaries = {
+    afternoon: env.PLANNER_AFTERNOON_START
+      ? parseTimeArg(env.PLANNER_AFTERNOON_START, 'PLANNER_AFTERNOON_START')
+      : DEFAULT_SLOT_BOUNDARIES.afternoon,
+    evening: env.PLANNER_EVENING_START
+      ? parseTimeArg(env.PLANNER_EVENING_START, 'PLANNER_EVENING_START')
+      : DEFAULT_SLOT_BOUNDARIES.evening,
+  };
+  if (toMinutes(boundaries.afternoon) >= toMinutes(boundaries.evening)) {
+    throw new Error(`Afternoon must start before evening (got ${boundaries.afternoon} and ${boundaries.evening})`);
+  }
+  return boundaries;
+}
+
+/**
+ * Fill in whichever of start, end and duration can be derived from the
+ * others. Tasks can't cross midnight.
+ */
+export function resolveTaskTimes(times: TaskTimes): TaskTimes {
+  let { startTime, endTime, durationMinutes } = times;
+
+  if (!startTime && endTime && durationMinutes) {
+    const start = toMinutes(endTime) - durationMinutes;
+    if (start < 0) {
+      throw new Error(`A ${durationMinutes} minute task can't end at ${endTime}`);
+    }
+    startTime = fromMinutes(start);
+  }
+  if (!startTime && endTime) {
+    throw new Error('endTime needs a startTime or a durationMinutes');
+  }
+
+  if (startTime && endTime) {
+    const duration = toMinutes(endTime) - toMinutes(startTime);
+    if (duration <= 0) {
+      throw new Error(`endTime ${endTime} must be after startTime ${startTime}`);
+    }
+    durationMinutes = duration;
+  } else if (startTime && durationMinutes) {
+    const end = toMinutes(startTime) + durationMinutes;
+    if (end > MINUTES_PER_DAY) {
+      throw new Error(`A ${durationMinutes} minute task starting at ${startTime} would run past midnight`);
+    }
+    endTime = end === MINUTES_PER_DAY ? '23:59' : fromMinutes(end);
+  }
+
+  return {
+    ...(startTime && { startTime }),
+    ...(endTime && { endTime }),
+    ...(durationMinutes && { durationMinutes }),
+  };
+}
+
+// "7", "7:30", "7pm", "7:30 pm", "19:00", "noon", "midnight"
+const CLOCK = String.raw`(noon|midnight|\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.)?)`;
+const RANGE_PATTERN = new RegExp(String.raw`\b(?:from\s+|between\s+)?${CLOCK}\s*(?:-|–|to|until|till|and)\s*${CLOCK}(?=\W|$)`, 'i');
+const AT_PATTERN = new RegExp(String.raw`(?:\bat\s+|@\s*)${CLOCK}(?=\W|$)`, 'i');
+// Without "at", only unambiguous clock times count ("7pm", "19:30")
+const BARE_PATTERN = /\b(\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.)|\d{1,2}:\d{2}|noon|midnight)(?=\W|$)/i;
+const DURATION_PATTERN = /\b(?:for\s+)?(an?|half an|\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m)\b/i;
+
+interface ClockTime {
+  minutes: number;
+  hasMeridiem: boolean;
+}
+
+function parseClock(raw: string): ClockTime | null {
+  const value = raw.toLowerCase().replace(/\./g, '').replace(/\s+/g, '');
+  if (value === 'noon') return { minutes: 12 * 60, hasMeridiem: true };
+  if (value === 'midnight') return { minutes: 0, hasMeridiem: true };
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(value);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  const meridiem = match[3];
+  if (minutes > 59 || hours > 23 || (meridiem && (hours < 1 || hours > 12))) {
+    return null;
+  }
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return { minutes: hours * 60 + minutes, hasMeridiem: !!meridiem || !!match[2] || hours > 12 };
+}
+
+// "at 3" almost always means 3pm; "at 9" means 9am
+const assumeDaytime = (clock: ClockTime): number =>
+  !clock.hasMeridiem && clock.minutes < 7 * 60 ? clock.minutes + 12 * 60 : clock.minutes;
+
+const removePhrase = (text: string, phrase: string): string =>
+  text.replace(phrase, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Pull times and durations out of natural language, e.g.
+ * "call mom at 7pm", "standup 9:30-9:45", "gym from 6 to 7am",
+ * "read for 30 minutes", "deep work at 2 for 2 hours".
+ */
+export function parseTimeText(input: string): ParsedTimeText {
+  let text = input;
+  const result: ParsedTimeText = { text: input };
+
+  const range = RANGE_PATTERN.exec(text);
+  const rangeStart = range && parseClock(range[1]);
+  const rangeEnd = range && parseClock(range[2]);
+  if (range && rangeStart && rangeEnd && (range[0].match(/from|between|am|pm|:|noon|midnight/i))) {
+    let start = rangeStart.minutes;
+    let end = rangeEnd.minutes;
+    // "2-3pm": the start borrows the end's meridiem
+    if (!rangeStart.hasMeridiem && rangeEnd.hasMeridiem && end >= 12 * 60 && start + 12 * 60 <= end) {
+      start += 12 * 60;
+    } else if (!rangeStart.hasMeridiem && !rangeEnd.hasMeridiem) {
+      start = assumeDaytime(rangeStart);
+      end = assumeDaytime(rangeEnd);
+    }
+    if (end > start) {
+      result.startTime = fromMinutes(start);
+      result.endTime = fromMinutes(end);
+      text = removePhrase(text, range[0]);
+    }
+  }
+
+  if (!result.startTime) {
+    const at = AT_PATTERN.exec(text);
+    const bare = at ? null : BARE_PATTERN.exec(text);
+    const clock = at ? parseClock(at[1]) : bare ? parseClock(bare[1]) : null;
+    if (clock) {
+      result.startTime = fromMinutes(assumeDaytime(clock));
+      text = removePhrase(text, (at || bare)![0]);
+    }
+  }
+
+  const duration = DURATION_PATTERN.exec(text);
+  if (duration) {
+    const amount = duration[1].toLowerCase();
+    const quantity = amount === 'half an' ? 0.5 : amount === 'a' || amount === 'an' ? 1 : Number(amount);
+    const minutes = Math.round(duration[2].toLowerCase().startsWith('h') ? quantity * 60 : quantity);
+    if (minutes > 0 && minutes <= MINUTES_PER_DAY) {
+      result.durationMinutes = minutes;
+      text = removePhrase(text, duration[0]);
+    }
+  }
+
+  result.text = text || input;
+  return result;
+}
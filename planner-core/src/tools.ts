@@ -0,0 +1,414 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+const PRIORITY_SCHEMA = {
+  description: 'Priority: 1 (highest) to 4, "p1"-"p4", an Eisenhower quadrant (do = urgent & important, schedule = important, delegate = urgent, eliminate = neither) or { urgent, important }',
+  oneOf: [
+    { type: 'integer', minimum: 1, maximum: 4 },
+    { type: 'string', enum: ['p1', 'p2', 'p3', 'p4', 'do', 'schedule', 'delegate', 'eliminate'] },
+    {
+      type: 'object',
+      properties: {
+        urgent: { type: 'boolean' },
+        important: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+  ],
+};
+
+export const TOOL_DEFINITIONS: Tool[] = [
+  {
+    name: 'add_task',
+    description: 'Add a new task to a day\'s plan (today by default), optionally repeating',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Task description' },
+        timeSlot: { 
+          type: 'string', 
+          enum: ['morning', 'afternoon', 'evening'],
+          description: 'Optional time slot assignment (derived from startTime when given)'
+        },
+        startTime: { type: 'string', description: 'Start time as HH:MM (24-hour); sets the time slot' },
+        endTime: { type: 'string', description: 'End time as HH:MM (24-hour), after startTime' },
+        durationMinutes: { type: 'integer', minimum: 1, maximum: 1440, description: 'Length in minutes (fills in endTime when startTime is set)' },
+        priority: PRIORITY_SCHEMA,
+        project: { type: 'string', description: 'Project name, e.g. "Home" (matched case-insensitively)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tags such as "errands" or "quick" (single words, stored lowercase)' },
+        blockedBy: { type: 'array', items: { type: 'string' }, description: 'IDs or #handles of tasks that have to be completed first (not for recurring tasks)' },
+        dueDate: { type: 'string', description: 'Deadline in YYYY-MM-DD format, separate from the day the task is planned for (not for recurring tasks)' },
+        date: { type: 'string', description: 'Date in YYYY-MM-DD format (defaults to today); the first possible occurrence for recurring tasks' },
+        recurrence: {
+          description: 'Repeat the task. A frequency name ("daily", "weekdays", "weekly", "monthly") or a rule object',
+          oneOf: [
+            { type: 'string', enum: ['daily', 'weekdays', 'weekly', 'monthly'] },
+            {
+              type: 'object',
+              properties: {
+                frequency: { type: 'string', enum: ['daily', 'weekdays', 'weekly', 'monthly'] },
+                interval: { type: 'integer', minimum: 1, description: 'Every N days/weeks/months (default 1)' },
+                daysOfWeek: {
+                  type: 'array',
+                  items: { type: ['integer', 'string'] },
+                  description: 'Weekly rules only: days as 0-6 (Sunday = 0) or names (defaults to the start date\'s weekday)'
+                },
+                until: { type: 'string', description: 'Last possible date in YYYY-MM-DD format' },
+                count: { type: 'integer', minimum: 1, description: 'Stop after this many occurrences' },
+              },
+              required: ['frequency'],
+            },
+          ],
+        },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'complete_task',
+    description: 'Toggle task completion status (mark as completed or uncompleted)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID or #handle (like "#42") to toggle completion' },
+        cascade: { type: 'boolean', description: 'Also complete (or reopen) all of the task\'s subtasks (default false)' },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'add_subtask',
+    description: 'Add a checklist step to a task, or nested under one of its subtasks',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task to add the step to' },
+        text: { type: 'string', description: 'Subtask description' },
+        parentSubtaskId: { type: 'string', description: 'Nest the step under this subtask of the task (default: top level)' },
+      },
+      required: ['taskId', 'text'],
+    },
+  },
+  {
+    name: 'complete_subtask',
+    description: 'Toggle a subtask\'s completion status',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task the subtask belongs to' },
+        subtaskId: { type: 'string', description: 'Subtask ID within the task' },
+        cascade: { type: 'boolean', description: 'Also complete (or reopen) the subtask\'s own subtasks (default false)' },
+      },
+      required: ['taskId', 'subtaskId'],
+    },
+  },
+  {
+    name: 'plan_day',
+    description: 'Automatically assign unscheduled tasks for a day to time slots. Respects each slot\'s capacity in minutes, task durations (30 min when unknown), priorities, due dates, energy preferences like "deep work in the morning" and what is already scheduled. Keeps a task out of slots before its blockers and after the tasks it blocks, and says so when no slot fits both. Explains where each task went and why',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'Date in YYYY-MM-DD format (defaults to today)' },
+        dryRun: { type: 'boolean', description: 'Only return the plan without saving it (default false)' },
+        capacity: {
+          type: 'object',
+          description: 'Minutes of work per slot for this plan, overriding the configured capacity, e.g. { "morning": 180 }',
+          properties: {
+            morning: { type: 'integer', minimum: 0 },
+            afternoon: { type: 'integer', minimum: 0 },
+            evening: { type: 'integer', minimum: 0 },
+          },
+          additionalProperties: false,
+        },
+        preferences: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Energy preferences for this plan, e.g. ["deep work in the morning", "errands in the afternoon"]; matched against task text, tags and project',
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'archive_task',
+    description: 'Archive a completed task to remove it from active view',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID or #handle (like "#42") to archive' },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'update_task',
+    description: 'Edit an existing task. Only the fields given are changed; set timeSlot to null to unschedule it. Changing the slot drops start/end times outside it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID or #handle (like "#42") to update' },
+        text: { type: 'string', description: 'New task description' },
+        timeSlot: {
+          type: ['string', 'null'],
+          enum: ['morning', 'afternoon', 'evening', null],
+          description: 'New time slot, or null to unschedule'
+        },
+        startTime: { type: ['string', 'null'], description: 'Start time as HH:MM (24-hour), or null to clear; moves the task to the matching slot and keeps its duration' },
+        endTime: { type: ['string', 'null'], description: 'End time as HH:MM (24-hour), or null to clear' },
+        durationMinutes: { type: ['integer', 'null'], minimum: 1, maximum: 1440, description: 'Length in minutes, or null to clear' },
+        priority: { ...PRIORITY_SCHEMA, oneOf: [...PRIORITY_SCHEMA.oneOf, { type: 'null' }], description: `${PRIORITY_SCHEMA.description}, or null to clear` },
+        project: { type: ['string', 'null'], description: 'Project name, or null to remove the task from its project' },
+        tags: { type: ['array', 'null'], items: { type: 'string' }, description: 'Replaces the task\'s tags; null or [] removes them' },
+        blockedBy: { type: ['array', 'null'], items: { type: 'string' }, description: 'Replaces the tasks (IDs or #handles) this one waits for; null or [] removes them. Links that would form a cycle are rejected' },
+        date: { type: 'string', description: 'Move the task to this date (YYYY-MM-DD)' },
+        dueDate: { type: ['string', 'null'], description: 'Deadline in YYYY-MM-DD format, or null to clear' },
+        completed: { type: 'boolean', description: 'Completion status' },
+        archived: { type: 'boolean', description: 'Archive status (only completed tasks can be archived)' },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'delete_task',
+    description: 'Permanently delete a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID or #handle (like "#42") to delete' },
+        series: {
+          type: 'boolean',
+          description: 'For a recurring task instance: also end the series from this date on (default: delete only this occurrence)'
+        },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'archive_completed',
+    description: 'Archive every completed task for a day, or across all days when no date is given',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'Date in YYYY-MM-DD format (defaults to all days)' },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'unarchive_task',
+    description: 'Bring an archived task back to its day. Find archived tasks in the archive resource',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task ID or #handle (like "#42") to unarchive' },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'bulk_complete',
+    description: 'Mark several tasks as completed in one transaction. Fails without changes if any ID is unknown',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskIds: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Task IDs or #handles to complete' },
+      },
+      required: ['taskIds'],
+    },
+  },
+  {
+    name: 'move_tasks',
+    description: 'Move several tasks to another date and/or time slot in one transaction. Fails without changes if any ID is unknown',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskIds: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Task IDs or #handles to move' },
+        date: { type: 'string', description: 'Target date in YYYY-MM-DD format (keeps each task\'s date if omitted)' },
+        timeSlot: {
+          type: ['string', 'null'],
+          enum: ['morning', 'afternoon', 'evening', null],
+          description: 'Target time slot, or null to unschedule (keeps each task\'s slot if omitted). Start/end times outside the new slot are dropped'
+        },
+      },
+      required: ['taskIds'],
+    },
+  },
+  {
+    name: 'start_timer',
+    description: 'Start tracking time on a task. Only one timer runs at a time: starting another stops the running one and records its time',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task to time' },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'stop_timer',
+    description: 'Stop the running timer and record the time on its task. Completing the task also stops its timer',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'start_focus',
+    description: 'Start a Pomodoro focus session on a task: a work phase, then a break. Calling it again for the task in focus begins the next work cycle and keeps the session\'s count; another task starts a new session',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task to focus on' },
+        workMinutes: { type: 'integer', minimum: 1, maximum: 120, description: 'Length of a work phase (default 25, or the session\'s current length)' },
+        breakMinutes: { type: 'integer', minimum: 1, maximum: 60, description: 'Length of a break (default 5, or the session\'s current length)' },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'log_pomodoro',
+    description: 'Record a completed pomodoro on a task. For the task in focus, the session moves on to its break; during the break there is nothing to log',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'string', description: 'Task the pomodoro was spent on (defaults to the task in focus)' },
+        minutes: { type: 'integer', minimum: 1, maximum: 120, description: 'Length of the work cycle (defaults to the session\'s work length, or 25)' },
+        phaseStartedAt: { type: 'string', description: 'When the work phase being logged started, from the focus resource. If the session has moved on since, the pomodoro was already logged and is not logged again' },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'stop_focus',
+    description: 'End the current focus session. Completing the task in focus also ends it',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'search_tasks',
+    description: 'Find tasks on any day, archived ones included, by words in their text, project, tags or subtasks. Results are ranked by relevance: whole-word matches in the text count most',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for; every word has to match. "Quoted phrases" match as a whole' },
+        from: { type: 'string', description: 'Only tasks planned on or after this date (YYYY-MM-DD)' },
+        to: { type: 'string', description: 'Only tasks planned on or before this date (YYYY-MM-DD)' },
+        status: { type: 'string', enum: ['open', 'completed', 'any'], description: 'Open or completed tasks only (default any)' },
+        timeSlot: { type: 'string', enum: ['morning', 'afternoon', 'evening', 'unscheduled'], description: 'Only tasks in this slot' },
+        archived: { type: 'string', enum: ['exclude', 'include', 'only'], description: 'Whether archived tasks are searched (default include)' },
+        limit: { type: 'number', minimum: 1, maximum: 100, description: 'Most results to return (default 20)' },
+      },
+      required: ['query'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'undo',
+    description: 'Undo the most recent task change that is not undone yet (any tool, any client). Fails if a task it touched has changed since',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'redo',
+    description: 'Redo the most recently undone change. A new change after an undo clears what can be redone',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'rollover_tasks',
+    description: 'Move unfinished one-off tasks from earlier days to today now. This also happens automatically when a new day starts unless PLANNER_ROLLOVER is off',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        policy: {
+          type: 'string',
+          enum: ['move', 'unschedule'],
+          description: 'move keeps each task\'s slot and times; unschedule moves them to today\'s unscheduled tasks (defaults to the configured policy)'
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'save_journal',
+    description: 'Save the end-of-day review of a date: a journal note, mood and energy ratings and why tasks slipped. Only the fields given change; null clears one',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'Date in YYYY-MM-DD format (defaults to today)' },
+        note: { type: ['string', 'null'], maxLength: 5000, description: 'Free-text reflection on the day' },
+        mood: { type: ['integer', 'null'], minimum: 1, maximum: 5, description: 'Mood from 1 (low) to 5 (high)' },
+        energy: { type: ['integer', 'null'], minimum: 1, maximum: 5, description: 'Energy from 1 (low) to 5 (high)' },
+        slipReasons: {
+          type: 'object',
+          additionalProperties: { type: ['string', 'null'], maxLength: 200 },
+          description: 'Why tasks didn\'t get done, by task ID or #handle, e.g. { "#12": "waiting on review" }; null clears a reason'
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'roll_forward',
+    description: 'Move a day\'s unfinished one-off tasks to a later day, e.g. when closing out the day. Completed, archived and recurring tasks stay',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        date: { type: 'string', description: 'Day to roll tasks from in YYYY-MM-DD format (defaults to today)' },
+        to: { type: 'string', description: 'Later day to roll them to in YYYY-MM-DD format (defaults to the next day)' },
+        taskIds: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Task IDs or #handles to roll forward (defaults to every open task of the day)' },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'apply_retention',
+    description: 'Compact and purge old archived tasks now. This also happens automatically when a new day starts if PLANNER_ARCHIVE_RETENTION is set',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        retention: {
+          type: 'string',
+          description: 'Days after archiving until tasks are compacted (subtasks, time entries and pomodoros dropped) and purged, like "compact:30,purge:365" (defaults to the configured policy)'
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'smart_add_task',
+    description: 'Add a task using natural language with automatic time slot categorization. Times and durations in the text ("at 3pm", "9-10:30am", "for 45 minutes") are kept',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'Natural language task description; "p1"-"p4" or "high/low priority" in it set the priority, "#project" the project, "@tag" tags and "due friday" or "by tomorrow" the due date' },
+        priority: PRIORITY_SCHEMA,
+        project: { type: 'string', description: 'Project name (wins over a "#project" in the text)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tags, added to any "@tag" in the text' },
+        dueDate: { type: 'string', description: 'Deadline in YYYY-MM-DD format (wins over a due date in the text)' },
+        date: { type: 'string', description: 'Date in YYYY-MM-DD format (defaults to today, or the day named in the text)' },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'analyze_intent',
+    description: 'Analyze user message to determine intent and extract parameters for task management',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'User message to analyze' },
+      },
+      required: ['message'],
+    },
+  },
+];
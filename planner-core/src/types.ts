@@ -0,0 +1,209 @@
+export type TimeSlot = 'morning' | 'afternoon' | 'evening';
+
+/**
+ * 1 is the most important. Tasks without a priority rank with P4.
+ */
+export type Priority = 1 | 2 | 3 | 4;
+
+// Eisenhower matrix quadrants, in the order of the priorities they map to
+export type EisenhowerQuadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+/**
+ * RRULE-style repeat rule. The series' own `date` is the first possible
+ * occurrence.
+ */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  interval?: number; // Every N days/weeks/months (daily with interval 3 = every 3 days)
+  daysOfWeek?: number[]; // Weekly rules only; 0 = Sunday
+  until?: string; // Last possible date, YYYY-MM-DD
+  count?: number; // Stop after this many occurrences
+  exceptDates?: string[]; // Occurrences that were deleted
+}
+
+/**
+ * A checklist step inside a task; steps can have steps of their own
+ */
+export interface Subtask {
+  id: string; // Unique within its task: "1", "2", ...
+  text: string;
+  completed: boolean;
+  subtasks?: Subtask[];
+}
+
+/**
+ * A stretch of time spent on a task, recorded when its timer stops
+ */
+export interface TimeEntry {
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp
+}
+
+/**
+ * A completed Pomodoro work cycle
+ */
+export interface PomodoroEntry {
+  end: string; // ISO timestamp
+  minutes: number; // Length of the work cycle
+}
+
+export interface Task {
+  id: string;
+  // Short sequential handle, shown and accepted as "#42"; set once the task is saved
+  ref?: number;
+  text: string;
+  completed: boolean;
+  archived?: boolean;
+  archivedAt?: string; // ISO timestamp
+  // Set by the retention policy once subtasks, time entries and pomodoros are dropped
+  compacted?: boolean;
+  timeSlot?: TimeSlot; // Derived from startTime when the task has one
+  startTime?: string; // HH:MM, 24-hour
+  endTime?: string; // HH:MM, 24-hour; always after startTime
+  durationMinutes?: number;
+  priority?: Priority;
+  project?: string; // One per task, e.g. "Home" from "#home"
+  tags?: string[]; // Lowercase, e.g. "errands" from "@errands"
+  subtasks?: Subtask[];
+  blockedBy?: string[]; // IDs of tasks that have to be completed first
+  date: string; // Date in YYYY-MM-DD format: the day the task is planned for
+  dueDate?: string; // Deadline in YYYY-MM-DD format
+  rolledOverFrom?: string; // The day an unfinished task was first planned for, before rollovers
+  timeEntries?: TimeEntry[]; // Tracked time, oldest first; compare with durationMinutes
+  pomodoros?: PomodoroEntry[]; // Completed focus cycles, oldest first
+  recurrence?: Recurrence; // Set on recurring series, which live in PlanCalendar.recurring
+  recurrenceId?: string; // Set on instances: the series they were generated from
+}
+
+export interface DailyPlan {
+  date: string;
+  tasks: Task[];
+}
+
+/**
+ * What happens to unfinished tasks from earlier days when a new day starts:
+ * nothing, moved to today as they are, or moved to today's unscheduled tasks
+ */
+export type RolloverPolicy = 'off' | 'move' | 'unschedule';
+
+/**
+ * How long archived tasks are kept as they are: after `compactAfterDays`
+ * they lose their subtasks, time entries and pomodoros, after
+ * `purgeAfterDays` they are deleted. No keys means archived tasks are kept.
+ */
+export interface ArchiveRetention {
+  compactAfterDays?: number;
+  purgeAfterDays?: number;
+}
+
+// 1 (low) to 5 (high)
+export type Rating = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * The end-of-day review of one date: a free-text note, how the day felt and
+ * why open tasks slipped
+ */
+export interface JournalEntry {
+  date: string;
+  note?: string;
+  mood?: Rating;
+  energy?: Rating;
+  // Why a task didn't get done, by task ID
+  slipReasons?: Record<string, string>;
+  updatedAt: string; // ISO timestamp
+}
+
+export interface RolloverRecord {
+  date: string; // The day tasks were moved to
+  policy: RolloverPolicy;
+  at: string; // ISO timestamp
+  tasks: { taskId: string; text: string; from: string }[];
+}
+
+export interface ActiveTimer {
+  taskId: string;
+  startedAt: string; // ISO timestamp
+}
+
+/**
+ * Pomodoro cycles against one task: a work phase, then a break, then the
+ * next work phase
+ */
+export interface FocusSession {
+  taskId: string;
+  workMinutes: number;
+  breakMinutes: number;
+  phase: 'work' | 'break';
+  phaseStartedAt: string; // ISO timestamp
+  startedAt: string; // ISO timestamp of the first work phase
+  pomodoros: number; // Completed in this session
+}
+
+/**
+ * One task (or recurring series) before and after a change
+ */
+export interface TaskChange {
+  taskId: string;
+  series?: boolean; // A recurring series rather than a task in a plan
+  before: Task | null; // null: the change created it
+  after: Task | null; // null: the change deleted it
+}
+
+export interface ChangeEvent {
+  id: number; // Sequential, starting at 1
+  at: string; // ISO timestamp
+  action: string; // The tool that made the change, "rollover", "retention", "undo" or "redo"
+  source?: string; // The client that called the tool
+  target?: number; // For undo and redo: the event undone or redone
+  // Made by a daily job rather than a client: logged, but never undone
+  automatic?: boolean;
+  changes: TaskChange[];
+}
+
+// All plans keyed by YYYY-MM-DD
+export interface PlanCalendar {
+  // Which of the migrations in migrations.ts the data has been through
+  schemaVersion?: number;
+  plans: Record<string, DailyPlan>;
+  // The last "#42" task handle handed out
+  lastRef?: number;
+  // Recurring series keyed by ID; their instances are generated per date on read
+  recurring?: Record<string, Task>;
+  // The last day the rollover ran for, and what it moved (oldest first)
+  lastRolloverDate?: string;
+  rollovers?: RolloverRecord[];
+  // The last day the archive retention policy ran
+  lastRetentionDate?: string;
+  // The last day the coming week's recurring occurrences were saved
+  lastOccurrencesDate?: string;
+  // End-of-day reviews keyed by date
+  journal?: Record<string, JournalEntry>;
+  // The one running timer, if any
+  activeTimer?: ActiveTimer;
+  // The Pomodoro session the user is focusing on, if any
+  focusSession?: FocusSession;
+  // Append-only log of task changes, oldest first
+  events?: ChangeEvent[];
+}
+
+export interface Schedule {
+  morning: Task[];
+  afternoon: Task[];
+  evening: Task[];
+  unscheduled: Task[];
+  // IDs of open tasks that no open task blocks
+  actionable?: string[];
+}
+
+/**
+ * Outcome for one task of a bulk tool call (also returned as the tool's
+ * structuredContent)
+ */
+export interface BulkTaskResult {
+  taskId: string;
+  text: string;
+  status: 'changed' | 'unchanged';
+  message: string;
+}
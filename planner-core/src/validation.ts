@@ -0,0 +1,304 @@
+import { Priority, Task, TimeSlot } from './types';
+import { parseDateArg } from './dates';
+import { TaskTimes, parseTimeArg } from './times';
+import { parsePriorityArg } from './priority';
+import { parseProjectArg, parseTagsArg } from './tags';
+import { ARCHIVED_FILTERS, ArchivedFilter, MAX_SEARCH_LIMIT, SEARCH_STATUSES, SearchStatus, TaskSearch } from './search';
+
+export const TIME_SLOTS: TimeSlot[] = ['morning', 'afternoon', 'evening'];
+
+/**
+ * Fields `update_task` may change. A `null` timeSlot moves the task back to
+ * unscheduled; a `null` time, duration, priority, project, tag or blocker list
+ * or due date clears it. Blockers are checked against the calendar by the caller.
+ */
+export interface TaskPatch {
+  text?: string;
+  timeSlot?: TimeSlot | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  durationMinutes?: number | null;
+  priority?: Priority | null;
+  project?: string | null;
+  tags?: string[] | null;
+  blockedBy?: string[] | null;
+  date?: string;
+  dueDate?: string | null;
+  completed?: boolean;
+  archived?: boolean;
+}
+
+type FieldParser = (value: unknown) => unknown;
+
+const MAX_DURATION_MINUTES = 24 * 60;
+
+const parseTime: FieldParser = value => {
+  if (value === null || value === '') {
+    return null;
+  }
+  try {
+    return parseTimeArg(value);
+  } catch {
+    throw new Error('must be an HH:MM (24-hour) time or null');
+  }
+};
+
+const PATCH_FIELDS: Record<keyof TaskPatch, FieldParser> = {
+  text: value => {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error('must be a non-empty string');
+    }
+    return value.trim();
+  },
+  timeSlot: value => {
+    if (value === null || value === '') {
+      return null;
+    }
+    if (!TIME_SLOTS.includes(value as TimeSlot)) {
+      throw new Error(`must be one of ${TIME_SLOTS.join(', ')} or null`);
+    }
+    return value;
+  },
+  startTime: parseTime,
+  endTime: parseTime,
+  durationMinutes: value => {
+    if (value === null) {
+      return null;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_DURATION_MINUTES) {
+      throw new Error(`must be a whole number of minutes between 1 and ${MAX_DURATION_MINUTES}, or null`);
+    }
+    return value;
+  },
+  priority: value => {
+    if (value === null) {
+      return null;
+    }
+    try {
+      return parsePriorityArg(value);
+    } catch {
+      throw new Error('must be 1-4, "p1"-"p4", a quadrant (do, schedule, delegate, eliminate), { urgent, important } or null');
+    }
+  },
+  project: value => {
+    if (value === null || value === '') {
+      return null;
+    }
+    try {
+      return parseProjectArg(value);
+    } catch {
+      throw new Error('must be a non-empty project name (up to 50 characters) or null');
+    }
+  },
+  tags: value => {
+    if (value === null) {
+      return null;
+    }
+    // Tag errors already name the offending tag
+    const tags = parseTagsArg(value);
+    return tags.length > 0 ? tags : null;
+  },
+  blockedBy: value => {
+    if (value === null) {
+      return null;
+    }
+    if (!Array.isArray(value) || !value.every(id => typeof id === 'string' && id.trim())) {
+      throw new Error('must be an array of task IDs or null');
+    }
+    const ids = [...new Set(value.map(id => id.trim()))];
+    return ids.length > 0 ? ids : null;
+  },
+  date: value => {
+    if (value === undefined || value === null || value === '') {
+      throw new Error('must be a YYYY-MM-DD date');
+    }
+    try {
+      return parseDateArg(value);
+    } catch {
+      throw new Error('must be a YYYY-MM-DD date');
+    }
+  },
+  dueDate: value => {
+    if (value === null || value === '') {
+      return null;
+    }
+    try {
+      return parseDateArg(value);
+    } catch {
+      throw new Error('must be a YYYY-MM-DD date or null');
+    }
+  },
+  completed: value => {
+    if (typeof value !== 'boolean') {
+      throw new Error('must be a boolean');
+    }
+    return value;
+  },
+  archived: value => {
+    if (typeof value !== 'boolean') {
+      throw new Error('must be a boolean');
+    }
+    return value;
+  },
+};
+
+/**
+ * Validate an `update_task` patch. Every problem is reported at once, keyed by
+ * field, so a client can fix them all in one round trip.
+ */
+export function parseTaskPatch(args: Record<string, any>): TaskPatch {
+  const patch: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [field, value] of Object.entries(args)) {
+    if (field === 'taskId' || value === undefined) {
+      continue;
+    }
+    const parse = PATCH_FIELDS[field as keyof TaskPatch];
+    if (!parse) {
+      errors.push(`${field}: is not an editable field`);
+      continue;
+    }
+    try {
+      patch[field] = parse(value);
+    } catch (error) {
+      errors.push(`${field}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid task update: ${errors.join('; ')}`);
+  }
+  if (Object.keys(patch).length === 0) {
+    throw new Error(`Invalid task update: no fields to change (editable: ${Object.keys(PATCH_FIELDS).join(', ')})`);
+  }
+  return patch as TaskPatch;
+}
+
+/**
+ * Validate the text (required) and time slot of a new task with the same
+ * rules as `update_task`, reporting every problem at once
+ */
+export function parseNewTask(args: Record<string, any>): { text: string; timeSlot?: TimeSlot } {
+  const errors: string[] = [];
+  let text = '';
+  let timeSlot: TimeSlot | undefined;
+  try {
+    text = PATCH_FIELDS.text(args.text) as string;
+  } catch (error) {
+    errors.push(`text: ${error instanceof Error ? error.message : error}`);
+  }
+  try {
+    timeSlot = args.timeSlot !== undefined ? (PATCH_FIELDS.timeSlot(args.timeSlot) as TimeSlot | null) ?? undefined : undefined;
+  } catch (error) {
+    errors.push(`timeSlot: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid task: ${errors.join('; ')}`);
+  }
+  return timeSlot ? { text, timeSlot } : { text };
+}
+
+/**
+ * Validate the optional times of a new task (`startTime`, `endTime`,
+ * `durationMinutes`), reporting every problem at once like `parseTaskPatch`
+ */
+export function parseTaskTimes(args: Record<string, any>): TaskTimes {
+  const times: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const field of ['startTime', 'endTime', 'durationMinutes'] as const) {
+    if (args[field] === undefined || args[field] === null) {
+      continue;
+    }
+    try {
+      const value = PATCH_FIELDS[field](args[field]);
+      if (value !== null) {
+        times[field] = value;
+      }
+    } catch (error) {
+      errors.push(`${field}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid task times: ${errors.join('; ')}`);
+  }
+  return times as TaskTimes;
+}
+
+const SEARCH_FIELDS: Record<Exclude<keyof TaskSearch, 'query'>, FieldParser> = {
+  from: value => parseDateArg(value),
+  to: value => parseDateArg(value),
+  status: value => {
+    if (!SEARCH_STATUSES.includes(value as SearchStatus)) {
+      throw new Error(`must be one of ${SEARCH_STATUSES.join(', ')}`);
+    }
+    return value;
+  },
+  timeSlot: value => {
+    if (value !== 'unscheduled' && !TIME_SLOTS.includes(value as TimeSlot)) {
+      throw new Error(`must be one of ${TIME_SLOTS.join(', ')} or unscheduled`);
+    }
+    return value;
+  },
+  archived: value => {
+    if (!ARCHIVED_FILTERS.includes(value as ArchivedFilter)) {
+      throw new Error(`must be one of ${ARCHIVED_FILTERS.join(', ')}`);
+    }
+    return value;
+  },
+  limit: value => {
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      throw new Error(`must be a whole number from 1 to ${MAX_SEARCH_LIMIT}`);
+    }
+    return limit;
+  },
+};
+
+/**
+ * Validate `search_tasks` arguments (or a `search://` URI's parameters, which
+ * arrive as strings), reporting every problem at once like `parseTaskPatch`
+ */
+export function parseTaskSearch(args: Record<string, any>): TaskSearch {
+  const search: Record<string, unknown> = {};
+  const errors: string[] = [];
+  if (typeof args.query !== 'string' || !args.query.trim()) {
+    errors.push('query: must be a non-empty string');
+  }
+
+  for (const [field, value] of Object.entries(args)) {
+    if (field === 'query' || value === undefined || value === null || value === '') {
+      continue;
+    }
+    const parse = SEARCH_FIELDS[field as keyof typeof SEARCH_FIELDS];
+    if (!parse) {
+      errors.push(`${field}: is not a search filter`);
+      continue;
+    }
+    try {
+      search[field] = parse(value);
+    } catch (error) {
+      errors.push(`${field}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (search.from && search.to && (search.from as string) > (search.to as string)) {
+    errors.push('from: must not be after to');
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid search: ${errors.join('; ')}`);
+  }
+  return { ...search, query: args.query.trim() } as TaskSearch;
+}
+
+/**
+ * Check a patched task as a whole, for rules that span several fields
+ */
+export function assertValidTask(task: Task): void {
+  if (task.archived && !task.completed) {
+    throw new Error(`Task must be completed before archiving: ${task.text}`);
+  }
+}
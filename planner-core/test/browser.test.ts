@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+
+const srcDir = path.join(__dirname, '..', 'src');
+
+// The modules `planner-core/browser` re-exports
+const browserModules = (): string[] =>
+  [...fs.readFileSync(path.join(srcDir, 'browser.ts'), 'utf8').matchAll(/^export \* from '\.\/(\w+)';$/gm)]
+    .map(match => match[1]);
+
+describe('planner-core/browser', () => {
+  it('re-exports modules that import nothing at runtime', () => {
+    const modules = browserModules();
+    expect(modules.length).toBeGreaterThan(0);
+
+    for (const module of modules) {
+      const source = fs.readFileSync(path.join(srcDir, `${module}.ts`), 'utf8');
+      const runtimeImports = source.split('\n').filter(line => /^(import|export .* from) /.test(line) && !line.startsWith('import type '));
+      expect(runtimeImports, `${module}.ts`).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateCalendar, schemaVersionOf } from '../src/migrations';
+import { getAllTasks } from '../src/calendar';
+import { JsonFilePlanStore } from '../src/storage';
+
+// A data file as the planner saved it before schema versions: one day, two
+// tasks added in the same millisecond and so sharing an ID
+const baselineDocument = () => ({
+  date: '2024-03-01',
+  tasks: [
+    { id: '1709280000000', text: 'Write report', completed: false, timeSlot: 'morning' },
+    { id: '1709280000000', text: 'Call mom', completed: true },
+    { id: '1709280000001', text: 'Gym', completed: false, date: '2024-03-02', timeSlot: 'evening' },
+  ],
+});
+
+describe('migrateCalendar', () => {
+  it('brings a version 0 document to the current version', () => {
+    const { calendar, applied } = migrateCalendar(baselineDocument());
+
+    expect(calendar.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(applied.map(m => m.version)).toEqual([1, 2, 3]);
+    expect(Object.keys(calendar.plans).sort()).toEqual(['2024-03-01', '2024-03-02']);
+    expect(calendar.plans['2024-03-01'].tasks.map(t => t.text)).toEqual(['Write report', 'Call mom']);
+    expect(calendar.plans['2024-03-02'].tasks[0]).toMatchObject({ text: 'Gym', date: '2024-03-02', timeSlot: 'evening' });
+  });
+
+  it('gives tasks sharing an ID new ones and numbers every task', () => {
+    const tasks = getAllTasks(migrateCalendar(baselineDocument()).calendar);
+
+    expect(new Set(tasks.map(t => t.id)).size).toBe(tasks.length);
+    expect(tasks[0].id).toBe('1709280000000');
+    expect(tasks.map(t => t.ref)).toEqual([1, 2, 3]);
+  });
+
+  it('moves task dates in line with their plan (version 1 to 2)', () => {
+    const { calendar } = migrateCalendar({
+      schemaVersion: 1,
+      plans: { '2024-03-01': { date: '2024-03-05', tasks: [{ id: 'a', text: 'Stray', completed: false, date: '2024-02-01' }] } },
+    });
+
+    expect(calendar.plans['2024-03-01'].date).toBe('2024-03-01');
+    expect(calendar.plans['2024-03-01'].tasks[0].date).toBe('2024-03-01');
+  });
+
+  it('leaves a current document alone', () => {
+    const current = { schemaVersion: CURRENT_SCHEMA_VERSION, lastRef: 1, plans: { '2024-03-01': { date: '2024-03-01', tasks: [{ id: 'a', ref: 1, text: 'Done', completed: true, date: '2024-03-01' }] } } };
+    const { calendar, applied } = migrateCalendar(JSON.parse(JSON.stringify(current)));
+
+    expect(applied).toEqual([]);
+    expect(calendar).toEqual(current);
+  });
+
+  it('refuses data from a newer planner and invalid versions', () => {
+    expect(() => schemaVersionOf({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, plans: {} })).toThrow(/Upgrade the planner/);
+    expect(() => schemaVersionOf({ schemaVersion: 'two', plans: {} })).toThrow(/Invalid schemaVersion/);
+  });
+});
+
+describe('JsonFilePlanStore.migrate', () => {
+  let dir: string;
+  let dataFile: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'planner-migrations-'));
+    dataFile = path.join(dir, 'daily-plan.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('migrates the file and keeps a backup of the original', async () => {
+    const original = JSON.stringify(baselineDocument(), null, 2);
+    await fs.writeFile(dataFile, original);
+
+    const report = await new JsonFilePlanStore(dataFile).migrate();
+
+    expect(report).toMatchObject({ from: 0, to: CURRENT_SCHEMA_VERSION, backupPath: `${dataFile}.v0.bak` });
+    expect(report.applied).toHaveLength(3);
+    expect(await fs.readFile(`${dataFile}.v0.bak`, 'utf-8')).toBe(original);
+    const saved = JSON.parse(await fs.readFile(dataFile, 'utf-8'));
+    expect(saved.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(saved.lastRef).toBe(3);
+  });
+
+  it('does nothing the second time', async () => {
+    await fs.writeFile(dataFile, JSON.stringify(baselineDocument()));
+    const store = new JsonFilePlanStore(dataFile);
+    await store.migrate();
+
+    const report = await store.migrate();
+
+    expect(report).toEqual({ from: CURRENT_SCHEMA_VERSION, to: CURRENT_SCHEMA_VERSION, applied: [], backupPath: null });
+  });
+
+  it('refuses a file from a newer planner without touching it', async () => {
+    const newer = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, plans: {} });
+    await fs.writeFile(dataFile, newer);
+
+    await expect(new JsonFilePlanStore(dataFile).migrate()).rejects.toThrow(/only supports up to/);
+    expect(await fs.readFile(dataFile, 'utf-8')).toBe(newer);
+    expect(await fs.readdir(dir)).toEqual(['daily-plan.json']);
+  });
+});
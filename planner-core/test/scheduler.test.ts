@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { defaultSlotCapacity, scheduleDay } from '../src/scheduler';
+import { DEFAULT_SLOT_BOUNDARIES } from '../src/times';
+import { Task } from '../src/types';
+
+const date = '2024-03-01';
+
+const options = (capacity = {}) => ({
+  capacity: { ...defaultSlotCapacity(), ...capacity },
+  preferences: [],
+  boundaries: DEFAULT_SLOT_BOUNDARIES,
+});
+
+const task = (fields: Partial<Task> & Pick<Task, 'id' | 'text'>): Task => ({ completed: false, date, ...fields });
+
+describe('scheduleDay', () => {
+  it('puts a blocker no later than a task it blocks that already has a slot', () => {
+    const tasks = [
+      task({ id: 'report', text: 'Send report', timeSlot: 'morning', durationMinutes: 30, blockedBy: ['analysis'] }),
+      task({ id: 'analysis', text: 'Finish analysis', durationMinutes: 60 }),
+    ];
+
+    const plan = scheduleDay(tasks, tasks, date, options({ morning: 60 }));
+
+    expect(plan.assignments).toHaveLength(1);
+    expect(plan.assignments[0]).toMatchObject({ taskId: 'analysis', timeSlot: 'morning' });
+    expect(plan.assignments[0].reasons).toContain('before "Send report" (morning), which wait for it');
+    expect(plan.assignments[0].reasons.some(r => r.startsWith('no slot it can go in (morning) has room'))).toBe(true);
+  });
+
+  it('puts a blocked task no earlier than its blocker', () => {
+    const tasks = [
+      task({ id: 'analysis', text: 'Finish analysis', timeSlot: 'afternoon' }),
+      task({ id: 'report', text: 'Send report', blockedBy: ['analysis'] }),
+    ];
+
+    const plan = scheduleDay(tasks, tasks, date, options());
+
+    expect(plan.assignments[0]).toMatchObject({ taskId: 'report' });
+    expect(plan.assignments[0].timeSlot).not.toBe('morning');
+  });
+
+  it('says so when a task has to go after a blocker and before a dependent in an earlier slot', () => {
+    const tasks = [
+      task({ id: 'data', text: 'Get data', timeSlot: 'afternoon' }),
+      task({ id: 'report', text: 'Send report', timeSlot: 'morning', blockedBy: ['analysis'] }),
+      task({ id: 'analysis', text: 'Finish analysis', blockedBy: ['data'] }),
+    ];
+
+    const plan = scheduleDay(tasks, tasks, date, options());
+
+    expect(plan.assignments[0]).toMatchObject({ taskId: 'analysis' });
+    expect(plan.assignments[0].timeSlot).not.toBe('morning');
+    expect(plan.assignments[0].reasons[0]).toMatch(/which no slot allows/);
+  });
+});